@@ -0,0 +1,91 @@
+import type { Metadata } from "next"
+import { headers } from "next/headers"
+import { notFound } from "next/navigation"
+import { ExternalLink, Shield } from "lucide-react"
+import { AnalysisResultView } from "@/components/analysis-result"
+import { NewAnalysisLink } from "@/components/new-analysis-link"
+import { ReviewForm } from "@/components/review-form"
+import { Card } from "@/components/ui/card"
+import { getBaseUrl } from "@/lib/base-url"
+import { serializeJsonLd, toClaimReviewJsonLd } from "@/lib/export/claimreview"
+import { MESSAGES, languageFromHeader } from "@/lib/i18n"
+import { getReview, reviewedClassification, toPublicReview } from "@/lib/review"
+import { getAnalysisStore } from "@/lib/store"
+
+interface AnalysisPageProps {
+  params: Promise<{ id: string }>
+}
+
+export async function generateMetadata({ params }: AnalysisPageProps): Promise<Metadata> {
+  const { id } = await params
+  const stored = await getAnalysisStore().get(id)
+  if (!stored) {
+    const language = languageFromHeader((await headers()).get("accept-language"))
+    return { title: MESSAGES[language].permalink.notFound }
+  }
+
+  const { review } = await getReview(stored.id)
+  const classification = reviewedClassification(stored, review)
+  // The confidence is the model's, so it is only shown next to the model's verdict
+  const { confidence } = stored.result
+  const overturned = classification !== stored.result.classification
+  const verdict = overturned ? classification : `${classification} (${confidence}%)`
+  return {
+    title: `${verdict} – Disinformation Hunter`,
+    description: (overturned && review.rationale) || stored.result.explanation,
+  }
+}
+
+export default async function AnalysisPage({ params }: AnalysisPageProps) {
+  const { id } = await params
+  const stored = await getAnalysisStore().get(id)
+  if (!stored) notFound()
+
+  const { result, input } = stored
+  const content = result.source?.text ?? input.content ?? ""
+  const { review } = await getReview(stored.id)
+  const publicReview = toPublicReview(review)
+  const claimReview = toClaimReviewJsonLd(stored, { baseUrl: getBaseUrl(await headers()), review: publicReview })
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center p-4 dark">
+      <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: serializeJsonLd(claimReview) }} />
+      <div className="w-full max-w-2xl space-y-8">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Shield className="w-6 h-6 text-primary" />
+            <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+              Disinformation Hunter 🕵️
+            </h1>
+          </div>
+          <NewAnalysisLink />
+        </div>
+
+        <Card className="glow-border bg-card/50 backdrop-blur-sm p-6 space-y-6">
+          {input.url ? (
+            <a
+              href={input.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 text-sm text-primary hover:underline break-all"
+            >
+              <ExternalLink className="w-4 h-4 flex-shrink-0" />
+              {input.url}
+            </a>
+          ) : (
+            <p dir="auto" className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-6">
+              {input.content}
+            </p>
+          )}
+
+          <AnalysisResultView
+            result={{ ...result, id: stored.id }}
+            content={content}
+            review={publicReview}
+          />
+          <ReviewForm analysisId={stored.id} classification={result.classification} />
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin"
+import type { AnalysisErrorResponse } from "@/lib/analysis/schema"
+import { type ApiKey, getApiKeyStore } from "@/lib/api-keys"
+
+// Revoked keys stay listed so their history is not lost, but stop authenticating at once
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json<AnalysisErrorResponse>(
+      { error: "Admin token required", code: "unauthorized" },
+      { status: 401 },
+    )
+  }
+
+  const apiKey = await getApiKeyStore().revoke((await params).id)
+  if (!apiKey) {
+    return NextResponse.json<AnalysisErrorResponse>({ error: "API key not found", code: "not_found" }, { status: 404 })
+  }
+  return NextResponse.json<{ apiKey: ApiKey }>({ apiKey })
+}
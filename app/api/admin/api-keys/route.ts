@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin"
+import type { AnalysisErrorResponse } from "@/lib/analysis/schema"
+import { type ApiKey, createApiKeySchema, getApiKeyStore } from "@/lib/api-keys"
+
+function errorResponse(error: string, code: AnalysisErrorResponse["code"], status: number) {
+  return NextResponse.json<AnalysisErrorResponse>({ error, code }, { status })
+}
+
+export async function GET(request: Request) {
+  if (!isAdminRequest(request)) return errorResponse("Admin token required", "unauthorized", 401)
+  return NextResponse.json<{ keys: ApiKey[] }>({ keys: await getApiKeyStore().list() })
+}
+
+// The secret is only ever returned here; the store keeps a hash
+export async function POST(request: Request) {
+  if (!isAdminRequest(request)) return errorResponse("Admin token required", "unauthorized", 401)
+
+  const parsed = createApiKeySchema.safeParse(await request.json().catch(() => ({})))
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`)
+    return errorResponse(`Invalid API key request (${issues.join("; ")})`, "invalid_request", 400)
+  }
+
+  return NextResponse.json<{ apiKey: ApiKey; secret: string }>(await getApiKeyStore().create(parsed.data), {
+    status: 201,
+  })
+}
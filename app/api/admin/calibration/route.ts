@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin"
+import type { AnalysisErrorResponse } from "@/lib/analysis/schema"
+import { type Calibration, getCalibrationStore } from "@/lib/calibration"
+
+function unauthorized() {
+  return NextResponse.json<AnalysisErrorResponse>(
+    { error: "Admin token required", code: "unauthorized" },
+    { status: 401 },
+  )
+}
+
+export async function GET(request: Request) {
+  if (!isAdminRequest(request)) return unauthorized()
+  return NextResponse.json<{ calibration: Calibration | null }>({ calibration: await getCalibrationStore().get() })
+}
+
+// Back to raw model confidence
+export async function DELETE(request: Request) {
+  if (!isAdminRequest(request)) return unauthorized()
+  await getCalibrationStore().set(null)
+  return NextResponse.json<{ calibration: Calibration | null }>({ calibration: null })
+}
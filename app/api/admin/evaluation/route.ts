@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { isAdminRequest } from "@/lib/admin"
+import { AnalysisError } from "@/lib/analysis/errors"
+import { type AnalysisErrorResponse, CALIBRATION_METHODS } from "@/lib/analysis/schema"
+import { getCalibrationStore } from "@/lib/calibration"
+import { type EvaluationReport, labeledExampleSchema, loadLabeledDataset, runEvaluation } from "@/lib/eval"
+
+const evaluationRequestSchema = z.object({
+  // Inline examples; without them the dataset at EVAL_DATASET is used
+  examples: z.array(labeledExampleSchema).min(1).max(1000).optional(),
+  calibrate: z.enum(CALIBRATION_METHODS).optional(),
+  // Make the fitted calibration the one applied to live results
+  save: z.boolean().default(false),
+})
+
+function errorResponse(error: string, code: AnalysisErrorResponse["code"], status: number) {
+  return NextResponse.json<AnalysisErrorResponse>({ error, code }, { status })
+}
+
+export async function POST(request: Request) {
+  if (!isAdminRequest(request)) return errorResponse("Admin token required", "unauthorized", 401)
+
+  const parsed = evaluationRequestSchema.safeParse(await request.json().catch(() => ({})))
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`)
+    return errorResponse(`Invalid evaluation request (${issues.join("; ")})`, "invalid_request", 400)
+  }
+
+  const { examples, calibrate, save } = parsed.data
+  try {
+    const dataset = examples
+      ? examples.map((example, index) => ({ ...example, id: example.id ?? String(index + 1) }))
+      : await loadLabeledDataset()
+    if (save && dataset.some((example) => example.response)) {
+      return errorResponse("Only calibrations fitted on live model replies can be saved", "invalid_request", 400)
+    }
+    const report = await runEvaluation(dataset, { calibrate })
+    if (save && report.calibration) await getCalibrationStore().set(report.calibration.fitted)
+    return NextResponse.json<EvaluationReport & { saved: boolean }>({ ...report, saved: save && !!report.calibration })
+  } catch (error) {
+    if (error instanceof AnalysisError) return errorResponse(error.message, error.code, error.status)
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return errorResponse("No evaluation dataset found; set EVAL_DATASET or send examples", "invalid_request", 400)
+    }
+    throw error
+  }
+}
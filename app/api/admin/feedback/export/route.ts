@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin"
+import { toErrorResponse } from "@/lib/analysis/errors"
+import type { AnalysisErrorResponse } from "@/lib/analysis/schema"
+import { buildFeedbackDataset } from "@/lib/feedback"
+import { parseListFilters } from "@/lib/store"
+
+// The labeled dataset as JSONL, one example per line; save it as EVAL_DATASET to evaluate against it.
+// ?from= and ?to= and ?classification= narrow it by when the analysis ran and what the model said
+export async function GET(request: Request) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json<AnalysisErrorResponse>(
+      { error: "Admin token required", code: "unauthorized" },
+      { status: 401 },
+    )
+  }
+
+  try {
+    const examples = await buildFeedbackDataset(parseListFilters(new URL(request.url).searchParams))
+    return new Response(examples.map((example) => `${JSON.stringify(example)}\n`).join(""), {
+      headers: {
+        "Content-Type": "application/x-ndjson",
+        "Content-Disposition": `attachment; filename="feedback-${new Date().toISOString().slice(0, 10)}.jsonl"`,
+      },
+    })
+  } catch (error) {
+    const { body, status } = toErrorResponse(error)
+    return NextResponse.json<AnalysisErrorResponse>(body, { status })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin"
+import type { AnalysisErrorResponse } from "@/lib/analysis/schema"
+import { PROMPT_TEMPLATES, promptTemplateId } from "@/lib/prompts"
+import { type Settings, getSettingsStore, settingsSchema } from "@/lib/settings"
+
+interface SettingsResponse {
+  settings: Settings
+  promptTemplates: { id: string; description: string }[]
+}
+
+function unauthorized() {
+  return NextResponse.json<AnalysisErrorResponse>(
+    { error: "Admin token required", code: "unauthorized" },
+    { status: 401 },
+  )
+}
+
+function respond(settings: Settings) {
+  return NextResponse.json<SettingsResponse>({
+    settings,
+    promptTemplates: PROMPT_TEMPLATES.map((template) => ({
+      id: promptTemplateId(template),
+      description: template.description,
+    })),
+  })
+}
+
+export async function GET(request: Request) {
+  if (!isAdminRequest(request)) return unauthorized()
+  return respond(await getSettingsStore().get())
+}
+
+export async function PATCH(request: Request) {
+  if (!isAdminRequest(request)) return unauthorized()
+
+  const parsed = settingsSchema.partial().safeParse(await request.json().catch(() => undefined))
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`)
+    return NextResponse.json<AnalysisErrorResponse>(
+      { error: `Invalid settings (${issues.join("; ")})`, code: "invalid_request" },
+      { status: 400 },
+    )
+  }
+
+  return respond(await getSettingsStore().update(parsed.data))
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin"
+import type { AnalysisErrorResponse } from "@/lib/analysis/schema"
+import { getWebhookStore, updateSubscriptionSchema, withoutSecret } from "@/lib/webhooks"
+
+type Params = { params: Promise<{ id: string }> }
+
+function errorResponse(error: string, code: AnalysisErrorResponse["code"], status: number) {
+  return NextResponse.json<AnalysisErrorResponse>({ error, code }, { status })
+}
+
+// The subscription with its most recent deliveries, newest first
+export async function GET(request: Request, { params }: Params) {
+  if (!isAdminRequest(request)) return errorResponse("Admin token required", "unauthorized", 401)
+
+  const store = getWebhookStore()
+  const { id } = await params
+  const webhook = await store.getSubscription(id)
+  if (!webhook) return errorResponse("Webhook not found", "not_found", 404)
+
+  const deliveries = await store.listDeliveries({ subscriptionId: id })
+  return NextResponse.json({ webhook: withoutSecret(webhook), deliveries })
+}
+
+export async function PATCH(request: Request, { params }: Params) {
+  if (!isAdminRequest(request)) return errorResponse("Admin token required", "unauthorized", 401)
+
+  const parsed = updateSubscriptionSchema.safeParse(await request.json().catch(() => ({})))
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`)
+    return errorResponse(`Invalid webhook (${issues.join("; ")})`, "invalid_request", 400)
+  }
+
+  const store = getWebhookStore()
+  const webhook = await store.getSubscription((await params).id)
+  if (!webhook) return errorResponse("Webhook not found", "not_found", 404)
+
+  const updated = { ...webhook, ...parsed.data }
+  await store.saveSubscription(updated)
+  return NextResponse.json({ webhook: withoutSecret(updated) })
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  if (!isAdminRequest(request)) return errorResponse("Admin token required", "unauthorized", 401)
+
+  if (!(await getWebhookStore().deleteSubscription((await params).id))) {
+    return errorResponse("Webhook not found", "not_found", 404)
+  }
+  return new Response(null, { status: 204 })
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin"
+import type { AnalysisErrorResponse } from "@/lib/analysis/schema"
+import { type WebhookDelivery, getWebhookStore, sendTestWebhook } from "@/lib/webhooks"
+
+// Sends a webhook.test event once and waits for the outcome, so a receiver can be checked before real traffic
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json<AnalysisErrorResponse>(
+      { error: "Admin token required", code: "unauthorized" },
+      { status: 401 },
+    )
+  }
+
+  const webhook = await getWebhookStore().getSubscription((await params).id)
+  if (!webhook) {
+    return NextResponse.json<AnalysisErrorResponse>({ error: "Webhook not found", code: "not_found" }, { status: 404 })
+  }
+  return NextResponse.json<{ delivery: WebhookDelivery }>({ delivery: await sendTestWebhook(webhook) })
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin"
+import type { AnalysisErrorResponse } from "@/lib/analysis/schema"
+import {
+  type WebhookSubscription,
+  createSubscription,
+  createSubscriptionSchema,
+  getWebhookStore,
+  withoutSecret,
+} from "@/lib/webhooks"
+
+function errorResponse(error: string, code: AnalysisErrorResponse["code"], status: number) {
+  return NextResponse.json<AnalysisErrorResponse>({ error, code }, { status })
+}
+
+export async function GET(request: Request) {
+  if (!isAdminRequest(request)) return errorResponse("Admin token required", "unauthorized", 401)
+  const subscriptions = await getWebhookStore().listSubscriptions()
+  return NextResponse.json({ webhooks: subscriptions.map(withoutSecret) })
+}
+
+// The signing secret is only returned on creation
+export async function POST(request: Request) {
+  if (!isAdminRequest(request)) return errorResponse("Admin token required", "unauthorized", 401)
+
+  const parsed = createSubscriptionSchema.safeParse(await request.json().catch(() => ({})))
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`)
+    return errorResponse(`Invalid webhook (${issues.join("; ")})`, "invalid_request", 400)
+  }
+
+  const webhook = createSubscription(parsed.data)
+  await getWebhookStore().saveSubscription(webhook)
+  return NextResponse.json<{ webhook: WebhookSubscription }>({ webhook }, { status: 201 })
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import type { AnalysisErrorResponse } from "@/lib/analysis/schema"
+import { getBaseUrl } from "@/lib/base-url"
+import { toClaimReviewJsonLd } from "@/lib/export/claimreview"
+import { getReview, toPublicReview } from "@/lib/review"
+import { getAnalysisStore } from "@/lib/store"
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const stored = await getAnalysisStore().get(id)
+
+  if (!stored) {
+    return NextResponse.json<AnalysisErrorResponse>(
+      { error: "Analysis not found", code: "not_found" },
+      { status: 404 },
+    )
+  }
+
+  const { review } = await getReview(stored.id)
+  const claimReview = toClaimReviewJsonLd(stored, {
+    baseUrl: getBaseUrl(request.headers),
+    review: toPublicReview(review),
+  })
+  return NextResponse.json(claimReview, { headers: { "Content-Type": "application/ld+json" } })
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { AnalysisError, toErrorResponse } from "@/lib/analysis/errors"
+import type { AnalysisErrorResponse } from "@/lib/analysis/schema"
+import { MAX_FEEDBACK_BODY_BYTES, feedbackRequestSchema, submitFeedback } from "@/lib/feedback"
+import { RateLimitError, enforceRateLimit, getRateLimitClient, readLimitedBody } from "@/lib/rate-limit"
+import { getAnalysisStore } from "@/lib/store"
+
+// Thumbs up or down on a stored result or one of its sections, optionally with the label it should have had
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  let headers: Record<string, string> = {}
+  try {
+    // Votes take from the caller's burst limit but not their analysis quota
+    const client = await getRateLimitClient(request)
+    headers = await enforceRateLimit(request, { analyses: 0, client })
+    const body = await readLimitedBody(request, MAX_FEEDBACK_BODY_BYTES)
+    const parsed = feedbackRequestSchema.safeParse(await body.json().catch(() => ({})))
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`)
+      throw new AnalysisError("invalid_request", `Invalid feedback (${issues.join("; ")})`)
+    }
+
+    const { id } = await params
+    if (!(await getAnalysisStore().get(id))) throw new AnalysisError("not_found", "Analysis not found")
+
+    const feedback = await submitFeedback(id, parsed.data, client)
+    return NextResponse.json<{ id: string }>({ id: feedback.id }, { status: 201, headers })
+  } catch (error) {
+    if (!(error instanceof AnalysisError)) console.error("Feedback error:", error)
+    const { body, status } = toErrorResponse(error)
+    return NextResponse.json<AnalysisErrorResponse>(body, {
+      status,
+      headers: error instanceof RateLimitError ? error.headers : headers,
+    })
+  }
+}
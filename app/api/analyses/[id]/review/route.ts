@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import type { AnalysisErrorResponse } from "@/lib/analysis/schema"
+import { type PublicReview, getReview, toPublicReview } from "@/lib/review"
+import { getAnalysisStore } from "@/lib/store"
+
+// The human verdict shown next to the model's; reviewer identities and the audit log are only in /api/v1
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  if (!(await getAnalysisStore().get(id))) {
+    return NextResponse.json<AnalysisErrorResponse>(
+      { error: "Analysis not found", code: "not_found" },
+      { status: 404 },
+    )
+  }
+
+  const { review } = await getReview(id)
+  return NextResponse.json<{ review: PublicReview }>({ review: toPublicReview(review) })
+}
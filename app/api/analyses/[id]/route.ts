@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import type { AnalysisErrorResponse, AnalysisResult } from "@/lib/analysis/schema"
+import { getAnalysisStore } from "@/lib/store"
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const stored = await getAnalysisStore().get(id)
+
+  if (!stored) {
+    return NextResponse.json<AnalysisErrorResponse>(
+      { error: "Analysis not found", code: "not_found" },
+      { status: 404 },
+    )
+  }
+
+  return NextResponse.json<AnalysisResult>({ ...stored.result, id: stored.id })
+}
@@ -0,0 +1,114 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AnalysisError } from "@/lib/analysis/errors"
+import type { AnalysisErrorResponse } from "@/lib/analysis/schema"
+import { type BatchItem, detectBatchFormat, parseBatchInput } from "@/lib/batch/parse"
+import { runBatch } from "@/lib/batch/run"
+import type { BatchResponse, BatchStreamEvent } from "@/lib/batch/types"
+import { DEFAULT_LANGUAGE, type Language, isLanguage } from "@/lib/i18n/languages"
+import { MAX_BATCH_BODY_BYTES, RateLimitError, enforceRateLimit, readLimitedBody } from "@/lib/rate-limit"
+
+interface BatchRequest {
+  items: BatchItem[]
+  outputLanguage: Language
+}
+
+const toLanguage = (value: unknown) => (isLanguage(value) ? value : DEFAULT_LANGUAGE)
+
+async function readBatchRequest(request: NextRequest): Promise<BatchRequest> {
+  const contentType = request.headers.get("content-type") ?? ""
+  const body = await readLimitedBody(request, MAX_BATCH_BODY_BYTES)
+
+  if (contentType.includes("multipart/form-data")) {
+    const form = await body.formData()
+    const file = form.get("file")
+    if (!(file instanceof File)) {
+      throw new AnalysisError("invalid_request", 'Upload a CSV or JSONL file in the "file" field')
+    }
+    return {
+      items: parseBatchInput(await file.text(), detectBatchFormat(file.type, file.name)),
+      outputLanguage: toLanguage(form.get("outputLanguage")),
+    }
+  }
+
+  const format = detectBatchFormat(contentType)
+  const text = await body.text()
+  const items = parseBatchInput(text, format)
+  // A JSON body may name the explanation language next to its items; CSV and JSONL bodies cannot
+  const outputLanguage = format === "json" ? JSON.parse(text).outputLanguage : undefined
+  return { items, outputLanguage: toLanguage(outputLanguage) }
+}
+
+function streamBatch({ items, outputLanguage }: BatchRequest, signal: AbortSignal, headers: Record<string, string>) {
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream({
+    async start(controller) {
+      // Once the client disconnects the stream is gone; writing to it would throw
+      const send = (event: BatchStreamEvent) => {
+        if (!signal.aborted) controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`))
+      }
+
+      send({ type: "progress", completed: 0, failed: 0, total: items.length })
+      const results = await runBatch(items, {
+        signal,
+        outputLanguage,
+        onItem: (item, progress) => {
+          send({ type: "item", item })
+          send({ type: "progress", ...progress })
+        },
+      })
+      const failed = results.filter((item) => item.status === "error").length
+      send({ type: "done", completed: results.length, failed, total: items.length })
+      if (!signal.aborted) controller.close()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      ...headers,
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache",
+    },
+  })
+}
+
+export async function POST(request: NextRequest) {
+  let headers: Record<string, string> = {}
+  try {
+    const batch = await readBatchRequest(request)
+    const { items, outputLanguage } = batch
+    // One request against the burst limit, one analysis per item against the daily quota
+    headers = await enforceRateLimit(request, { analyses: items.length })
+
+    if (request.headers.get("accept")?.includes("application/x-ndjson")) {
+      return streamBatch(batch, request.signal, headers)
+    }
+
+    const results = await runBatch(items, { signal: request.signal, outputLanguage })
+    const failed = results.filter((item) => item.status === "error").length
+
+    return NextResponse.json<BatchResponse>(
+      {
+        results,
+        progress: { completed: results.length, failed, total: items.length },
+      },
+      { headers },
+    )
+  } catch (error) {
+    if (!(error instanceof RateLimitError)) console.error("Batch analysis error:", error)
+
+    if (error instanceof AnalysisError) {
+      return NextResponse.json<AnalysisErrorResponse>(
+        { error: error.message, code: error.code },
+        { status: error.status, headers: error instanceof RateLimitError ? error.headers : headers },
+      )
+    }
+
+    return NextResponse.json<AnalysisErrorResponse>(
+      {
+        error: "Batch analysis temporarily unavailable. Please try again.",
+        code: "provider_error",
+      },
+      { status: 500 },
+    )
+  }
+}
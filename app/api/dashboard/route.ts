@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { AnalysisError, toErrorResponse } from "@/lib/analysis/errors"
+import type { AnalysisErrorResponse } from "@/lib/analysis/schema"
+import { type DashboardData, checkDashboardRange, getDashboard } from "@/lib/dashboard"
+import { RateLimitError, enforceRateLimit } from "@/lib/rate-limit"
+import { parseListFilters } from "@/lib/store"
+
+// Aggregates over stored analyses for /dashboard; ?from=, ?to= and ?classification= filter what is counted.
+// Public like the permalinks it counts, so it needs no admin token; it returns counts, never submitted text.
+// Ranges are capped at MAX_RANGE_DAYS so the timeline stays small
+export async function GET(request: Request) {
+  let headers: Record<string, string> = {}
+  try {
+    // Each request scans every stored analysis, so it takes from the caller's burst limit but not their quota
+    headers = await enforceRateLimit(request, { analyses: 0 })
+    const filters = parseListFilters(new URL(request.url).searchParams)
+    checkDashboardRange(filters)
+    return NextResponse.json<DashboardData>(await getDashboard(filters), { headers })
+  } catch (error) {
+    if (!(error instanceof AnalysisError)) console.error("Dashboard error:", error)
+    const { body, status } = toErrorResponse(error)
+    return NextResponse.json<AnalysisErrorResponse>(body, {
+      status,
+      headers: error instanceof RateLimitError ? error.headers : headers,
+    })
+  }
+}
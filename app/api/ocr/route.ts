@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { AnalysisError } from "@/lib/analysis/errors"
+import type { AnalysisErrorResponse } from "@/lib/analysis/schema"
+import { type ImageExtraction, extractImage, getMaxImageBytes } from "@/lib/image"
+import { RateLimitError, enforceRateLimit, readLimitedBody } from "@/lib/rate-limit"
+
+// Room for the multipart boundaries and part headers around the image
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024
+
+// Multipart upload with an `image` field; returns the recognized text for the user to review before analysis
+export async function POST(request: Request) {
+  let headers: Record<string, string> = {}
+  try {
+    const body = await readLimitedBody(request, getMaxImageBytes() + MULTIPART_OVERHEAD_BYTES)
+    headers = await enforceRateLimit(request)
+    const form = await body.formData().catch(() => undefined)
+    const image = form?.get("image")
+    if (!(image instanceof Blob)) {
+      throw new AnalysisError("invalid_request", "An image file is required")
+    }
+
+    const extraction = await extractImage(new Uint8Array(await image.arrayBuffer()))
+    return NextResponse.json<ImageExtraction>(extraction, { headers })
+  } catch (error) {
+    if (error instanceof AnalysisError) {
+      return NextResponse.json<AnalysisErrorResponse>(
+        { error: error.message, code: error.code },
+        { status: error.status, headers: error instanceof RateLimitError ? error.headers : headers },
+      )
+    }
+    console.error("OCR error:", error)
+    return NextResponse.json<AnalysisErrorResponse>(
+      { error: "Text could not be recognized in this image", code: "ocr_failed" },
+      { status: 502, headers },
+    )
+  }
+}
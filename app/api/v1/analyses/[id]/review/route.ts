@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server"
+import type { z } from "zod"
+import { AnalysisError } from "@/lib/analysis/errors"
+import { apiErrorResponse, parseJsonBody, type reviewResponseSchema } from "@/lib/api/v1"
+import { authenticateApiKey } from "@/lib/api-keys"
+import { type Review, getReview, reviewRequestSchema, submitReview } from "@/lib/review"
+import { getAnalysisStore } from "@/lib/store"
+
+type Params = { params: Promise<{ id: string }> }
+
+async function getAnalysis(params: Params["params"]) {
+  const stored = await getAnalysisStore().get((await params).id)
+  if (!stored) throw new AnalysisError("not_found", "Analysis not found")
+  return stored
+}
+
+export async function GET(request: Request, { params }: Params) {
+  try {
+    await authenticateApiKey(request, "review")
+    const stored = await getAnalysis(params)
+    return NextResponse.json<z.infer<typeof reviewResponseSchema>>(await getReview(stored.id))
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// Records a new verdict; the previous one stays in the history
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const apiKey = await authenticateApiKey(request, "review")
+    const stored = await getAnalysis(params)
+    const body = await parseJsonBody(request, reviewRequestSchema)
+    const review = await submitReview(stored, body, { keyId: apiKey.id, name: apiKey.name })
+    return NextResponse.json<{ review: Review }>({ review })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { AnalysisError } from "@/lib/analysis/errors"
+import { apiErrorResponse } from "@/lib/api/v1"
+import { authenticateApiKey } from "@/lib/api-keys"
+import { type StoredAnalysis, getAnalysisStore } from "@/lib/store"
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await authenticateApiKey(request, "read")
+    const { id } = await params
+    const stored = await getAnalysisStore().get(id)
+    if (!stored) throw new AnalysisError("not_found", "Analysis not found")
+
+    return NextResponse.json<StoredAnalysis>({ ...stored, result: { ...stored.result, id: stored.id } })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { analyzeInput, storedInput } from "@/lib/analysis/analyze"
+import { countModelRuns, resolveEnsemble } from "@/lib/analysis/ensemble"
+import type { AnalysisResult } from "@/lib/analysis/schema"
+import { analyzeRequestSchema, apiErrorResponse, parseJsonBody } from "@/lib/api/v1"
+import { authenticateApiKey } from "@/lib/api-keys"
+import { DEFAULT_LANGUAGE } from "@/lib/i18n"
+import { MAX_ANALYSIS_BODY_BYTES, enforceRateLimit, readLimitedBody } from "@/lib/rate-limit"
+import { saveAnalysis } from "@/lib/store"
+import { dispatchWebhooks } from "@/lib/webhooks"
+
+export async function POST(request: Request) {
+  let headers: Record<string, string> = {}
+  try {
+    const apiKey = await authenticateApiKey(request, "analyze")
+    const { content, url, commentLimit, outputLanguage, mode, force } = await parseJsonBody(
+      await readLimitedBody(request, MAX_ANALYSIS_BODY_BYTES),
+      analyzeRequestSchema,
+    )
+    const ensemble = resolveEnsemble(mode)
+    headers = await enforceRateLimit(request, {
+      client: { kind: "key", id: apiKey.id },
+      analyses: countModelRuns(ensemble),
+    })
+
+    const input = { content, url, commentLimit }
+    const result = await analyzeInput(input, {
+      signal: request.signal,
+      force,
+      ensemble,
+      outputLanguage: outputLanguage ?? DEFAULT_LANGUAGE,
+    })
+    const saved = await saveAnalysis(storedInput(input), result)
+    dispatchWebhooks({ input: storedInput(input), result: saved })
+    return NextResponse.json<AnalysisResult>(saved, { headers })
+  } catch (error) {
+    return apiErrorResponse(error, headers)
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { apiErrorResponse, batchRequestSchema, parseJsonBody } from "@/lib/api/v1"
+import { authenticateApiKey } from "@/lib/api-keys"
+import { runBatch } from "@/lib/batch/run"
+import type { BatchResponse } from "@/lib/batch/types"
+import { MAX_BATCH_BODY_BYTES, enforceRateLimit, readLimitedBody } from "@/lib/rate-limit"
+
+export async function POST(request: Request) {
+  let headers: Record<string, string> = {}
+  try {
+    const apiKey = await authenticateApiKey(request, "batch")
+    const { items } = await parseJsonBody(await readLimitedBody(request, MAX_BATCH_BODY_BYTES), batchRequestSchema)
+    headers = await enforceRateLimit(request, { client: { kind: "key", id: apiKey.id }, analyses: items.length })
+
+    const results = await runBatch(items, { signal: request.signal })
+    const failed = results.filter((item) => item.status === "error").length
+    return NextResponse.json<BatchResponse>(
+      { results, progress: { completed: results.length, failed, total: items.length } },
+      { headers },
+    )
+  } catch (error) {
+    return apiErrorResponse(error, headers)
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server"
+import { buildOpenApiDocument } from "@/lib/api/openapi"
+import { getBaseUrl } from "@/lib/base-url"
+
+export function GET(request: Request) {
+  return NextResponse.json(buildOpenApiDocument(getBaseUrl(request.headers)))
+}
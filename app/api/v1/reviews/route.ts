@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import type { z } from "zod"
+import { AnalysisError } from "@/lib/analysis/errors"
+import { apiErrorResponse, type reviewQueueSchema } from "@/lib/api/v1"
+import { authenticateApiKey } from "@/lib/api-keys"
+import { REVIEW_STATES, type ReviewState, listReviewQueue } from "@/lib/review"
+
+// The review queue: ?state=pending (or escalated, ...) and ?limit=, newest analyses first
+export async function GET(request: Request) {
+  try {
+    await authenticateApiKey(request, "review")
+    const searchParams = new URL(request.url).searchParams
+    const state = searchParams.get("state") ?? undefined
+    if (state && !(REVIEW_STATES as readonly string[]).includes(state)) {
+      throw new AnalysisError("invalid_request", `state must be one of ${REVIEW_STATES.join(", ")}`)
+    }
+    const limit = Math.min(Math.max(Number.parseInt(searchParams.get("limit") ?? "", 10) || 50, 1), 500)
+
+    const items = await listReviewQueue({ state: state as ReviewState | undefined, limit })
+    return NextResponse.json<z.infer<typeof reviewQueueSchema>>({
+      items: items.map(({ analysis, review }) => ({
+        analysis: { ...analysis, result: { ...analysis.result, id: analysis.id } },
+        review,
+      })),
+    })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,250 @@
+"use client"
+
+import { type ReactNode, useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, BarChart3, ExternalLink, Loader2 } from "lucide-react"
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { LanguageSelect, useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { CLASSIFICATIONS, type Classification } from "@/lib/analysis/schema"
+import { type DashboardData, MAX_RANGE_DAYS, type SourceCount } from "@/lib/dashboard/types"
+
+const CLASSIFICATION_COLORS: Record<Classification, string> = {
+  Disinformation: "#ef4444",
+  "Not Disinformation": "#22c55e",
+  "NSFW Content": "#f97316",
+  Inconclusive: "#64748b",
+}
+
+const AXIS_PROPS = { stroke: "#64748b", fontSize: 12, tickLine: false }
+
+const TOOLTIP_PROPS = {
+  contentStyle: { background: "#0f172a", border: "1px solid #334155", borderRadius: 8, fontSize: 12 },
+  cursor: { fill: "rgba(148, 163, 184, 0.1)" },
+}
+
+const toDateInput = (time: number) => new Date(time).toISOString().slice(0, 10)
+
+function Section({ title, children, className }: { title: string; children: ReactNode; className?: string }) {
+  return (
+    <Card className={`glow-border bg-card/50 backdrop-blur-sm p-4 space-y-3 ${className ?? ""}`}>
+      <h2 className="text-sm font-semibold text-foreground">{title}</h2>
+      {children}
+    </Card>
+  )
+}
+
+function SourceList({ sources }: { sources: SourceCount[] }) {
+  const t = useI18n().messages.dashboard
+  return (
+    <ul className="space-y-1 text-sm">
+      {sources.map((source) => (
+        <li key={source.name} className="flex items-center justify-between gap-2">
+          <span className="truncate text-foreground">{source.name}</span>
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            {t.disinformationShare(source.count, Math.round((source.disinformation / source.count) * 100))}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default function Dashboard() {
+  const { messages } = useI18n()
+  const t = messages.dashboard
+  const [from, setFrom] = useState(() => toDateInput(Date.now() - 29 * 24 * 60 * 60 * 1000))
+  const [to, setTo] = useState(() => toDateInput(Date.now()))
+  const [classification, setClassification] = useState<Classification | "">("")
+  const [data, setData] = useState<DashboardData | null>(null)
+  const [error, setError] = useState("")
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const params = new URLSearchParams({ from, to, ...(classification && { classification }) })
+    setLoading(true)
+    setError("")
+
+    fetch(`/api/dashboard?${params}`, { signal: controller.signal })
+      .then(async (response) => {
+        if (!response.ok) throw new Error(`Dashboard request failed with ${response.status}`)
+        setData((await response.json()) as DashboardData)
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setError(t.failed)
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+    return () => controller.abort()
+  }, [from, to, classification, t.failed])
+
+  const verdicts = messages.result.verdicts
+  const shown = classification ? [classification] : CLASSIFICATIONS
+  // Recharts needs the bars as direct children of each chart, so they are built once and placed in both
+  const verdictBars = shown.map((value) => (
+    <Bar key={value} dataKey={value} name={verdicts[value]} stackId="verdicts" fill={CLASSIFICATION_COLORS[value]} />
+  ))
+  const confidence = data?.confidence.map((bucket) => ({ ...bucket, range: `${bucket.min}–${bucket.min + 9}` }))
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center p-4 dark">
+      <div className="w-full max-w-5xl space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <BarChart3 className="w-6 h-6 text-primary" />
+            <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+              {t.title}
+            </h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <LanguageSelect />
+            <Button asChild variant="outline" size="sm" className="border-border hover:border-primary/50">
+              <Link href="/">
+                <ArrowLeft className="w-4 h-4 me-2 rtl:rotate-180" />
+                {t.back}
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3 text-sm">
+          <label className="space-y-1">
+            <span className="block text-xs text-muted-foreground">{t.from}</span>
+            <input
+              type="date"
+              value={from}
+              min={toDateInput(Date.parse(to) - (MAX_RANGE_DAYS - 1) * 24 * 60 * 60 * 1000)}
+              max={to}
+              onChange={(event) => event.target.value && setFrom(event.target.value)}
+              className="bg-input border border-border rounded-md px-2 py-1 text-foreground"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-xs text-muted-foreground">{t.to}</span>
+            <input
+              type="date"
+              value={to}
+              min={from}
+              max={toDateInput(Date.parse(from) + (MAX_RANGE_DAYS - 1) * 24 * 60 * 60 * 1000)}
+              onChange={(event) => event.target.value && setTo(event.target.value)}
+              className="bg-input border border-border rounded-md px-2 py-1 text-foreground"
+            />
+          </label>
+          <select
+            aria-label={t.allVerdicts}
+            value={classification}
+            onChange={(event) => setClassification(event.target.value as Classification | "")}
+            className="bg-input border border-border rounded-md px-2 py-1 text-foreground"
+          >
+            <option value="">{t.allVerdicts}</option>
+            {CLASSIFICATIONS.map((value) => (
+              <option key={value} value={value}>
+                {verdicts[value]}
+              </option>
+            ))}
+          </select>
+          {loading && <Loader2 className="w-4 h-4 mb-1.5 text-primary animate-spin" aria-label={t.loading} />}
+          {data && !loading && <span className="mb-1 text-muted-foreground">{t.total(data.total)}</span>}
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {data && data.total === 0 && !loading && <p className="text-sm text-muted-foreground">{t.empty}</p>}
+
+        {data && data.total > 0 && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <Section title={t.timeline(data.interval)} className="md:col-span-2">
+              <div className="flex flex-wrap gap-2 text-xs">
+                {shown.map((value) => (
+                  <span
+                    key={value}
+                    className="rounded-md border border-border/50 px-2 py-1"
+                    style={{ color: CLASSIFICATION_COLORS[value] }}
+                  >
+                    {verdicts[value]}: {data.classifications[value]}
+                  </span>
+                ))}
+              </div>
+              <ResponsiveContainer width="100%" height={260}>
+                <BarChart data={data.timeline}>
+                  <CartesianGrid stroke="#1e293b" vertical={false} />
+                  <XAxis dataKey="date" {...AXIS_PROPS} />
+                  <YAxis allowDecimals={false} {...AXIS_PROPS} />
+                  <Tooltip {...TOOLTIP_PROPS} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  {verdictBars}
+                </BarChart>
+              </ResponsiveContainer>
+            </Section>
+
+            <Section title={t.confidence}>
+              <ResponsiveContainer width="100%" height={240}>
+                <BarChart data={confidence}>
+                  <CartesianGrid stroke="#1e293b" vertical={false} />
+                  <XAxis dataKey="range" {...AXIS_PROPS} />
+                  <YAxis allowDecimals={false} {...AXIS_PROPS} />
+                  <Tooltip {...TOOLTIP_PROPS} />
+                  {verdictBars}
+                </BarChart>
+              </ResponsiveContainer>
+            </Section>
+
+            <Section title={t.keyTerms}>
+              <ResponsiveContainer width="100%" height={Math.max(120, data.keyTerms.length * 24)}>
+                <BarChart data={data.keyTerms} layout="vertical" margin={{ left: 8 }}>
+                  <XAxis type="number" allowDecimals={false} {...AXIS_PROPS} />
+                  <YAxis type="category" dataKey="term" width={120} {...AXIS_PROPS} />
+                  <Tooltip {...TOOLTIP_PROPS} />
+                  <Bar dataKey="count" fill="#3b82f6" radius={[0, 4, 4, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </Section>
+
+            {data.narratives.length > 0 && (
+              <Section title={t.narratives} className="md:col-span-2">
+                <ul className="space-y-2">
+                  {data.narratives.map((narrative) => (
+                    <li key={narrative.url} className="flex items-start justify-between gap-3 text-sm">
+                      <a
+                        href={narrative.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-start gap-2 text-foreground hover:text-primary"
+                      >
+                        <ExternalLink className="w-3 h-3 mt-1 flex-shrink-0" />
+                        <span dir="auto">
+                          {narrative.claim}
+                          <span className="text-xs text-muted-foreground">
+                            {" · "}
+                            {[narrative.publisher, narrative.rating].filter(Boolean).join(" · ")}
+                          </span>
+                        </span>
+                      </a>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {t.matches(narrative.count)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </Section>
+            )}
+
+            {data.domains.length > 0 && (
+              <Section title={t.domains}>
+                <SourceList sources={data.domains} />
+              </Section>
+            )}
+
+            {data.subreddits.length > 0 && (
+              <Section title={t.subreddits}>
+                <SourceList sources={data.subreddits} />
+              </Section>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
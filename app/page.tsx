@@ -1,26 +1,54 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
+import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Textarea } from "@/components/ui/textarea"
 import { Badge } from "@/components/ui/badge"
-import { Progress } from "@/components/ui/progress"
-import { Copy, Shield, AlertTriangle, Loader2, History, ExternalLink, Eye } from "lucide-react"
+import { BulkAnalysis } from "@/components/bulk-analysis"
+import { AnalysisResultView } from "@/components/analysis-result"
+import { LanguageSelect, useI18n } from "@/components/i18n-provider"
+import { ImagePreview, ImageUploadButton, useImageOcr } from "@/components/image-input"
+import {
+  Copy,
+  Shield,
+  AlertTriangle,
+  Loader2,
+  History,
+  ExternalLink,
+  Layers,
+  Link2,
+  RefreshCw,
+  X,
+  BarChart3,
+} from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
-
-interface AnalysisResult {
-  classification: "Disinformation" | "Not Disinformation" | "NSFW Content" | "Misleading"
-  confidence: number
-  explanation: string
-  keyTerms?: string[]
-  verificationSources?: string[]
-  recommendations?: string[]
-  timestamp: string
+import type {
+  AnalysisErrorResponse,
+  AnalysisResult,
+  AnalysisStage,
+  AnalysisStreamEvent,
+  PartialAnalysis,
+} from "@/lib/analysis/schema"
+import { readNdjson } from "@/lib/ndjson"
+import type { PublicReview } from "@/lib/review/types"
+
+// Errors whose message tells the user what to change; anything else gets the generic message
+const USER_FACING_CODES = ["invalid_request", "invalid_url", "fetch_failed", "rate_limited", "content_too_large"]
+
+class AnalysisRequestError extends Error {
+  readonly userFacing: boolean
+
+  constructor({ error, code }: AnalysisErrorResponse) {
+    super(error)
+    this.userFacing = USER_FACING_CODES.includes(code)
+  }
 }
 
 interface HistoryItem extends AnalysisResult {
-  id: string
+  // Local list key; `id` is the server-side permalink id when the analysis was stored
+  key: string
   content: string
 }
 
@@ -28,10 +56,28 @@ export default function DisinformationHunter() {
   const [input, setInput] = useState("")
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [result, setResult] = useState<AnalysisResult | null>(null)
+  const [partial, setPartial] = useState<PartialAnalysis | null>(null)
+  const [review, setReview] = useState<PublicReview | null>(null)
+  const [stage, setStage] = useState<AnalysisStage | null>(null)
+  const [analyzedContent, setAnalyzedContent] = useState("")
   const [error, setError] = useState("")
   const [history, setHistory] = useState<HistoryItem[]>([])
   const [showHistory, setShowHistory] = useState(false)
+  const [mode, setMode] = useState<"single" | "bulk">("single")
+  const [commentLimit, setCommentLimit] = useState(10)
+  const abortRef = useRef<AbortController | null>(null)
   const { toast } = useToast()
+  const { language, messages } = useI18n()
+  const t = messages.app
+  const ocr = useImageOcr({
+    onText: (text) => {
+      setInput(text)
+      setError("")
+    },
+    onError: setError,
+  })
+  const displayed: Partial<AnalysisResult> | null = result ?? partial
+  const isRedditThread = /^https?:\/\/([\w-]+\.)?reddit\.com\/r\/[^/]+\/comments\//.test(input.trim())
 
   // Load history from localStorage on mount
   useEffect(() => {
@@ -41,11 +87,24 @@ export default function DisinformationHunter() {
     }
   }, [])
 
+  // Look up the human verdict of stored results; reopened history items may have been reviewed since
+  useEffect(() => {
+    setReview(null)
+    if (!result?.id) return
+
+    const controller = new AbortController()
+    fetch(`/api/analyses/${result.id}/review`, { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((body: { review: PublicReview } | null) => setReview(body?.review ?? null))
+      .catch(() => {})
+    return () => controller.abort()
+  }, [result?.id])
+
   // Save history to localStorage
   const saveToHistory = (newResult: AnalysisResult, content: string) => {
     const historyItem: HistoryItem = {
       ...newResult,
-      id: Date.now().toString(),
+      key: Date.now().toString(),
       content: content.substring(0, 100) + (content.length > 100 ? "..." : ""),
     }
 
@@ -54,108 +113,116 @@ export default function DisinformationHunter() {
     localStorage.setItem("disinformation-history", JSON.stringify(newHistory))
   }
 
-  const extractRedditContent = async (url: string) => {
-    try {
-      // Simple Reddit URL detection and conversion to JSON API
-      if (url.includes("reddit.com/r/")) {
-        const jsonUrl = url.replace(/\/$/, "") + ".json"
-        const response = await fetch(`https://api.allorigins.win/get?url=${encodeURIComponent(jsonUrl)}`)
-        const data = await response.json()
-        const redditData = JSON.parse(data.contents)
-
-        const post = redditData[0]?.data?.children?.[0]?.data
-        if (post) {
-          return `${post.title}\n\n${post.selftext || ""}`
-        }
-      }
-    } catch (error) {
-      console.log("Reddit extraction failed, using URL as-is")
-    }
-    return url
-  }
-
-  const isValidRedditUrl = (url: string): boolean => {
-    const redditPattern = /^https?:\/\/(www\.)?(reddit\.com\/r\/|old\.reddit\.com\/r\/)/
-    return redditPattern.test(url)
-  }
-
-  const analyzeContent = async () => {
+  const analyzeContent = async ({ force = false } = {}) => {
     if (!input.trim()) {
-      setError("Please enter some content to analyze")
+      setError(t.emptyInput)
       return
     }
 
-    const isUrl = input.trim().startsWith("http")
-    if (isUrl && !isValidRedditUrl(input.trim())) {
-      setError("🚫 Only Reddit links are supported. Please paste a Reddit post URL or enter text directly.")
-      return
-    }
+    const isUrl = /^https?:\/\/\S+$/.test(input.trim())
 
+    const controller = new AbortController()
+    abortRef.current = controller
     setIsAnalyzing(true)
     setError("")
     setResult(null)
+    setPartial(null)
+    setStage(null)
 
     try {
-      let contentToAnalyze = input
-      if (input.includes("reddit.com/r/")) {
-        contentToAnalyze = await extractRedditContent(input)
-        setInput(contentToAnalyze) // Update the textarea with extracted content
-      }
+      setAnalyzedContent(isUrl ? "" : input)
 
       const response = await fetch("/api/analyze", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          Accept: "application/x-ndjson",
         },
-        body: JSON.stringify({ content: contentToAnalyze }),
+        body: JSON.stringify({
+          ...(isUrl ? { url: input.trim(), commentLimit } : { content: input }),
+          force,
+          outputLanguage: language,
+        }),
+        signal: controller.signal,
       })
 
       if (!response.ok) {
-        throw new Error("Analysis failed")
+        const failure: AnalysisErrorResponse = await response.json()
+        throw new AnalysisRequestError(failure)
       }
 
-      const analysisResult = await response.json()
-
-      if (analysisResult.error) {
-        throw new Error(analysisResult.error)
+      for await (const event of readNdjson<AnalysisStreamEvent>(response)) {
+        if (event.type === "stage") {
+          setStage(event.stage)
+          // A repair attempt restarts classification, so drop fields from the rejected reply
+          if (event.stage === "classifying") setPartial(null)
+        } else if (event.type === "partial") {
+          setPartial(event.fields)
+        } else if (event.type === "result") {
+          setResult(event.result)
+          if (event.result.source) setAnalyzedContent(event.result.source.text)
+          saveToHistory(event.result, input)
+        } else {
+          throw new AnalysisRequestError(event)
+        }
       }
-
-      setResult(analysisResult)
-      saveToHistory(analysisResult, contentToAnalyze)
     } catch (err) {
-      setError("⚠️ Something went wrong. Try again with different text or later.")
-      console.error("Analysis error:", err)
+      if (controller.signal.aborted) {
+        setPartial(null)
+        toast({ title: t.cancelled })
+      } else if (err instanceof AnalysisRequestError && err.userFacing) {
+        setError(`🚫 ${err.message}`)
+      } else {
+        setError(t.genericError)
+        console.error("Analysis error:", err)
+      }
     } finally {
+      abortRef.current = null
       setIsAnalyzing(false)
+      setStage(null)
     }
   }
 
   const copyResult = () => {
     if (result) {
-      const text = `Analysis: ${result.classification} (${result.confidence}% confidence)\nExplanation: ${result.explanation}`
-      navigator.clipboard.writeText(text)
+      const classification = messages.result.verdicts[result.classification]
+      navigator.clipboard.writeText(t.copyText(classification, result.confidence, result.explanation))
       toast({
-        title: "Copied to clipboard",
-        description: "Analysis result has been copied to your clipboard.",
+        title: t.copiedTitle,
+        description: t.copiedDescription,
+      })
+    }
+  }
+
+  const shareResult = () => {
+    if (result?.id) {
+      navigator.clipboard.writeText(`${window.location.origin}/analysis/${result.id}`)
+      toast({
+        title: t.linkCopiedTitle,
+        description: t.linkCopiedDescription,
       })
     }
   }
 
   const resetAnalysis = () => {
+    ocr.clear()
     setInput("")
     setResult(null)
+    setPartial(null)
+    setAnalyzedContent("")
     setError("")
   }
 
   const loadFromHistory = (item: HistoryItem) => {
     setInput(item.content)
     setResult(item)
+    setAnalyzedContent(item.source?.text ?? item.content)
     setShowHistory(false)
   }
 
   return (
     <div className="min-h-screen bg-background flex flex-col items-center justify-center p-4 dark">
-      <div className="w-full max-w-2xl space-y-8">
+      <div className={`w-full ${mode === "bulk" ? "max-w-4xl" : "max-w-2xl"} space-y-8`}>
         {/* Header */}
         <div className="text-center space-y-4">
           <div className="flex items-center justify-center gap-3 mb-4">
@@ -164,9 +231,7 @@ export default function DisinformationHunter() {
               Disinformation Hunter 🕵️
             </h1>
           </div>
-          <p className="text-lg text-muted-foreground max-w-lg mx-auto">
-            🔍 Paste a Reddit link or text below for advanced disinformation detection with real verification sources.
-          </p>
+          <p className="text-lg text-muted-foreground max-w-lg mx-auto">{t.tagline}</p>
 
           <div className="flex items-center justify-center gap-4 mt-4">
             <Button
@@ -175,19 +240,35 @@ export default function DisinformationHunter() {
               size="sm"
               className="border-border hover:border-primary/50"
             >
-              <History className="w-4 h-4 mr-2" />
-              History ({history.length})
+              <History className="w-4 h-4 me-2" />
+              {t.history(history.length)}
+            </Button>
+            <Button
+              onClick={() => setMode(mode === "single" ? "bulk" : "single")}
+              variant="outline"
+              size="sm"
+              className="border-border hover:border-primary/50"
+            >
+              <Layers className="w-4 h-4 me-2" />
+              {mode === "single" ? t.bulkMode : t.singleMode}
+            </Button>
+            <Button asChild variant="outline" size="sm" className="border-border hover:border-primary/50">
+              <Link href="/dashboard">
+                <BarChart3 className="w-4 h-4 me-2" />
+                {messages.dashboard.link}
+              </Link>
             </Button>
+            <LanguageSelect disabled={isAnalyzing} />
           </div>
         </div>
 
         {showHistory && history.length > 0 && (
           <Card className="glow-border bg-card/50 backdrop-blur-sm p-4">
-            <h3 className="text-lg font-semibold mb-3 text-foreground">Recent Analyses</h3>
+            <h3 className="text-lg font-semibold mb-3 text-foreground">{t.recentAnalyses}</h3>
             <div className="space-y-2 max-h-60 overflow-y-auto">
               {history.map((item) => (
                 <div
-                  key={item.id}
+                  key={item.key ?? item.id}
                   onClick={() => loadFromHistory(item)}
                   className="p-3 bg-muted/20 rounded-lg border border-border/50 cursor-pointer hover:border-primary/50 transition-colors"
                 >
@@ -198,221 +279,209 @@ export default function DisinformationHunter() {
                           ? "bg-red-500/20 text-red-400 border-red-500/30"
                           : item.classification === "NSFW Content"
                             ? "bg-orange-500/20 text-orange-400 border-orange-500/30"
-                            : item.classification === "Misleading"
-                              ? "bg-yellow-500/20 text-yellow-400 border-yellow-500/30"
+                            : item.classification === "Inconclusive"
+                              ? "bg-muted/40 text-muted-foreground border-border"
                               : "bg-green-500/20 text-green-400 border-green-500/30"
                       } text-xs`}
                     >
-                      {item.classification} ({item.confidence}%)
+                      {messages.result.verdicts[item.classification]} ({item.confidence}%)
                     </Badge>
                     <span className="text-xs text-muted-foreground">
                       {new Date(item.timestamp).toLocaleDateString()}
                     </span>
                   </div>
-                  <p className="text-sm text-foreground truncate">{item.content}</p>
+                  <p dir="auto" className="text-sm text-foreground truncate">
+                    {item.content}
+                  </p>
                 </div>
               ))}
             </div>
           </Card>
         )}
 
+        {mode === "bulk" && (
+          <Card className="glow-border bg-card/50 backdrop-blur-sm p-6">
+            <BulkAnalysis />
+          </Card>
+        )}
+
         {/* Main Analysis Card */}
-        <Card className="glow-border bg-card/50 backdrop-blur-sm p-6 space-y-6">
-          <div className="space-y-4">
-            <Textarea
-              placeholder="📝 Paste Reddit link (auto-extracts content) or text..."
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              className="min-h-32 bg-input border-border focus:border-primary focus:ring-2 focus:ring-primary/20 transition-all duration-300 resize-none"
-              disabled={isAnalyzing}
-            />
-
-            <div className="flex gap-3">
-              <Button
-                onClick={analyzeContent}
-                disabled={isAnalyzing || !input.trim()}
-                className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground font-semibold py-3 transition-all duration-300 hover:shadow-lg hover:shadow-primary/25"
+        {mode === "single" && (
+          <Card className="glow-border bg-card/50 backdrop-blur-sm p-6 space-y-6">
+            <div className="space-y-4">
+              <div
+                {...ocr.dropTarget}
+                className={`grid gap-4 ${ocr.image ? "md:grid-cols-2" : ""} ${
+                  ocr.isDragging ? "rounded-lg ring-2 ring-primary/50" : ""
+                }`}
               >
-                {isAnalyzing ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />🔍 Analyzing Content...
-                  </>
-                ) : (
-                  "🔍 Analyze Content"
-                )}
-              </Button>
-
-              {(result || error) && (
-                <Button
-                  onClick={resetAnalysis}
-                  variant="outline"
-                  className="border-border hover:border-primary/50 hover:bg-primary/10 bg-transparent"
-                >
-                  Reset
-                </Button>
-              )}
-            </div>
-          </div>
-
-          {/* Loading State */}
-          {isAnalyzing && (
-            <div className="flex items-center justify-center py-8">
-              <div className="flex items-center gap-3">
-                <div className="flex gap-1">
-                  <div className="w-2 h-2 bg-primary rounded-full animate-pulse"></div>
-                  <div
-                    className="w-2 h-2 bg-primary rounded-full animate-pulse"
-                    style={{ animationDelay: "0.2s" }}
-                  ></div>
-                  <div
-                    className="w-2 h-2 bg-primary rounded-full animate-pulse"
-                    style={{ animationDelay: "0.4s" }}
-                  ></div>
+                {ocr.image && <ImagePreview image={ocr.image} onRemove={ocr.clear} />}
+                <div className="space-y-2">
+                  {ocr.image && (
+                    <p className="text-xs text-muted-foreground">
+                      {messages.image.review}
+                    </p>
+                  )}
+                  <Textarea
+                    dir="auto"
+                    placeholder={t.placeholder}
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    onPaste={ocr.onPaste}
+                    className="min-h-32 bg-input border-border focus:border-primary focus:ring-2 focus:ring-primary/20 transition-all duration-300 resize-none"
+                    disabled={isAnalyzing || ocr.isRecognizing}
+                  />
                 </div>
-                <span className="text-primary font-medium">🧠 Running detection engine...</span>
               </div>
-            </div>
-          )}
 
-          {/* Error State */}
-          {error && (
-            <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4 flex items-center gap-3">
-              <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0" />
-              <p className="text-destructive">{error}</p>
-            </div>
-          )}
+              <div className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+                <span>{messages.image.hint}</span>
+                <ImageUploadButton
+                  onFile={ocr.recognize}
+                  disabled={isAnalyzing || ocr.isRecognizing}
+                  isRecognizing={ocr.isRecognizing}
+                />
+              </div>
 
-          {/* Results */}
-          {result && (
-            <div className="space-y-4 animate-in slide-in-from-bottom-4 duration-500">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  {result.classification === "Disinformation" ? (
-                    <>
-                      <AlertTriangle className="w-6 h-6 text-red-500" />
-                      <Badge className="bg-red-500/20 text-red-400 border-red-500/30 px-3 py-1 text-sm font-semibold">
-                        🚫 Disinformation
-                      </Badge>
-                    </>
-                  ) : result.classification === "NSFW Content" ? (
-                    <>
-                      <Eye className="w-6 h-6 text-orange-500" />
-                      <Badge className="bg-orange-500/20 text-orange-400 border-orange-500/30 px-3 py-1 text-sm font-semibold">
-                        🔞 NSFW Content
-                      </Badge>
-                    </>
-                  ) : result.classification === "Misleading" ? (
+              {isRedditThread && (
+                <label className="flex items-center justify-between gap-3 text-sm text-muted-foreground">
+                  {t.threadComments}
+                  <select
+                    value={commentLimit}
+                    onChange={(e) => setCommentLimit(Number(e.target.value))}
+                    disabled={isAnalyzing}
+                    className="bg-input border border-border rounded-md px-2 py-1 text-foreground"
+                  >
+                    {[0, 5, 10, 20].map((count) => (
+                      <option key={count} value={count}>
+                        {count === 0 ? t.commentsNone : t.commentsTop(count)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+
+              <div className="flex gap-3">
+                <Button
+                  onClick={() => analyzeContent()}
+                  disabled={isAnalyzing || !input.trim()}
+                  className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground font-semibold py-3 transition-all duration-300 hover:shadow-lg hover:shadow-primary/25"
+                >
+                  {isAnalyzing ? (
                     <>
-                      <AlertTriangle className="w-6 h-6 text-yellow-500" />
-                      <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30 px-3 py-1 text-sm font-semibold">
-                        ⚠️ Misleading
-                      </Badge>
+                      <Loader2 className="w-4 h-4 me-2 animate-spin" />
+                      {t.analyzing}
                     </>
                   ) : (
-                    <>
-                      <Shield className="w-6 h-6 text-green-400" />
-                      <Badge className="bg-green-500/20 text-green-400 border-green-500/30 px-3 py-1 text-sm font-semibold">
-                        ✅ Verified Safe
-                      </Badge>
-                    </>
+                    t.analyze
                   )}
-                </div>
-
-                <Button
-                  onClick={copyResult}
-                  variant="outline"
-                  size="sm"
-                  className="border-border hover:border-primary/50 hover:bg-primary/10 bg-transparent"
-                >
-                  <Copy className="w-4 h-4 mr-2" />
-                  Copy
                 </Button>
-              </div>
 
-              <div className="space-y-2">
-                <div className="flex items-center justify-between text-sm">
-                  <span className="text-muted-foreground">Confidence Score</span>
-                  <span className="font-semibold text-foreground">{result.confidence}%</span>
-                </div>
-                <Progress value={result.confidence} className="h-2" />
-              </div>
+                {isAnalyzing && (
+                  <Button
+                    onClick={() => abortRef.current?.abort()}
+                    variant="outline"
+                    className="border-border hover:border-primary/50 hover:bg-primary/10 bg-transparent"
+                  >
+                    <X className="w-4 h-4 me-2" />
+                    {t.cancel}
+                  </Button>
+                )}
 
-              <div className="bg-muted/20 rounded-lg p-4 border border-border/50">
-                <h4 className="text-sm font-semibold text-foreground mb-3">📋 Detection Results:</h4>
-                <div className="space-y-3">
-                  {result.explanation
-                    .split(/[.!?]+/)
-                    .filter((sentence) => sentence.trim().length > 10)
-                    .slice(0, 3) // Limit to 3 sentences max
-                    .map((sentence, index) => (
-                      <p key={index} className="text-foreground leading-relaxed text-sm">
-                        {sentence.trim()}.
-                      </p>
-                    ))}
-                </div>
+                {!isAnalyzing && (result || error) && (
+                  <Button
+                    onClick={resetAnalysis}
+                    variant="outline"
+                    className="border-border hover:border-primary/50 hover:bg-primary/10 bg-transparent"
+                  >
+                    {t.reset}
+                  </Button>
+                )}
               </div>
+            </div>
 
-              {result.verificationSources && result.verificationSources.length > 0 && (
-                <div className="bg-blue-500/10 rounded-lg p-4 border border-blue-500/20">
-                  <h4 className="text-sm font-semibold text-blue-400 mb-3 flex items-center gap-2">
-                    🔗 Verification Sources
-                  </h4>
-                  <div className="space-y-2">
-                    {result.verificationSources.map((source, index) => (
-                      <div key={index} className="flex items-center gap-2 text-sm">
-                        <ExternalLink className="w-3 h-3 text-blue-400" />
-                        <span className="text-blue-300">{source}</span>
-                      </div>
-                    ))}
-                  </div>
-                  <p className="text-xs text-blue-300/70 mt-2">
-                    💡 Cross-reference this content with these trusted fact-checking sources
-                  </p>
-                </div>
-              )}
-
-              {result.recommendations && result.recommendations.length > 0 && (
-                <div className="bg-green-500/10 rounded-lg p-4 border border-green-500/20">
-                  <h4 className="text-sm font-semibold text-green-400 mb-3 flex items-center gap-2">
-                    💡 Recommendations
-                  </h4>
-                  <ul className="space-y-1">
-                    {result.recommendations.map((rec, index) => (
-                      <li key={index} className="text-sm text-green-300 flex items-start gap-2">
-                        <span className="text-green-400 mt-0.5">•</span>
-                        {rec}
-                      </li>
-                    ))}
-                  </ul>
-                </div>
-              )}
-
-              {result.keyTerms && result.keyTerms.length > 0 && (
-                <div className="space-y-2">
-                  <h4 className="text-sm font-semibold text-foreground">Key Terms Analyzed:</h4>
-                  <div className="flex flex-wrap gap-2">
-                    {result.keyTerms.map((term, index) => (
-                      <Badge key={index} variant="outline" className="text-xs border-primary/30 text-primary">
-                        {term}
-                      </Badge>
-                    ))}
+            {/* Loading State */}
+            {isAnalyzing && (
+              <div className="flex items-center justify-center py-8">
+                <div className="flex items-center gap-3">
+                  <div className="flex gap-1">
+                    <div className="w-2 h-2 bg-primary rounded-full animate-pulse"></div>
+                    <div
+                      className="w-2 h-2 bg-primary rounded-full animate-pulse"
+                      style={{ animationDelay: "0.2s" }}
+                    ></div>
+                    <div
+                      className="w-2 h-2 bg-primary rounded-full animate-pulse"
+                      style={{ animationDelay: "0.4s" }}
+                    ></div>
                   </div>
+                  <span className="text-primary font-medium">{t.stages[stage ?? "extracting"]}</span>
                 </div>
-              )}
+              </div>
+            )}
 
-              <div className="text-xs text-muted-foreground text-center">
-                🕐 Analysis completed at {new Date(result.timestamp).toLocaleString()}
+            {/* Error State */}
+            {error && (
+              <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4 flex items-center gap-3">
+                <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0" />
+                <p className="text-destructive">{error}</p>
               </div>
-            </div>
-          )}
-        </Card>
+            )}
+
+            {/* Results */}
+            {displayed && (
+              <AnalysisResultView
+                result={displayed}
+                content={analyzedContent}
+                review={review ?? undefined}
+                actions={
+                  result && (
+                    <div className="flex gap-2">
+                      {result.cached && (
+                        <Button
+                          onClick={() => analyzeContent({ force: true })}
+                          variant="outline"
+                          size="sm"
+                          className="border-border hover:border-primary/50 hover:bg-primary/10 bg-transparent"
+                        >
+                          <RefreshCw className="w-4 h-4 me-2" />
+                          {t.reanalyze}
+                        </Button>
+                      )}
+                      {result.id && (
+                        <Button
+                          onClick={shareResult}
+                          variant="outline"
+                          size="sm"
+                          className="border-border hover:border-primary/50 hover:bg-primary/10 bg-transparent"
+                        >
+                          <Link2 className="w-4 h-4 me-2" />
+                          {t.share}
+                        </Button>
+                      )}
+                      <Button
+                        onClick={copyResult}
+                        variant="outline"
+                        size="sm"
+                        className="border-border hover:border-primary/50 hover:bg-primary/10 bg-transparent"
+                      >
+                        <Copy className="w-4 h-4 me-2" />
+                        {t.copy}
+                      </Button>
+                    </div>
+                  )
+                }
+              />
+            )}
+          </Card>
+        )}
 
         {/* Footer */}
         <div className="text-center text-sm text-muted-foreground">
-          <p>🛡️ Disinformation Hunter Engine – Advanced Content Detection</p>
+          <p>{t.footerTitle}</p>
           <p className="mt-1">
-            <ExternalLink className="w-3 h-3 inline mr-1" />🔍 Professional content analysis with verified fact-checking
-            sources
+            <ExternalLink className="w-3 h-3 inline me-1" />
+            {t.footerSubtitle}
           </p>
         </div>
       </div>
@@ -0,0 +1,335 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { AlertTriangle, ExternalLink, Eye, HelpCircle, Loader2, Shield, ShieldAlert, Users } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { ClaimBreakdown } from "@/components/claim-breakdown"
+import { CommentStances } from "@/components/comment-stances"
+import { FactCheckLink } from "@/components/fact-check-link"
+import { HumanReview } from "@/components/human-review"
+import { useI18n } from "@/components/i18n-provider"
+import { SectionFeedback, VerdictFeedback } from "@/components/result-feedback"
+import type { AnalysisResult } from "@/lib/analysis/schema"
+import type { FeedbackTarget } from "@/lib/feedback"
+import { LANGUAGE_INFO } from "@/lib/i18n"
+import type { PublicReview } from "@/lib/review/types"
+
+interface AnalysisResultViewProps {
+  // Partial while a streamed analysis is still arriving
+  result: Partial<AnalysisResult>
+  // The analyzed text, used to highlight claim spans
+  content: string
+  actions?: ReactNode
+  // The human verdict, once the stored analysis' review has been looked up
+  review?: PublicReview
+}
+
+export function AnalysisResultView({ result, content, actions, review }: AnalysisResultViewProps) {
+  const t = useI18n().messages.result
+  // Only stored results can take feedback
+  const feedback = (target: Exclude<FeedbackTarget, "verdict">) =>
+    result.id && <SectionFeedback analysisId={result.id} target={target} />
+
+  return (
+    <div className="space-y-4 animate-in slide-in-from-bottom-4 duration-500">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          {!result.classification ? (
+            <>
+              <Loader2 className="w-6 h-6 text-primary animate-spin" />
+              <Badge variant="outline" className="px-3 py-1 text-sm border-border text-muted-foreground">
+                {t.classifying}
+              </Badge>
+            </>
+          ) : result.classification === "Disinformation" ? (
+            <>
+              <AlertTriangle className="w-6 h-6 text-red-500" />
+              <Badge className="bg-red-500/20 text-red-400 border-red-500/30 px-3 py-1 text-sm font-semibold">
+                {t.verdicts.Disinformation}
+              </Badge>
+            </>
+          ) : result.classification === "NSFW Content" ? (
+            <>
+              <Eye className="w-6 h-6 text-orange-500" />
+              <Badge className="bg-orange-500/20 text-orange-400 border-orange-500/30 px-3 py-1 text-sm font-semibold">
+                {t.verdicts["NSFW Content"]}
+              </Badge>
+            </>
+          ) : result.classification === "Inconclusive" ? (
+            <>
+              <HelpCircle className="w-6 h-6 text-muted-foreground" />
+              <Badge variant="outline" className="px-3 py-1 text-sm font-semibold border-border text-muted-foreground">
+                {t.verdicts.Inconclusive}
+              </Badge>
+            </>
+          ) : (
+            <>
+              <Shield className="w-6 h-6 text-green-400" />
+              <Badge className="bg-green-500/20 text-green-400 border-green-500/30 px-3 py-1 text-sm font-semibold">
+                {t.verdicts["Not Disinformation"]}
+              </Badge>
+            </>
+          )}
+          {result.contentType && (
+            <Badge variant="outline" className="text-xs border-border text-muted-foreground">
+              {t.contentTypes[result.contentType]}
+            </Badge>
+          )}
+          {result.language && (
+            <span className="text-xs text-muted-foreground">
+              {t.writtenIn(LANGUAGE_INFO[result.language].nativeName)}
+            </span>
+          )}
+        </div>
+
+        {actions}
+      </div>
+
+      {review && <HumanReview review={review} classification={result.classification} />}
+
+      {result.failure && (
+        <div className="bg-muted/20 border border-border/50 rounded-lg p-4 text-xs text-muted-foreground">
+          {t.noVerdict} {t.failures[result.failure.code] ?? result.failure.message}{" "}
+          <code className="text-foreground">{result.failure.code}</code>
+        </div>
+      )}
+
+      {result.adversarial?.detected && (
+        <div className="bg-amber-500/10 border border-amber-500/30 rounded-lg p-4 space-y-1">
+          <p className="text-sm font-semibold text-amber-400 flex items-center gap-2">
+            <ShieldAlert className="w-4 h-4" />
+            {t.adversarialTitle}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {result.adversarial.findings
+              .map((finding) => `${t.findings[finding.kind]} (${finding.location})`)
+              .join(" · ")}
+            . {t.adversarialNote}
+          </p>
+        </div>
+      )}
+
+      {result.ensemble && (
+        <div
+          className={
+            result.ensemble.unanimous
+              ? "bg-muted/20 border border-border/50 rounded-lg p-4 space-y-2"
+              : "bg-amber-500/10 border border-amber-500/30 rounded-lg p-4 space-y-2"
+          }
+        >
+          <p className="text-sm font-semibold text-foreground flex items-center gap-2">
+            <Users className="w-4 h-4" />
+            {result.ensemble.unanimous
+              ? t.ensembleAgree(result.ensemble.votes.length)
+              : t.ensembleDisagree(Math.round(result.ensemble.agreement * 100))}
+            {result.ensemble.failed > 0 && (
+              <span className="text-xs font-normal text-muted-foreground">
+                {t.ensembleFailed(result.ensemble.failed)}
+              </span>
+            )}
+          </p>
+          <ul className="text-xs text-muted-foreground space-y-1">
+            {result.ensemble.votes.map((vote, index) => (
+              <li key={index} className="flex justify-between gap-2">
+                <span>
+                  {vote.provider} · {vote.model}
+                  {vote.weight !== 1 && ` (×${vote.weight})`}
+                </span>
+                <span className="text-foreground">
+                  {t.verdicts[vote.classification]}
+                  {vote.classification !== "Inconclusive" && ` (${vote.confidence}%)`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {result.source && (
+        <div className="bg-muted/20 rounded-lg p-4 border border-border/50 space-y-1">
+          <a
+            href={result.source.canonicalUrl ?? result.source.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm font-semibold text-foreground hover:text-primary flex items-center gap-2"
+          >
+            <ExternalLink className="w-3 h-3 flex-shrink-0" />
+            {result.source.title ?? result.source.url}
+          </a>
+          <p className="text-xs text-muted-foreground">
+            {[
+              result.source.siteName,
+              result.source.author,
+              result.source.publishedAt && new Date(result.source.publishedAt).toLocaleDateString(),
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+          {result.source.reddit && (
+            <p className="text-xs text-muted-foreground">
+              ▲ {result.source.reddit.score} · {t.comments(result.source.reddit.numComments)}
+              {result.source.reddit.linkUrl && (
+                <>
+                  {" · "}
+                  <a
+                    href={result.source.reddit.linkUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="underline hover:text-primary"
+                  >
+                    {t.linkedPage}
+                  </a>
+                </>
+              )}
+              {result.source.reddit.crosspostFrom && (
+                <>
+                  {` · ${t.crosspostedFrom} `}
+                  <a
+                    href={result.source.reddit.crosspostFrom.permalink}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="underline hover:text-primary"
+                  >
+                    r/{result.source.reddit.crosspostFrom.subreddit}
+                  </a>
+                </>
+              )}
+            </p>
+          )}
+        </div>
+      )}
+
+      {result.confidence !== undefined && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              {result.calibration ? t.calibratedConfidence : t.confidence}
+            </span>
+            <span className="font-semibold text-foreground">{result.confidence}%</span>
+          </div>
+          <Progress value={result.confidence} className="h-2" />
+          {result.calibration ? (
+            <p className="text-xs text-muted-foreground">{t.calibratedNote(result.calibration.rawConfidence)}</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">{t.uncalibratedNote}</p>
+          )}
+        </div>
+      )}
+
+      {result.id && result.classification && (
+        <VerdictFeedback analysisId={result.id} classification={result.classification} />
+      )}
+
+      {result.explanation && (
+        <div className="bg-muted/20 rounded-lg p-4 border border-border/50">
+          <div className="flex items-center justify-between gap-2 mb-3">
+            <h4 className="text-sm font-semibold text-foreground">{t.detectionResults}</h4>
+            {feedback("explanation")}
+          </div>
+          <div dir="auto" className="space-y-3">
+            {result.explanation
+              .split(/[.!?।؟]+/)
+              .filter((sentence) => sentence.trim().length > 10)
+              .slice(0, 3) // Limit to 3 sentences max
+              .map((sentence, index) => (
+                <p key={index} className="text-foreground leading-relaxed text-sm">
+                  {sentence.trim()}.
+                </p>
+              ))}
+          </div>
+        </div>
+      )}
+
+      {result.claims && result.claims.length > 0 && (
+        <ClaimBreakdown content={content} claims={result.claims} actions={feedback("claims")} />
+      )}
+
+      {result.comments && result.comments.length > 0 && (
+        <CommentStances comments={result.comments} actions={feedback("comments")} />
+      )}
+
+      {result.citations && result.citations.length > 0 ? (
+        <div className="bg-blue-500/10 rounded-lg p-4 border border-blue-500/20">
+          <div className="flex items-center justify-between gap-2 mb-3">
+            <h4 className="text-sm font-semibold text-blue-400">{t.matchingFactChecks}</h4>
+            {feedback("sources")}
+          </div>
+          <div className="space-y-3">
+            {result.citations.map((citation) => (
+              <FactCheckLink key={citation.url} citation={citation} showExcerpt />
+            ))}
+          </div>
+        </div>
+      ) : (
+        result.verificationSources &&
+        result.verificationSources.length > 0 && (
+          <div className="bg-blue-500/10 rounded-lg p-4 border border-blue-500/20">
+            <div className="flex items-center justify-between gap-2 mb-3">
+              <h4 className="text-sm font-semibold text-blue-400">{t.verificationSources}</h4>
+              {feedback("sources")}
+            </div>
+            <div className="space-y-2">
+              {result.verificationSources.map((source, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  <ExternalLink className="w-3 h-3 text-blue-400" />
+                  {/^https?:\/\//.test(source) ? (
+                    <a href={source} target="_blank" rel="noopener noreferrer" className="text-blue-300 hover:underline">
+                      {source}
+                    </a>
+                  ) : (
+                    <span className="text-blue-300">{source}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-blue-300/70 mt-2">
+              {t.noFactCheckHint}
+            </p>
+          </div>
+        )
+      )}
+
+      {result.recommendations && result.recommendations.length > 0 && (
+        <div className="bg-green-500/10 rounded-lg p-4 border border-green-500/20">
+          <div className="flex items-center justify-between gap-2 mb-3">
+            <h4 className="text-sm font-semibold text-green-400">{t.recommendations}</h4>
+            {feedback("recommendations")}
+          </div>
+          <ul className="space-y-1">
+            {result.recommendations.map((rec, index) => (
+              <li key={index} className="text-sm text-green-300 flex items-start gap-2">
+                <span className="text-green-400 mt-0.5">•</span>
+                {rec}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {result.keyTerms && result.keyTerms.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <h4 className="text-sm font-semibold text-foreground">{t.keyTerms}</h4>
+            {feedback("keyTerms")}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {result.keyTerms.map((term, index) => (
+              <Badge key={index} variant="outline" className="text-xs border-primary/30 text-primary">
+                {term}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {result.timestamp && (
+        <div className="text-xs text-muted-foreground text-center">
+          {t.completedAt(new Date(result.timestamp).toLocaleString())}
+          {result.cached && t.servedFromCache}
+          {result.promptVersion && t.prompt(result.promptVersion)}
+        </div>
+      )}
+    </div>
+  )
+}
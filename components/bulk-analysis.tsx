@@ -0,0 +1,270 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { ArrowDown, ArrowUp, Download, Loader2, Upload, X } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { Textarea } from "@/components/ui/textarea"
+import type { AnalysisErrorResponse } from "@/lib/analysis/schema"
+import { batchResultsToCsv, batchResultsToJson } from "@/lib/batch/export"
+import type { BatchItemResult, BatchProgress, BatchStreamEvent } from "@/lib/batch/types"
+import { readNdjson } from "@/lib/ndjson"
+import { cn } from "@/lib/utils"
+
+type SortKey = "index" | "classification" | "confidence" | "contentType"
+
+const classificationStyles: Record<string, string> = {
+  Disinformation: "bg-red-500/20 text-red-400 border-red-500/30",
+  "NSFW Content": "bg-orange-500/20 text-orange-400 border-orange-500/30",
+  "Not Disinformation": "bg-green-500/20 text-green-400 border-green-500/30",
+  Inconclusive: "bg-muted/40 text-muted-foreground border-border",
+}
+
+function sortValue(item: BatchItemResult, key: SortKey): string | number {
+  if (key === "index") return item.index
+  if (item.status === "error") return key === "confidence" ? -1 : "~"
+  return item.result[key]
+}
+
+function download(filename: string, data: string, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function BulkAnalysis() {
+  const { language, messages } = useI18n()
+  const t = messages.bulk
+  const [input, setInput] = useState("")
+  const [file, setFile] = useState<File | null>(null)
+  const [results, setResults] = useState<BatchItemResult[]>([])
+  const [progress, setProgress] = useState<BatchProgress | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState("")
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: "index", descending: false })
+  const abortRef = useRef<AbortController | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const runBatch = async () => {
+    const lines = input.split(/\r?\n/).filter((line) => line.trim())
+    if (!file && lines.length === 0) {
+      setError(t.emptyInput)
+      return
+    }
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsRunning(true)
+    setError("")
+    setResults([])
+    setProgress(null)
+
+    try {
+      let body: BodyInit
+      const headers: Record<string, string> = { Accept: "application/x-ndjson" }
+      if (file) {
+        const form = new FormData()
+        form.append("file", file)
+        form.append("outputLanguage", language)
+        body = form
+      } else {
+        headers["Content-Type"] = "application/json"
+        body = JSON.stringify({ items: lines.map((content) => ({ content })), outputLanguage: language })
+      }
+
+      const response = await fetch("/api/analyze/batch", { method: "POST", headers, body, signal: controller.signal })
+      if (!response.ok) {
+        const failure: AnalysisErrorResponse = await response.json()
+        throw new Error(failure.error)
+      }
+
+      for await (const event of readNdjson<BatchStreamEvent>(response)) {
+        if (event.type === "item") {
+          setResults((current) => [...current, event.item])
+        } else {
+          setProgress({ completed: event.completed, failed: event.failed, total: event.total })
+        }
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(`⚠️ ${err instanceof Error ? err.message : t.failed}`)
+        console.error("Batch analysis error:", err)
+      }
+    } finally {
+      abortRef.current = null
+      setIsRunning(false)
+    }
+  }
+
+  const toggleSort = (key: SortKey) => {
+    setSort((current) => ({ key, descending: current.key === key ? !current.descending : key === "confidence" }))
+  }
+
+  const sortedResults = [...results].sort((a, b) => {
+    const left = sortValue(a, sort.key)
+    const right = sortValue(b, sort.key)
+    const order = left < right ? -1 : left > right ? 1 : 0
+    return sort.descending ? -order : order
+  })
+
+  const SortHeader = ({ label, sortKey }: { label: string; sortKey: SortKey }) => (
+    <th className="px-2 py-2 text-start font-medium">
+      <button onClick={() => toggleSort(sortKey)} className="flex items-center gap-1 hover:text-foreground">
+        {label}
+        {sort.key === sortKey &&
+          (sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+      </button>
+    </th>
+  )
+
+  return (
+    <div className="space-y-4">
+      <Textarea
+        placeholder={t.placeholder}
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        className="min-h-32 bg-input border-border focus:border-primary focus:ring-2 focus:ring-primary/20 transition-all duration-300 resize-none"
+        disabled={isRunning || !!file}
+      />
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.jsonl,.ndjson,.json"
+          className="hidden"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+        />
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          variant="outline"
+          size="sm"
+          disabled={isRunning}
+          className="border-border hover:border-primary/50"
+        >
+          <Upload className="w-4 h-4 me-2" />
+          {file ? file.name : t.upload}
+        </Button>
+        {file && !isRunning && (
+          <Button
+            onClick={() => {
+              setFile(null)
+              if (fileInputRef.current) fileInputRef.current.value = ""
+            }}
+            variant="ghost"
+            size="sm"
+            aria-label={t.removeFile}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+
+        <div className="flex-1" />
+
+        {isRunning ? (
+          <Button onClick={() => abortRef.current?.abort()} variant="outline" className="border-border">
+            <X className="w-4 h-4 me-2" />
+            {messages.app.cancel}
+          </Button>
+        ) : (
+          <Button
+            onClick={runBatch}
+            disabled={!file && !input.trim()}
+            className="bg-primary hover:bg-primary/90 text-primary-foreground font-semibold"
+          >
+            {t.analyze}
+          </Button>
+        )}
+      </div>
+
+      {progress && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground flex items-center gap-2">
+              {isRunning && <Loader2 className="w-3 h-3 animate-spin" />}
+              {t.progress(progress.completed, progress.total)}
+              {progress.failed > 0 && t.failedCount(progress.failed)}
+            </span>
+            <span className="font-semibold text-foreground">
+              {Math.round((progress.completed / Math.max(progress.total, 1)) * 100)}%
+            </span>
+          </div>
+          <Progress value={(progress.completed / Math.max(progress.total, 1)) * 100} className="h-2" />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {results.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex justify-end gap-2">
+            <Button
+              onClick={() => download("analysis-results.csv", batchResultsToCsv(sortedResults), "text/csv")}
+              variant="outline"
+              size="sm"
+              className="border-border hover:border-primary/50"
+            >
+              <Download className="w-4 h-4 me-2" />
+              CSV
+            </Button>
+            <Button
+              onClick={() => download("analysis-results.json", batchResultsToJson(sortedResults), "application/json")}
+              variant="outline"
+              size="sm"
+              className="border-border hover:border-primary/50"
+            >
+              <Download className="w-4 h-4 me-2" />
+              JSON
+            </Button>
+          </div>
+
+          <div className="max-h-96 overflow-auto rounded-lg border border-border/50">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/30 text-muted-foreground sticky top-0">
+                <tr>
+                  <SortHeader label="#" sortKey="index" />
+                  <th className="px-2 py-2 text-start font-medium">{t.columns.content}</th>
+                  <SortHeader label={t.columns.verdict} sortKey="classification" />
+                  <SortHeader label={t.columns.confidence} sortKey="confidence" />
+                  <SortHeader label={t.columns.type} sortKey="contentType" />
+                </tr>
+              </thead>
+              <tbody>
+                {sortedResults.map((item) => (
+                  <tr key={item.index} className="border-t border-border/50 align-top">
+                    <td className="px-2 py-2 text-muted-foreground">{item.id ?? item.index + 1}</td>
+                    <td dir="auto" className="px-2 py-2 text-foreground max-w-xs truncate" title={item.content}>
+                      {item.content}
+                    </td>
+                    {item.status === "ok" ? (
+                      <>
+                        <td className="px-2 py-2">
+                          <Badge className={cn(classificationStyles[item.result.classification], "text-xs")}>
+                            {messages.result.verdicts[item.result.classification]}
+                          </Badge>
+                        </td>
+                        <td className="px-2 py-2 text-foreground">{item.result.confidence}%</td>
+                        <td className="px-2 py-2 text-muted-foreground">
+                          {messages.result.contentTypes[item.result.contentType]}
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={3} className="px-2 py-2 text-destructive text-xs">
+                        {item.error}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+"use client"
+
+import { type ReactNode, useState } from "react"
+import { FactCheckLink } from "@/components/fact-check-link"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import type { ClaimResult, Classification } from "@/lib/analysis/schema"
+import { cn } from "@/lib/utils"
+
+const verdictStyles: Record<Classification, { badge: string; highlight: string }> = {
+  Disinformation: {
+    badge: "bg-red-500/20 text-red-400 border-red-500/30",
+    highlight: "bg-red-500/25 decoration-red-400",
+  },
+  "Not Disinformation": {
+    badge: "bg-green-500/20 text-green-400 border-green-500/30",
+    highlight: "bg-green-500/15 decoration-green-400",
+  },
+  "NSFW Content": {
+    badge: "bg-orange-500/20 text-orange-400 border-orange-500/30",
+    highlight: "bg-orange-500/20 decoration-orange-400",
+  },
+  Inconclusive: {
+    badge: "bg-muted/40 text-muted-foreground border-border",
+    highlight: "bg-muted/40 decoration-muted-foreground",
+  },
+}
+
+interface ClaimBreakdownProps {
+  content: string
+  claims: ClaimResult[]
+  actions?: ReactNode
+}
+
+type Segment = { text: string; claimIndex?: number }
+
+// Split the content into plain and highlighted runs, skipping overlapping or out-of-range spans
+function segmentContent(content: string, claims: ClaimResult[]): Segment[] {
+  const spans = claims
+    .map((claim, claimIndex) => ({ span: claim.span, claimIndex }))
+    .filter(({ span }) => span && span.end <= content.length && span.start < span.end)
+    .sort((a, b) => a.span!.start - b.span!.start)
+
+  const segments: Segment[] = []
+  let cursor = 0
+  for (const { span, claimIndex } of spans) {
+    if (span!.start < cursor) continue
+    if (span!.start > cursor) segments.push({ text: content.slice(cursor, span!.start) })
+    segments.push({ text: content.slice(span!.start, span!.end), claimIndex })
+    cursor = span!.end
+  }
+  if (cursor < content.length) segments.push({ text: content.slice(cursor) })
+  return segments
+}
+
+export function ClaimBreakdown({ content, claims, actions }: ClaimBreakdownProps) {
+  const { messages } = useI18n()
+  const [activeClaim, setActiveClaim] = useState<number | null>(null)
+  const [showTranslations, setShowTranslations] = useState(false)
+  const segments = segmentContent(content, claims)
+  const translated = claims.some((claim) => claim.translation)
+
+  return (
+    <div className="bg-muted/20 rounded-lg p-4 border border-border/50 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-sm font-semibold text-foreground">{messages.claims.title}</h4>
+        <div className="flex items-center gap-2">
+          {translated && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowTranslations((current) => !current)}
+              className="h-7 text-xs border-border text-muted-foreground"
+            >
+              {showTranslations ? messages.claims.showOriginals : messages.claims.showTranslations}
+            </Button>
+          )}
+          {actions}
+        </div>
+      </div>
+
+      {segments.some((segment) => segment.claimIndex !== undefined) && (
+        <p
+          dir="auto"
+          className="text-sm text-foreground leading-relaxed whitespace-pre-wrap max-h-60 overflow-y-auto"
+        >
+          {segments.map((segment, index) =>
+            segment.claimIndex === undefined ? (
+              <span key={index}>{segment.text}</span>
+            ) : (
+              <mark
+                key={index}
+                onMouseEnter={() => setActiveClaim(segment.claimIndex!)}
+                onMouseLeave={() => setActiveClaim(null)}
+                className={cn(
+                  "rounded px-0.5 text-foreground underline underline-offset-4 transition-colors",
+                  verdictStyles[claims[segment.claimIndex].verdict].highlight,
+                  activeClaim === segment.claimIndex && "ring-1 ring-primary",
+                )}
+              >
+                {segment.text}
+              </mark>
+            ),
+          )}
+        </p>
+      )}
+
+      <ol className="space-y-2">
+        {claims.map((claim, index) => (
+          <li
+            key={index}
+            id={`claim-${index + 1}`}
+            onMouseEnter={() => setActiveClaim(index)}
+            onMouseLeave={() => setActiveClaim(null)}
+            className={cn(
+              "p-3 rounded-lg border border-border/50 bg-card/30 space-y-2 transition-colors",
+              activeClaim === index && "border-primary/50",
+            )}
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className={cn(verdictStyles[claim.verdict].badge, "text-xs")}>
+                {messages.result.verdicts[claim.verdict]} ({claim.confidence}%)
+              </Badge>
+              <Badge variant="outline" className="text-xs border-border text-muted-foreground">
+                {messages.result.contentTypes[claim.contentType]}
+              </Badge>
+            </div>
+            <p dir="auto" className="text-sm text-foreground leading-relaxed">
+              “{(showTranslations && claim.translation) || claim.text}”
+            </p>
+            {claim.keyTerms.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {claim.keyTerms.map((term, termIndex) => (
+                  <Badge key={termIndex} variant="outline" className="text-xs border-primary/30 text-primary">
+                    {term}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {claim.citations && claim.citations.length > 0 && (
+              <div className="space-y-1 pt-1 border-t border-border/50">
+                {claim.citations.map((citation) => (
+                  <FactCheckLink key={citation.url} citation={citation} />
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
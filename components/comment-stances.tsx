@@ -0,0 +1,65 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { ExternalLink } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Badge } from "@/components/ui/badge"
+import type { CommentResult, CommentStance } from "@/lib/analysis/schema"
+import { cn } from "@/lib/utils"
+
+const stanceStyles: Record<CommentStance, string> = {
+  spreads: "bg-red-500/20 text-red-400 border-red-500/30",
+  debunks: "bg-green-500/20 text-green-400 border-green-500/30",
+  neutral: "bg-muted/40 text-muted-foreground border-border",
+}
+
+interface CommentStancesProps {
+  comments: CommentResult[]
+  actions?: ReactNode
+}
+
+export function CommentStances({ comments, actions }: CommentStancesProps) {
+  const t = useI18n().messages.comments
+  const counts = comments.reduce(
+    (totals, comment) => ({ ...totals, [comment.stance]: totals[comment.stance] + 1 }),
+    { spreads: 0, debunks: 0, neutral: 0 } as Record<CommentStance, number>,
+  )
+
+  return (
+    <div className="bg-muted/20 rounded-lg p-4 border border-border/50 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-sm font-semibold text-foreground">{t.title}</h4>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">
+            {t.counts(counts.spreads, counts.debunks, counts.neutral)}
+          </span>
+          {actions}
+        </div>
+      </div>
+
+      <ul className="space-y-2 max-h-80 overflow-y-auto">
+        {comments.map((comment) => (
+          <li key={comment.id} className="p-3 rounded-lg border border-border/50 bg-card/30 space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <Badge className={cn(stanceStyles[comment.stance], "text-xs")}>{t.stances[comment.stance]}</Badge>
+              <span>u/{comment.author}</span>
+              <span>▲ {comment.score}</span>
+              {comment.permalink && (
+                <a
+                  href={comment.permalink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="ms-auto hover:text-primary"
+                >
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+            </div>
+            <p dir="auto" className="text-sm text-foreground leading-relaxed line-clamp-4">{comment.body}</p>
+            {comment.reason && <p className="text-xs text-muted-foreground italic">{comment.reason}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+import { ExternalLink } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import type { Citation } from "@/lib/analysis/schema"
+import { type RatingTone, ratingTone } from "@/lib/retrieval/rating"
+import { cn } from "@/lib/utils"
+
+const TONE_STYLES: Record<RatingTone, string> = {
+  false: "bg-red-500/20 text-red-400 border-red-500/30",
+  mixed: "bg-orange-500/20 text-orange-400 border-orange-500/30",
+  true: "bg-green-500/20 text-green-400 border-green-500/30",
+}
+
+// Unrecognized ratings stay neutral
+function ratingStyle(rating: string) {
+  const tone = ratingTone(rating)
+  return tone ? TONE_STYLES[tone] : "bg-muted/40 text-muted-foreground border-border"
+}
+
+interface FactCheckLinkProps {
+  citation: Citation
+  showExcerpt?: boolean
+}
+
+export function FactCheckLink({ citation, showExcerpt = false }: FactCheckLinkProps) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-start gap-2 text-sm">
+        <Badge className={cn(ratingStyle(citation.rating), "text-xs flex-shrink-0")}>{citation.rating}</Badge>
+        <a
+          href={citation.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-300 hover:text-blue-200 hover:underline flex items-start gap-1"
+        >
+          <span>
+            {citation.claim}
+            {citation.publisher && <span className="text-blue-300/70"> · {citation.publisher}</span>}
+          </span>
+          <ExternalLink className="w-3 h-3 mt-1 flex-shrink-0" />
+        </a>
+      </div>
+      {showExcerpt && citation.excerpt !== citation.claim && (
+        <p className="text-xs text-muted-foreground line-clamp-2 pl-1">{citation.excerpt}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+"use client"
+
+import { UserCheck } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Badge } from "@/components/ui/badge"
+import type { Classification } from "@/lib/analysis/schema"
+import type { PublicReview, ReviewState } from "@/lib/review/types"
+import { cn } from "@/lib/utils"
+
+const stateStyles: Record<ReviewState, string> = {
+  pending: "bg-muted/40 text-muted-foreground border-border",
+  confirmed: "bg-green-500/20 text-green-400 border-green-500/30",
+  overturned: "bg-amber-500/20 text-amber-400 border-amber-500/30",
+  escalated: "bg-orange-500/20 text-orange-400 border-orange-500/30",
+}
+
+interface HumanReviewProps {
+  review: PublicReview
+  // The model's verdict, shown next to the reviewer's when they differ
+  classification?: Classification
+}
+
+export function HumanReview({ review, classification }: HumanReviewProps) {
+  const { messages } = useI18n()
+  const t = messages.review
+
+  if (review.state === "pending") {
+    return <p className="text-xs text-muted-foreground">{t.notReviewed}</p>
+  }
+
+  return (
+    <div className="bg-muted/20 rounded-lg p-4 border border-border/50 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <UserCheck className="w-4 h-4 text-primary" />
+        <h4 className="text-sm font-semibold text-foreground">{t.title}</h4>
+        <Badge className={cn(stateStyles[review.state], "text-xs")}>{t.states[review.state]}</Badge>
+      </div>
+      {review.classification && classification && (
+        <p className="text-sm text-foreground">
+          <span className="text-muted-foreground line-through">
+            {t.model(messages.result.verdicts[classification])}
+          </span>
+          {" → "}
+          <span className="font-semibold">{t.reviewer(messages.result.verdicts[review.classification])}</span>
+        </p>
+      )}
+      {review.rationale && (
+        <p dir="auto" className="text-sm text-foreground whitespace-pre-wrap">
+          {review.rationale}
+        </p>
+      )}
+      {review.updatedAt && (
+        <p className="text-xs text-muted-foreground">{t.reviewedAt(new Date(review.updatedAt).toLocaleString())}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import { type ReactNode, createContext, useContext, useEffect, useState } from "react"
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGES,
+  LANGUAGE_INFO,
+  type Language,
+  MESSAGES,
+  type Messages,
+  isLanguage,
+} from "@/lib/i18n"
+
+const STORAGE_KEY = "disinformation-language"
+
+interface I18nContextValue {
+  language: Language
+  setLanguage: (language: Language) => void
+  messages: Messages
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  language: DEFAULT_LANGUAGE,
+  setLanguage: () => {},
+  messages: MESSAGES[DEFAULT_LANGUAGE],
+})
+
+// First visit follows the browser's language when it is one we have; the choice is remembered afterwards
+function initialLanguage(): Language {
+  const saved = localStorage.getItem(STORAGE_KEY)
+  if (isLanguage(saved)) return saved
+  const browser = navigator.language.slice(0, 2)
+  return isLanguage(browser) ? browser : DEFAULT_LANGUAGE
+}
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [language, setLanguageState] = useState<Language>(DEFAULT_LANGUAGE)
+
+  useEffect(() => setLanguageState(initialLanguage()), [])
+
+  useEffect(() => {
+    document.documentElement.lang = language
+    document.documentElement.dir = LANGUAGE_INFO[language].dir
+  }, [language])
+
+  const setLanguage = (next: Language) => {
+    localStorage.setItem(STORAGE_KEY, next)
+    setLanguageState(next)
+  }
+
+  return (
+    <I18nContext.Provider value={{ language, setLanguage, messages: MESSAGES[language] }}>
+      {children}
+    </I18nContext.Provider>
+  )
+}
+
+export function useI18n() {
+  return useContext(I18nContext)
+}
+
+export function LanguageSelect({ disabled }: { disabled?: boolean }) {
+  const { language, setLanguage, messages } = useI18n()
+  return (
+    <select
+      aria-label={messages.app.language}
+      value={language}
+      onChange={(event) => isLanguage(event.target.value) && setLanguage(event.target.value)}
+      disabled={disabled}
+      className="bg-input border border-border rounded-md px-2 py-1 text-sm text-foreground"
+    >
+      {LANGUAGES.map((code) => (
+        <option key={code} value={code}>
+          🌐 {LANGUAGE_INFO[code].nativeName}
+        </option>
+      ))}
+    </select>
+  )
+}
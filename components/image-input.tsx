@@ -0,0 +1,176 @@
+"use client"
+
+import { type ClipboardEvent, type DragEvent, useEffect, useState } from "react"
+import { ImageIcon, Loader2, MapPin, X } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import type { AnalysisErrorResponse } from "@/lib/analysis/schema"
+import type { ImageExtraction } from "@/lib/image"
+
+export interface UploadedImage extends ImageExtraction {
+  name: string
+  previewUrl: string
+}
+
+interface UseImageOcrOptions {
+  // Receives the recognized text, which becomes the editable analysis input
+  onText: (text: string) => void
+  onError: (message: string) => void
+}
+
+function imageFile(files: FileList | null | undefined) {
+  return Array.from(files ?? []).find((file) => file.type.startsWith("image/"))
+}
+
+export function useImageOcr({ onText, onError }: UseImageOcrOptions) {
+  const { messages } = useI18n()
+  const [image, setImage] = useState<UploadedImage | null>(null)
+  const [isRecognizing, setIsRecognizing] = useState(false)
+  const [isDragging, setIsDragging] = useState(false)
+
+  useEffect(() => {
+    if (image) return () => URL.revokeObjectURL(image.previewUrl)
+  }, [image])
+
+  const recognize = async (file: File) => {
+    setIsRecognizing(true)
+    try {
+      const body = new FormData()
+      body.append("image", file)
+      const response = await fetch("/api/ocr", { method: "POST", body })
+      if (!response.ok) {
+        const failure: AnalysisErrorResponse = await response.json()
+        throw new Error(failure.error)
+      }
+      const extraction: ImageExtraction = await response.json()
+      setImage({ ...extraction, name: file.name, previewUrl: URL.createObjectURL(file) })
+      onText(extraction.text)
+      if (!extraction.text) onError(messages.image.noText)
+    } catch (error) {
+      onError(`🖼️ ${error instanceof Error ? error.message : "Text could not be recognized in this image"}`)
+    } finally {
+      setIsRecognizing(false)
+    }
+  }
+
+  return {
+    image,
+    isRecognizing,
+    isDragging,
+    recognize,
+    clear: () => setImage(null),
+    dropTarget: {
+      onDragOver: (event: DragEvent) => {
+        if (!Array.from(event.dataTransfer.types).includes("Files")) return
+        event.preventDefault()
+        setIsDragging(true)
+      },
+      onDragLeave: () => setIsDragging(false),
+      onDrop: (event: DragEvent) => {
+        const file = imageFile(event.dataTransfer.files)
+        setIsDragging(false)
+        if (!file) return
+        event.preventDefault()
+        recognize(file)
+      },
+    },
+    // Screenshots pasted from the clipboard arrive as files; plain text pastes fall through untouched
+    onPaste: (event: ClipboardEvent) => {
+      const file = imageFile(event.clipboardData.files)
+      if (!file) return
+      event.preventDefault()
+      recognize(file)
+    },
+  }
+}
+
+interface ImageUploadButtonProps {
+  onFile: (file: File) => void
+  disabled?: boolean
+  isRecognizing?: boolean
+}
+
+export function ImageUploadButton({ onFile, disabled, isRecognizing }: ImageUploadButtonProps) {
+  const t = useI18n().messages.image
+
+  return (
+    <Button
+      asChild
+      variant="outline"
+      size="sm"
+      className="border-border hover:border-primary/50 bg-transparent cursor-pointer"
+      disabled={disabled}
+    >
+      <label>
+        {isRecognizing ? <Loader2 className="w-4 h-4 me-2 animate-spin" /> : <ImageIcon className="w-4 h-4 me-2" />}
+        {isRecognizing ? t.reading : t.upload}
+        <input
+          type="file"
+          accept="image/png,image/jpeg,image/webp,image/bmp"
+          className="hidden"
+          disabled={disabled}
+          onChange={(event) => {
+            const file = imageFile(event.target.files)
+            event.target.value = ""
+            if (file) onFile(file)
+          }}
+        />
+      </label>
+    </Button>
+  )
+}
+
+interface ImagePreviewProps {
+  image: UploadedImage
+  onRemove: () => void
+}
+
+export function ImagePreview({ image, onRemove }: ImagePreviewProps) {
+  const t = useI18n().messages.image
+  const { metadata } = image
+  const details = [
+    `${metadata.format.toUpperCase()}${metadata.width ? ` · ${metadata.width}×${metadata.height}` : ""}`,
+    metadata.camera && `📷 ${metadata.camera}`,
+    metadata.capturedAt && t.taken(metadata.capturedAt),
+    metadata.modifiedAt && metadata.modifiedAt !== metadata.capturedAt && t.modified(metadata.modifiedAt),
+    metadata.software && t.software(metadata.software),
+    metadata.artist && t.artist(metadata.artist),
+    metadata.copyright && `© ${metadata.copyright}`,
+    metadata.description && `“${metadata.description}”`,
+    ...Object.entries(metadata.text ?? {}).map(([key, value]) => `${key}: ${value}`),
+  ].filter(Boolean)
+
+  return (
+    <div className="bg-muted/20 rounded-lg p-3 border border-border/50 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground truncate">{image.name}</span>
+        <Button onClick={onRemove} variant="ghost" size="sm" className="h-6 px-1" aria-label={t.remove}>
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+      <img src={image.previewUrl} alt="Uploaded image" className="w-full max-h-64 object-contain rounded" />
+      <p className="text-xs text-muted-foreground">{t.ocrConfidence(image.confidence)}</p>
+      <ul className="text-xs text-muted-foreground space-y-0.5 break-words">
+        {details.map((detail) => (
+          <li key={detail as string}>{detail}</li>
+        ))}
+        {metadata.gps && (
+          <li>
+            <a
+              href={`https://www.openstreetmap.org/?mlat=${metadata.gps.latitude}&mlon=${metadata.gps.longitude}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline hover:text-primary inline-flex items-center gap-1"
+            >
+              <MapPin className="w-3 h-3" />
+              {metadata.gps.latitude}, {metadata.gps.longitude}
+            </a>
+          </li>
+        )}
+        {!metadata.camera && !metadata.capturedAt && !metadata.software && (
+          <li>{t.noCameraMetadata}</li>
+        )}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+"use client"
+
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+
+export function NewAnalysisLink() {
+  const { messages } = useI18n()
+
+  return (
+    <Button asChild variant="outline" size="sm" className="border-border hover:border-primary/50">
+      <Link href="/">
+        <ArrowLeft className="w-4 h-4 me-2 rtl:rotate-180" />
+        {messages.permalink.newAnalysis}
+      </Link>
+    </Button>
+  )
+}
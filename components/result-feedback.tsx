@@ -0,0 +1,151 @@
+"use client"
+
+import { useState } from "react"
+import { Check, ThumbsDown, ThumbsUp } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { CLASSIFICATIONS, type Classification } from "@/lib/analysis/schema"
+import type { FeedbackRating, FeedbackRequest, FeedbackTarget } from "@/lib/feedback"
+import { cn } from "@/lib/utils"
+
+// Tracks one submission per analysis, so a new result starts with fresh buttons
+function useFeedback(analysisId: string, target: FeedbackTarget) {
+  const [sent, setSent] = useState<{ analysisId: string; rating: FeedbackRating }>()
+  const [failed, setFailed] = useState(false)
+
+  const send = async (body: Omit<FeedbackRequest, "target">) => {
+    setFailed(false)
+    try {
+      const response = await fetch(`/api/analyses/${analysisId}/feedback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, target }),
+      })
+      if (!response.ok) throw new Error(`Feedback failed with ${response.status}`)
+      setSent({ analysisId, rating: body.rating })
+    } catch {
+      setFailed(true)
+    }
+  }
+
+  return { rating: sent?.analysisId === analysisId ? sent.rating : undefined, failed, send }
+}
+
+function RatingButtons({
+  rating,
+  selected,
+  onRate,
+}: {
+  rating?: FeedbackRating
+  selected?: FeedbackRating
+  onRate: (rating: FeedbackRating) => void
+}) {
+  const t = useI18n().messages.feedback
+  const buttons = [
+    { value: "up", label: t.helpful, Icon: ThumbsUp },
+    { value: "down", label: t.notHelpful, Icon: ThumbsDown },
+  ] as const
+
+  return (
+    <div className="flex items-center gap-1">
+      {buttons.map(({ value, label, Icon }) => (
+        <Button
+          key={value}
+          type="button"
+          variant="ghost"
+          size="sm"
+          aria-label={label}
+          title={label}
+          aria-pressed={(rating ?? selected) === value}
+          disabled={!!rating}
+          onClick={() => onRate(value)}
+          className={cn(
+            "h-6 w-6 p-0 text-muted-foreground hover:text-foreground",
+            (rating ?? selected) === value && "text-primary disabled:opacity-100",
+          )}
+        >
+          <Icon className="w-3 h-3" />
+        </Button>
+      ))}
+    </div>
+  )
+}
+
+interface SectionFeedbackProps {
+  analysisId: string
+  target: Exclude<FeedbackTarget, "verdict">
+}
+
+// Thumbs for one section of the result card
+export function SectionFeedback({ analysisId, target }: SectionFeedbackProps) {
+  const { rating, failed, send } = useFeedback(analysisId, target)
+  const t = useI18n().messages.feedback
+
+  return (
+    <div className="flex items-center gap-1" title={failed ? t.failed : undefined}>
+      {failed && <span className="text-xs text-red-400">!</span>}
+      <RatingButtons rating={rating} onRate={(value) => send({ rating: value })} />
+    </div>
+  )
+}
+
+interface VerdictFeedbackProps {
+  analysisId: string
+  classification: Classification
+}
+
+// A thumbs-down opens a choice of what the verdict should have been; naming it is optional
+export function VerdictFeedback({ analysisId, classification }: VerdictFeedbackProps) {
+  const { messages } = useI18n()
+  const t = messages.feedback
+  const { rating, failed, send } = useFeedback(analysisId, "verdict")
+  const [disagreeing, setDisagreeing] = useState<string>()
+  const [correctLabel, setCorrectLabel] = useState<Classification | "">("")
+
+  const rate = (value: FeedbackRating) => {
+    if (value === "up") send({ rating: "up" })
+    else setDisagreeing(analysisId)
+  }
+
+  return (
+    <div className="bg-muted/20 rounded-lg px-4 py-2 border border-border/50 space-y-2">
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        {rating ? (
+          <span className="flex items-center gap-1 text-foreground">
+            <Check className="w-3 h-3 text-green-400" />
+            {t.thanks}
+          </span>
+        ) : (
+          <span>{failed ? t.failed : t.verdictPrompt}</span>
+        )}
+        <RatingButtons rating={rating} selected={disagreeing === analysisId ? "down" : undefined} onRate={rate} />
+      </div>
+      {disagreeing === analysisId && !rating && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            aria-label={t.correctLabel}
+            value={correctLabel}
+            onChange={(event) => setCorrectLabel(event.target.value as Classification | "")}
+            className="bg-input border border-border rounded-md px-2 py-1 text-xs text-foreground"
+          >
+            <option value="">{t.correctLabel}</option>
+            {CLASSIFICATIONS.filter((label) => label !== classification).map((label) => (
+              <option key={label} value={label}>
+                {messages.result.verdicts[label]}
+              </option>
+            ))}
+          </select>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => send({ rating: "down", correctLabel: correctLabel || undefined })}
+            className="h-7 text-xs border-border"
+          >
+            {t.send}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { ShieldCheck } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { CLASSIFICATIONS, type Classification } from "@/lib/analysis/schema"
+import { REVIEW_STATES, type ReviewState } from "@/lib/review/types"
+
+interface ReviewFormProps {
+  analysisId: string
+  // The model's verdict, which an overturn has to differ from
+  classification: Classification
+}
+
+const fieldClass = "w-full bg-input border border-border rounded-md px-2 py-1 text-sm text-foreground"
+
+// Moderators sign in with their own `review` API key, so the audit log records who made each change
+export function ReviewForm({ analysisId, classification }: ReviewFormProps) {
+  const { messages } = useI18n()
+  const t = messages.review
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [apiKey, setApiKey] = useState("")
+  const [state, setState] = useState<ReviewState>("confirmed")
+  const [corrected, setCorrected] = useState<Classification>()
+  const [rationale, setRationale] = useState("")
+  const [error, setError] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  const alternatives = CLASSIFICATIONS.filter((label) => label !== classification)
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setSaving(true)
+    setError("")
+    try {
+      const response = await fetch(`/api/v1/analyses/${analysisId}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-API-Key": apiKey.trim() },
+        body: JSON.stringify({
+          state,
+          ...(state === "overturned" ? { classification: corrected ?? alternatives[0] } : {}),
+          ...(rationale.trim() ? { rationale: rationale.trim() } : {}),
+        }),
+      })
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}))
+        throw new Error(body.error?.message ?? `${response.status}`)
+      }
+      setRationale("")
+      setOpen(false)
+      // The page reads the review on the server, so re-render it to show the new verdict
+      router.refresh()
+    } catch (err) {
+      setError(`${t.failed}: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!open) {
+    return (
+      <Button type="button" variant="ghost" size="sm" onClick={() => setOpen(true)} className="text-muted-foreground">
+        <ShieldCheck className="w-4 h-4 me-2" />
+        {t.moderate}
+      </Button>
+    )
+  }
+
+  return (
+    <form onSubmit={submit} className="bg-muted/20 rounded-lg p-4 border border-border/50 space-y-3">
+      <label className="block space-y-1">
+        <span className="block text-xs text-muted-foreground">{t.apiKey}</span>
+        <input
+          type="password"
+          required
+          autoComplete="off"
+          value={apiKey}
+          onChange={(event) => setApiKey(event.target.value)}
+          className={fieldClass}
+        />
+      </label>
+      <div className="flex flex-wrap gap-3">
+        <label className="space-y-1">
+          <span className="block text-xs text-muted-foreground">{t.title}</span>
+          <select
+            value={state}
+            onChange={(event) => setState(event.target.value as ReviewState)}
+            className={fieldClass}
+          >
+            {REVIEW_STATES.map((value) => (
+              <option key={value} value={value}>
+                {t.states[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {state === "overturned" && (
+          <label className="space-y-1">
+            <span className="block text-xs text-muted-foreground">{t.classification}</span>
+            <select
+              value={corrected ?? alternatives[0]}
+              onChange={(event) => setCorrected(event.target.value as Classification)}
+              className={fieldClass}
+            >
+              {alternatives.map((label) => (
+                <option key={label} value={label}>
+                  {messages.result.verdicts[label]}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+      <Textarea
+        dir="auto"
+        value={rationale}
+        onChange={(event) => setRationale(event.target.value)}
+        placeholder={t.rationale}
+        required={state === "overturned" || state === "escalated"}
+        maxLength={2000}
+        className="min-h-[60px] bg-input border-border text-foreground"
+      />
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={saving}>
+          {t.submit}
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={() => setOpen(false)} className="border-border">
+          {messages.app.cancel}
+        </Button>
+      </div>
+    </form>
+  )
+}
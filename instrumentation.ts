@@ -0,0 +1,7 @@
+// Runs once when the server starts, so a misconfiguration stops it before it takes any traffic
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { checkClientIpConfig } = await import("@/lib/rate-limit")
+    checkClientIpConfig()
+  }
+}
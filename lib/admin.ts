@@ -0,0 +1,12 @@
+import { timingSafeEqual } from "node:crypto"
+
+// Admin endpoints stay closed unless ADMIN_TOKEN is set; callers send it as a bearer token
+export function isAdminRequest(request: Request, env: NodeJS.ProcessEnv = process.env) {
+  const token = env.ADMIN_TOKEN
+  const header = request.headers.get("authorization") ?? ""
+  if (!token || !header.startsWith("Bearer ")) return false
+
+  const expected = Buffer.from(token)
+  const provided = Buffer.from(header.slice("Bearer ".length).trim())
+  return expected.length === provided.length && timingSafeEqual(expected, provided)
+}
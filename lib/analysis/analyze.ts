@@ -0,0 +1,431 @@
+import { type ResultCache, createCacheKey, getResultCache } from "@/lib/cache"
+import { type Calibration, calibrateResult, calibrationApplies, getCalibrationStore } from "@/lib/calibration"
+import { DEFAULT_LANGUAGE, type Language, MESSAGES, detectLanguage } from "@/lib/i18n"
+import { type Fetcher, IngestError, MAX_INGEST_CHARS, type RedditComment, ingestUrl } from "@/lib/ingest"
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  type PromptTemplate,
+  buildRepairPrompt,
+  getPromptTemplate,
+  promptTemplateId,
+} from "@/lib/prompts"
+import {
+  type AnalysisProvider,
+  type GenerateRequest,
+  ProviderError,
+  type ProviderFailure,
+  getAnalysisProvider,
+} from "@/lib/providers"
+import {
+  type FactCheckRetriever,
+  getFactCheckRetriever,
+  mergeCitations,
+  retrieveForText,
+  toCitation,
+} from "@/lib/retrieval"
+import { getSettingsStore } from "@/lib/settings"
+import { attachClaimSpans } from "./claims"
+import { type Ensemble, type EnsembleRun, aggregateVotes } from "./ensemble"
+import { AnalysisError } from "./errors"
+import { type ExplanationStep, renderExplanation } from "./explanation"
+import { guardVerdict, hardenInput, mapClaimSpans } from "./harden"
+import { extractPartialFields } from "./partial"
+import {
+  type AnalysisErrorCode,
+  type AnalysisResult,
+  type AnalysisStreamEvent,
+  type ClaimResult,
+  type CommentResult,
+  type ModelAnalysis,
+  modelAnalysisSchema,
+} from "./schema"
+
+const MAX_ATTEMPTS = 3
+const RETRY_DELAY_MS = 500
+const DEFAULT_TEMPERATURE = 0.1
+// Repeated runs of the same model only disagree if they are sampled with some randomness
+const SAMPLING_TEMPERATURE = 0.7
+
+const FAILURE_CODES: Record<ProviderFailure, AnalysisErrorCode> = {
+  http: "upstream_error",
+  empty: "empty_response",
+  blocked: "safety_block",
+  malformed: "provider_error",
+}
+
+// The model answered but nothing usable came back; users get an honest Inconclusive result instead of an error
+const INCONCLUSIVE_CODES: AnalysisErrorCode[] = [
+  "empty_response",
+  "unparsable_output",
+  "schema_mismatch",
+  "safety_block",
+]
+const MAX_COMMENT_LIMIT = 50
+
+export type DiscussionComment = Pick<RedditComment, "id" | "author" | "body" | "score" | "permalink">
+
+export type AnalysisProgressEvent = Extract<AnalysisStreamEvent, { type: "stage" | "partial" }>
+
+export interface AnalyzeOptions {
+  provider?: AnalysisProvider
+  signal?: AbortSignal
+  // Receives stage changes and, when the provider can stream, partial fields as they arrive
+  onEvent?: (event: AnalysisProgressEvent) => void
+  fetcher?: Fetcher
+  // Discussion replies judged alongside the content, e.g. a Reddit thread's top comments
+  comments?: DiscussionComment[]
+  // Defaults to the shared result cache; null disables caching
+  cache?: ResultCache | null
+  // Skip the cache lookup and re-run the model; the fresh result replaces the cached one
+  force?: boolean
+  // Overrides the admin-selected template, e.g. to compare versions side by side
+  promptTemplate?: PromptTemplate
+  // Defaults to createExplanationPipeline() with the standard disclaimer list and openings
+  explanationSteps?: ExplanationStep[]
+  // Defaults to the corpus in FACTCHECK_CORPUS_DIR; null analyzes without fact-check grounding
+  retriever?: FactCheckRetriever | null
+  // Defaults to the saved calibration if it was fitted on this provider, model and prompt; null keeps raw confidence
+  calibration?: Calibration | null
+  // Ask several providers, or sample one several times, and vote; overrides `provider`
+  ensemble?: Ensemble | null
+  temperature?: number
+  // Language for the explanation, recommendations and claim translations; the content is analyzed in its own
+  outputLanguage?: Language
+}
+
+export interface AnalysisInput {
+  content?: string
+  url?: string
+  // Top comments to include when the URL is a discussion thread
+  commentLimit?: number
+}
+
+// Pasted text longer than this is rejected; fetched pages are cut down to it
+export function getMaxContentLength(env: NodeJS.ProcessEnv = process.env) {
+  const value = Number.parseInt(env.ANALYSIS_MAX_CONTENT_CHARS ?? "", 10)
+  return Number.isFinite(value) && value > 0 ? value : MAX_INGEST_CHARS
+}
+
+async function getActiveCalibration(target: Pick<Calibration, "provider" | "model" | "promptVersion">) {
+  const calibration = await getCalibrationStore().get()
+  return calibration && calibrationApplies(calibration, target) ? calibration : null
+}
+
+async function getActivePromptTemplate(): Promise<PromptTemplate> {
+  const { promptTemplate } = await getSettingsStore().get()
+  return getPromptTemplate(promptTemplate) ?? getPromptTemplate(DEFAULT_PROMPT_TEMPLATE)!
+}
+
+// Pull the JSON object out of replies wrapped in prose or code fences and fix common slips
+export function repairJson(text: string): unknown {
+  const start = text.indexOf("{")
+  const end = text.lastIndexOf("}")
+  if (start === -1 || end <= start) {
+    throw new AnalysisError("unparsable_output", "No JSON object found in model output")
+  }
+
+  const candidate = text.slice(start, end + 1)
+  try {
+    return JSON.parse(candidate)
+  } catch {
+    try {
+      return JSON.parse(candidate.replace(/,\s*([}\]])/g, "$1").replace(/[“”]/g, '"'))
+    } catch {
+      throw new AnalysisError("unparsable_output", "Model output is not valid JSON")
+    }
+  }
+}
+
+export function parseModelOutput(text: string): ModelAnalysis {
+  const parsed = modelAnalysisSchema.safeParse(repairJson(text))
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "root"}: ${issue.message}`)
+    throw new AnalysisError("schema_mismatch", `Model output does not match schema (${issues.join("; ")})`)
+  }
+  return parsed.data
+}
+
+async function generateText(
+  provider: AnalysisProvider,
+  request: GenerateRequest,
+  onEvent?: AnalyzeOptions["onEvent"],
+): Promise<string> {
+  if (!onEvent || !provider.generateStream) {
+    return provider.generate(request)
+  }
+
+  let text = ""
+  let lastFields = ""
+  for await (const delta of provider.generateStream(request)) {
+    text += delta
+    const fields = extractPartialFields(text)
+    const serialized = JSON.stringify(fields)
+    if (serialized !== lastFields && serialized !== "{}") {
+      lastFields = serialized
+      onEvent({ type: "partial", fields })
+    }
+  }
+
+  if (!text) {
+    throw new ProviderError("empty", "No response from analysis service")
+  }
+  return text
+}
+
+// Every submitted comment gets a row; ones the model skipped are reported as neutral
+function attachCommentStances(comments: DiscussionComment[], stances: ModelAnalysis["comments"]): CommentResult[] {
+  return comments.map((comment) => {
+    const stance = stances.find((entry) => entry.id === comment.id)
+    return {
+      id: comment.id,
+      stance: stance?.stance ?? "neutral",
+      reason: stance?.reason,
+      author: comment.author,
+      body: comment.body,
+      score: comment.score,
+      permalink: comment.permalink,
+    }
+  })
+}
+
+function delay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer)
+      resolve()
+    })
+  })
+}
+
+function inconclusiveResult(
+  error: AnalysisError,
+  extra: Pick<AnalysisResult, "citations" | "adversarial" | "promptVersion" | "language" | "outputLanguage">,
+): AnalysisResult {
+  const messages = MESSAGES[extra.outputLanguage ?? DEFAULT_LANGUAGE].analysis
+  return {
+    classification: "Inconclusive",
+    contentType: "Mixed",
+    confidence: 0,
+    explanation: error.code === "safety_block" ? messages.safetyBlocked : messages.inconclusive,
+    keyTerms: [],
+    verificationSources: [],
+    recommendations: messages.inconclusiveRecommendations,
+    claims: [],
+    comments: [],
+    failure: { code: error.code, message: error.message },
+    ...extra,
+    timestamp: new Date().toISOString(),
+  }
+}
+
+// Members run in parallel; ones that fail outright do not vote, and only if every member fails is the error raised
+async function analyzeWithEnsemble(content: string, ensemble: Ensemble, options: AnalyzeOptions) {
+  const { onEvent, ...memberOptions } = options
+  const sampled = ensemble.samples > 1
+  const members = ensemble.members.flatMap((member) => Array.from({ length: ensemble.samples }, () => member))
+
+  onEvent?.({ type: "stage", stage: "classifying" })
+  const settled = await Promise.allSettled(
+    members.map(
+      async (member): Promise<EnsembleRun> => ({
+        member,
+        result: await analyzeContent(content, {
+          ...memberOptions,
+          provider: member.provider,
+          ensemble: null,
+          ...(sampled ? { temperature: SAMPLING_TEMPERATURE, cache: null } : {}),
+        }),
+      }),
+    ),
+  )
+
+  const runs = settled.flatMap((outcome) => (outcome.status === "fulfilled" ? [outcome.value] : []))
+  if (!runs.length) throw (settled[0] as PromiseRejectedResult).reason
+  onEvent?.({ type: "stage", stage: "explaining" })
+  return aggregateVotes(runs, settled.length - runs.length, options.outputLanguage)
+}
+
+export async function analyzeContent(content: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+  if (!content || !content.trim()) {
+    throw new AnalysisError("invalid_request", "Content is required")
+  }
+  const maxLength = getMaxContentLength()
+  if (content.length > maxLength) {
+    throw new AnalysisError(
+      "content_too_large",
+      `Content is too long (${content.length.toLocaleString("en")} characters, ` +
+        `the limit is ${maxLength.toLocaleString("en")})`,
+    )
+  }
+  if (options.ensemble) return analyzeWithEnsemble(content, options.ensemble, options)
+
+  const { signal, onEvent, comments = [], outputLanguage = DEFAULT_LANGUAGE } = options
+  const provider = options.provider ?? getAnalysisProvider()
+
+  onEvent?.({ type: "stage", stage: "extracting" })
+  const template = options.promptTemplate ?? (await getActivePromptTemplate())
+  const promptVersion = promptTemplateId(template)
+  const retriever = options.retriever === undefined ? await getFactCheckRetriever() : options.retriever
+  const cache = options.cache === undefined ? getResultCache() : options.cache
+  const cacheKey = createCacheKey({
+    content,
+    comments,
+    promptVersion,
+    provider: provider.id,
+    model: provider.model,
+    corpus: retriever?.version,
+    outputLanguage,
+  })
+
+  const calibration =
+    options.calibration === undefined
+      ? await getActiveCalibration({ provider: provider.id, model: provider.model, promptVersion })
+      : options.calibration
+
+  const hardened = hardenInput(content, comments)
+  const language = detectLanguage(hardened.content.text)
+  // The cache holds raw confidence so a newly fitted calibration also applies to earlier results
+  const finish = (result: AnalysisResult) => guardVerdict(calibrateResult(result, calibration), hardened.report)
+  const attachSpans = (claims: ModelAnalysis["claims"]) =>
+    mapClaimSpans(hardened.content, attachClaimSpans(hardened.content.text, claims))
+
+  const hit = cache && !options.force ? await cache.get(cacheKey) : undefined
+  if (hit) {
+    // Near-duplicates can differ in spacing or case, so spans are located again in this copy of the text
+    return finish({
+      ...hit,
+      claims: attachSpans(hit.claims),
+      comments: attachCommentStances(comments, hit.comments),
+      adversarial: hardened.report,
+      cached: true,
+    })
+  }
+
+  const evidence = retriever ? retrieveForText(retriever, hardened.content.text) : []
+  const citeClaims = (claims: ClaimResult[]): ClaimResult[] =>
+    retriever
+      ? claims.map((claim) => ({ ...claim, citations: retriever.search(claim.text).map(toCitation) }))
+      : claims
+
+  const prompt = template.build({
+    content: hardened.content.text,
+    comments: hardened.comments,
+    adversarial: hardened.report.detected,
+    evidence,
+    language,
+    outputLanguage,
+  })
+
+  let nextPrompt = prompt
+  let lastError: AnalysisError | undefined
+  let retryDelay = 0
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    if (retryDelay) await delay(retryDelay, signal)
+
+    let generatedText: string
+    try {
+      onEvent?.({ type: "stage", stage: "classifying" })
+      generatedText = await generateText(
+        provider,
+        {
+          prompt: nextPrompt,
+          temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+          maxOutputTokens: 2000,
+          signal,
+        },
+        onEvent,
+      )
+    } catch (error) {
+      if (!(error instanceof ProviderError)) throw error
+      lastError = new AnalysisError(FAILURE_CODES[error.failure], error.message)
+      if (!error.retryable) break
+      retryDelay = retryDelay ? retryDelay * 2 : RETRY_DELAY_MS
+      continue
+    }
+
+    try {
+      const analysis = guardVerdict(parseModelOutput(generatedText), hardened.report)
+      onEvent?.({ type: "stage", stage: "explaining" })
+      const claims = citeClaims(attachSpans(analysis.claims))
+      const result: AnalysisResult = {
+        ...analysis,
+        explanation: renderExplanation(
+          analysis.explanation,
+          {
+            classification: analysis.classification,
+            quotes: analysis.claims.map((claim) => claim.text),
+            language: outputLanguage,
+          },
+          options.explanationSteps,
+        ),
+        claims,
+        comments: attachCommentStances(comments, analysis.comments),
+        citations: retriever
+          ? mergeCitations([...evidence, ...claims.flatMap((claim) => claim.citations ?? [])])
+          : undefined,
+        adversarial: hardened.report,
+        promptVersion,
+        language,
+        outputLanguage,
+        timestamp: new Date().toISOString(),
+      }
+      await cache?.set(cacheKey, result)
+      return finish({ ...result, cached: false })
+    } catch (error) {
+      if (!(error instanceof AnalysisError)) throw error
+      lastError = error
+      nextPrompt = buildRepairPrompt(prompt, generatedText, error.message)
+    }
+  }
+
+  if (lastError && INCONCLUSIVE_CODES.includes(lastError.code)) {
+    return inconclusiveResult(lastError, {
+      citations: retriever ? evidence : undefined,
+      adversarial: hardened.report,
+      promptVersion,
+      language,
+      outputLanguage,
+    })
+  }
+  throw lastError!
+}
+
+export async function analyzeUrl(
+  { url, commentLimit = 0 }: { url: string; commentLimit?: number },
+  options: AnalyzeOptions = {},
+): Promise<AnalysisResult> {
+  options.onEvent?.({ type: "stage", stage: "fetching" })
+
+  let ingested
+  try {
+    ingested = await ingestUrl(url, {
+      fetcher: options.fetcher,
+      maxChars: getMaxContentLength(),
+      commentLimit: Math.min(Math.max(0, commentLimit), MAX_COMMENT_LIMIT),
+    })
+  } catch (error) {
+    if (error instanceof IngestError) {
+      const code = error.code === "invalid_url" || error.code === "blocked_url" ? "invalid_url" : "fetch_failed"
+      throw new AnalysisError(code, error.message)
+    }
+    throw error
+  }
+
+  const { source, comments } = ingested
+  const result = await analyzeContent(source.text, { ...options, comments })
+  return { ...result, source }
+}
+
+// URL submissions keep only the URL; the fetched text is already part of the result's source
+export function storedInput({ content, url }: AnalysisInput) {
+  return url?.trim() ? { url: url.trim() } : { content }
+}
+
+// Entry point for routes: a URL is fetched and extracted server-side, plain text is analyzed as-is
+export function analyzeInput({ content, url, commentLimit }: AnalysisInput, options: AnalyzeOptions = {}) {
+  if (url?.trim()) {
+    return analyzeUrl({ url, commentLimit }, options)
+  }
+  return analyzeContent(content ?? "", options)
+}
@@ -0,0 +1,32 @@
+import type { Claim, ClaimResult, ClaimSpan } from "./schema"
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+// Find the claim quote in the content, tolerating case and whitespace differences
+export function locateClaim(content: string, text: string, fromIndex = 0): ClaimSpan | null {
+  const quote = text.trim().replace(/^["'“”]+|["'“”]+$/g, "")
+  if (!quote) return null
+
+  const exact = content.indexOf(quote, fromIndex)
+  if (exact !== -1) return { start: exact, end: exact + quote.length }
+
+  const words = quote.split(/\s+/).map(escapeRegExp)
+  const pattern = new RegExp(words.join("\\s+"), "gi")
+  pattern.lastIndex = fromIndex
+  const match = pattern.exec(content)
+  if (match) return { start: match.index, end: match.index + match[0].length }
+
+  return fromIndex > 0 ? locateClaim(content, text, 0) : null
+}
+
+// Claims are usually listed in reading order, so search forward from the previous match first
+export function attachClaimSpans(content: string, claims: Claim[]): ClaimResult[] {
+  let cursor = 0
+  return claims.map((claim) => {
+    const span = locateClaim(content, claim.text, cursor)
+    if (span) cursor = span.end
+    return { ...claim, span }
+  })
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest"
+import type { Calibration } from "@/lib/calibration"
+import { DEFAULT_PROMPT_TEMPLATE, getPromptTemplate } from "@/lib/prompts"
+import { type AnalysisProvider, createMockProvider } from "@/lib/providers"
+import { analyzeContent } from "./analyze"
+import type { Ensemble } from "./ensemble"
+import type { Classification } from "./schema"
+
+const reply = (classification: Classification, confidence: number) => () =>
+  JSON.stringify({ classification, contentType: "Claim", confidence, explanation: `Looks like ${classification}.` })
+
+const member = (provider: AnalysisProvider, weight = 1) => ({ provider, weight })
+
+// Halves every confidence, so calibrated and raw values are easy to tell apart
+const halving: Calibration = {
+  map: { method: "isotonic", thresholds: [0, 1], values: [0, 0.5] },
+  provider: "mock",
+  model: "mock-heuristic",
+  promptVersion: DEFAULT_PROMPT_TEMPLATE,
+  samples: 100,
+  fittedAt: "2024-01-01T00:00:00.000Z",
+}
+
+const analyze = (ensemble: Ensemble, calibration: Calibration | null = null) =>
+  analyzeContent("5G towers spread the virus.", {
+    ensemble,
+    calibration,
+    cache: null,
+    retriever: null,
+    promptTemplate: getPromptTemplate(DEFAULT_PROMPT_TEMPLATE),
+  })
+
+describe("ensemble analysis", () => {
+  it("keeps the weighted confidence when every member agrees", async () => {
+    const result = await analyze({
+      members: [
+        member(createMockProvider({ respond: reply("Disinformation", 90) }), 2),
+        member(createMockProvider({ respond: reply("Disinformation", 60) })),
+      ],
+      samples: 1,
+    })
+
+    expect(result).toMatchObject({ classification: "Disinformation", confidence: 80 })
+    expect(result.ensemble).toMatchObject({ agreement: 1, unanimous: true, failed: 0 })
+  })
+
+  it("shrinks the confidence by the share of weight behind the winner when members disagree", async () => {
+    const result = await analyze({
+      members: [
+        member(createMockProvider({ respond: reply("Disinformation", 90) }), 3),
+        member(createMockProvider({ respond: reply("Not Disinformation", 80) })),
+      ],
+      samples: 1,
+    })
+
+    expect(result).toMatchObject({ classification: "Disinformation", confidence: 68 })
+    expect(result.ensemble).toMatchObject({ agreement: 0.75, unanimous: false })
+    expect(result.explanation).toContain("1 Disinformation, 1 Not Disinformation")
+  })
+
+  it("votes without members that fail and only fails when all of them do", async () => {
+    const down = { ...createMockProvider(), generate: () => Promise.reject(new Error("connection refused")) }
+    const result = await analyze({
+      members: [member(createMockProvider({ respond: reply("Disinformation", 70) })), member(down)],
+      samples: 1,
+    })
+
+    expect(result).toMatchObject({ classification: "Disinformation", confidence: 70 })
+    expect(result.ensemble).toMatchObject({ agreement: 1, failed: 1 })
+    await expect(analyze({ members: [member(down)], samples: 1 })).rejects.toThrow("connection refused")
+  })
+
+  it("reports the raw confidence combined from the members' raw scores", async () => {
+    const result = await analyze(
+      {
+        members: [
+          member(createMockProvider({ respond: reply("Disinformation", 90) })),
+          member(createMockProvider({ respond: reply("Disinformation", 70) })),
+          member(createMockProvider({ respond: reply("Not Disinformation", 80) })),
+        ],
+        samples: 1,
+      },
+      halving,
+    )
+
+    // Agreement is 0.67: calibrated votes of 45 and 35 give 27, the raw 90 and 70 give 54
+    expect(result.confidence).toBe(27)
+    expect(result.calibration).toEqual({ method: "isotonic", rawConfidence: 54 })
+  })
+})
@@ -0,0 +1,130 @@
+import { DEFAULT_LANGUAGE, type Language, MESSAGES } from "@/lib/i18n"
+import { type AnalysisProvider, type ProviderId, createProvider } from "@/lib/providers"
+import { AnalysisError } from "./errors"
+import { type AnalysisResult, CLASSIFICATIONS, type Classification, type EnsembleVote } from "./schema"
+
+export interface EnsembleMember {
+  provider: AnalysisProvider
+  weight: number
+}
+
+export interface Ensemble {
+  members: EnsembleMember[]
+  // Runs per member; more than one samples each model at a higher temperature
+  samples: number
+}
+
+const MODEL_ENV: Record<ProviderId, string> = {
+  gemini: "GEMINI_MODEL",
+  openai: "OPENAI_MODEL",
+  ollama: "OLLAMA_MODEL",
+  mock: "MOCK_MODEL",
+}
+
+// "gemini, openai:gpt-4o-mini*2, ollama:llama3" – provider, optional model, optional weight (default 1)
+export function parseEnsembleSpec(spec: string, env: NodeJS.ProcessEnv = process.env): EnsembleMember[] {
+  return spec
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = /^([a-z]+)(?::([^*]+))?(?:\*(\d+(?:\.\d+)?))?$/.exec(entry)
+      if (!match || !(match[1] in MODEL_ENV)) throw new Error(`Invalid ensemble member: ${entry}`)
+      const id = match[1] as ProviderId
+      const model = match[2]?.trim()
+      return {
+        provider: createProvider(id, model ? { ...env, [MODEL_ENV[id]]: model } : env),
+        weight: match[3] ? Number(match[3]) : 1,
+      }
+    })
+}
+
+// Null when ANALYSIS_ENSEMBLE is unset, in which case ensemble mode is unavailable
+export function getEnsemble(env: NodeJS.ProcessEnv = process.env): Ensemble | null {
+  const members = parseEnsembleSpec(env.ANALYSIS_ENSEMBLE ?? "", env)
+  if (!members.length) return null
+  const samples = Number.parseInt(env.ANALYSIS_ENSEMBLE_SAMPLES ?? "", 10)
+  return { members, samples: Number.isFinite(samples) && samples > 0 ? samples : 1 }
+}
+
+// A request's "mode"; requests that do not say follow ANALYSIS_MODE
+export function resolveEnsemble(mode: unknown, env: NodeJS.ProcessEnv = process.env): Ensemble | null {
+  const ensemble = (mode ?? env.ANALYSIS_MODE) === "ensemble" ? getEnsemble(env) : null
+  if (mode === "ensemble" && !ensemble) {
+    throw new AnalysisError("invalid_request", "Ensemble mode is not configured on this server")
+  }
+  return ensemble
+}
+
+// Model runs one analysis makes, which is what the daily quota counts
+export function countModelRuns(ensemble: Ensemble | null) {
+  return ensemble ? ensemble.members.length * ensemble.samples : 1
+}
+
+export interface EnsembleRun {
+  member: EnsembleMember
+  result: AnalysisResult
+}
+
+function describeSplit(votes: EnsembleVote[]) {
+  const counts = new Map<Classification, number>()
+  for (const vote of votes) counts.set(vote.classification, (counts.get(vote.classification) ?? 0) + 1)
+  return [...counts]
+    .sort((a, b) => b[1] - a[1])
+    .map(([classification, count]) => `${count} ${classification}`)
+    .join(", ")
+}
+
+// Weighted vote: each run counts its member's weight times its confidence. Agreement is the share of voting
+// weight behind the winner, and the confidence shrinks by the same factor so a split verdict never looks certain.
+export function aggregateVotes(runs: EnsembleRun[], failed = 0, language: Language = DEFAULT_LANGUAGE): AnalysisResult {
+  const votes: EnsembleVote[] = runs.map(({ member, result }) => ({
+    provider: member.provider.id,
+    model: member.provider.model,
+    weight: member.weight,
+    classification: result.classification,
+    confidence: result.confidence,
+  }))
+
+  const decisive = runs.filter(({ result }) => result.classification !== "Inconclusive")
+  if (!decisive.length) return { ...runs[0].result, ensemble: { agreement: 0, unanimous: false, votes, failed } }
+
+  const scores = new Map<Classification, number>()
+  for (const { member, result } of decisive) {
+    const score = (member.weight * result.confidence) / 100
+    scores.set(result.classification, (scores.get(result.classification) ?? 0) + score)
+  }
+  // Ties go to the class listed first in CLASSIFICATIONS, which puts Disinformation ahead of an all-clear
+  const winner = CLASSIFICATIONS.filter((classification) => scores.has(classification)).reduce((best, classification) =>
+    scores.get(classification)! > scores.get(best)! ? classification : best,
+  )
+
+  const totalWeight = runs.reduce((sum, { member }) => sum + member.weight, 0)
+  const winners = decisive.filter(({ result }) => result.classification === winner)
+  const winningWeight = winners.reduce((sum, { member }) => sum + member.weight, 0)
+  const agreement = totalWeight ? Math.round((winningWeight / totalWeight) * 100) / 100 : 0
+  const combined = (confidence: (result: AnalysisResult) => number) =>
+    Math.round(
+      (winners.reduce((sum, { member, result }) => sum + member.weight * confidence(result), 0) / winningWeight) *
+        agreement,
+    )
+  // Members are calibrated one by one, so the raw confidence is combined from theirs in the same way
+  const calibrated = winners.find(({ result }) => result.calibration)?.result.calibration
+  const unanimous = winners.length === runs.length
+
+  // The most confident run on the winning side supplies the explanation, claims and sources
+  const lead = winners.reduce((best, run) => (run.result.confidence > best.result.confidence ? run : best)).result
+  return {
+    ...lead,
+    classification: winner,
+    confidence: combined((result) => result.confidence),
+    calibration: calibrated && {
+      method: calibrated.method,
+      rawConfidence: combined((result) => result.calibration?.rawConfidence ?? result.confidence),
+    },
+    explanation: unanimous
+      ? lead.explanation
+      : `${lead.explanation} ${MESSAGES[language].analysis.ensembleDisagreement(describeSplit(votes))}`,
+    ensemble: { agreement, unanimous, votes, failed },
+  }
+}
@@ -0,0 +1,57 @@
+import type { AnalysisErrorCode, AnalysisErrorResponse } from "./schema"
+
+const statusByCode: Record<AnalysisErrorCode, number> = {
+  invalid_request: 400,
+  invalid_url: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  content_too_large: 413,
+  rate_limited: 429,
+  fetch_failed: 502,
+  provider_error: 502,
+  upstream_error: 502,
+  empty_response: 502,
+  unparsable_output: 502,
+  schema_mismatch: 502,
+  safety_block: 422,
+  ocr_failed: 502,
+}
+
+export class AnalysisError extends Error {
+  constructor(
+    public readonly code: AnalysisErrorCode,
+    message: string,
+  ) {
+    super(message)
+    this.name = "AnalysisError"
+  }
+
+  get status() {
+    return statusByCode[this.code]
+  }
+}
+
+const UNAVAILABLE_MESSAGE = "Analysis temporarily unavailable. Please try again."
+
+// Errors caused by the request carry messages the caller can act on; the rest stay generic
+const USER_FACING_CODES: AnalysisErrorCode[] = [
+  "invalid_request",
+  "invalid_url",
+  "fetch_failed",
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "content_too_large",
+  "rate_limited",
+]
+
+export function toErrorResponse(error: unknown): { body: AnalysisErrorResponse; status: number } {
+  if (error instanceof AnalysisError) {
+    return {
+      body: { error: USER_FACING_CODES.includes(error.code) ? error.message : UNAVAILABLE_MESSAGE, code: error.code },
+      status: error.status,
+    }
+  }
+  return { body: { error: UNAVAILABLE_MESSAGE, code: "provider_error" }, status: 500 }
+}
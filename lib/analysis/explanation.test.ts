@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest"
+import { LANGUAGES } from "@/lib/i18n/languages"
+import {
+  DEFAULT_EXPLANATION_CONFIG,
+  type ExplanationContext,
+  addOpening,
+  removeDisclaimers,
+  renderExplanation,
+  tidyWhitespace,
+} from "./explanation"
+import { CLASSIFICATIONS } from "./schema"
+
+const { disclaimerSentences, disclaimerClauses, openings } = DEFAULT_EXPLANATION_CONFIG
+
+const context = (overrides: Partial<ExplanationContext> = {}): ExplanationContext => ({
+  classification: "Inconclusive",
+  quotes: [],
+  ...overrides,
+})
+
+// Sentences per disclaimerSentences pattern, in the same order; with a comma they would be cut as clauses instead
+const DISCLAIMER_SENTENCES = [
+  ["As an AI I cannot be certain.", "As a large language model I lack context."],
+  ["I'm just an AI model.", "I’m only an AI.", "I am a language model."],
+  [
+    "I cannot browse the internet.",
+    "I can't access real-time data.",
+    "I can’t verify live sources.",
+    "I’m unable to check current news.",
+  ],
+  ["I don't have real-time information.", "I don’t have access to live data."],
+  ["Please note that I may be wrong.", "Keep in mind this analysis was generated automatically."],
+  ["Como IA no puedo opinar.", "Como un modelo de lenguaje tengo límites."],
+  ["No puedo navegar internet.", "No puedo verificar información en tiempo real."],
+]
+
+// Each clause is cut and the rest of its sentence kept, capitalized
+const DISCLAIMER_CLAUSES = [
+  ["As an AI language model, the claim is false.", "The claim is false."],
+  ["Based on my training data up to 2023, the vaccine is approved.", "The vaccine is approved."],
+  ["Como IA entrenada, la cifra es falsa.", "La cifra es falsa."],
+]
+
+describe("removeDisclaimers", () => {
+  const remove = removeDisclaimers(DEFAULT_EXPLANATION_CONFIG)
+
+  it("has examples for every disclaimer pattern", () => {
+    expect(DISCLAIMER_SENTENCES).toHaveLength(disclaimerSentences.length)
+    expect(DISCLAIMER_CLAUSES).toHaveLength(disclaimerClauses.length)
+  })
+
+  it.each(DISCLAIMER_SENTENCES.flatMap((sentences, index) => sentences.map((sentence) => ({ index, sentence }))))(
+    "pattern $index drops $sentence",
+    ({ index, sentence }) => {
+      expect(disclaimerSentences[index].test(sentence)).toBe(true)
+      expect(remove(`${sentence} The photo is edited.`, context())).toBe("The photo is edited.")
+    },
+  )
+
+  it.each(DISCLAIMER_CLAUSES.map(([sentence, kept], index) => ({ index, sentence, kept })))(
+    "clause $index cuts $sentence",
+    ({ index, sentence, kept }) => {
+      expect(disclaimerClauses[index].test(sentence)).toBe(true)
+      expect(remove(sentence, context())).toBe(kept)
+    },
+  )
+
+  it("keeps sentences that only mention AI or access", () => {
+    const text = "The account claims to be an AI. Officials don't have access to the report."
+    expect(remove(text, context())).toBe(text)
+  })
+})
+
+describe("renderExplanation", () => {
+  it("leaves quoted passages untouched", () => {
+    const explanation = 'The post says "As an AI, I cannot verify this." and “I don’t have live data.” as jokes.'
+    expect(renderExplanation(explanation, context())).toBe(explanation)
+  })
+
+  it("leaves claim quotes untouched even without quotation marks", () => {
+    const quote = "As an AI model I can't browse the web"
+    const explanation = `The author writes ${quote} to sound credible.`
+    expect(renderExplanation(explanation, context({ quotes: [quote] }))).toBe(explanation)
+  })
+
+  it("tidies whitespace outside quotes", () => {
+    expect(tidyWhitespace("  Too   many , spaces .  ", context())).toBe("Too many, spaces.")
+  })
+})
+
+describe("addOpening", () => {
+  const open = addOpening(DEFAULT_EXPLANATION_CONFIG)
+
+  it.each(LANGUAGES.flatMap((language) => CLASSIFICATIONS.map((classification) => ({ language, classification }))))(
+    "renders the same $language opening for $classification every time",
+    ({ language, classification }) => {
+      const explanation = "As an AI, the claim is unsupported."
+      const render = () => renderExplanation(explanation, context({ classification, language }))
+      const opening = openings[language][classification]
+      expect(render()).toBe(opening ? `${opening} The claim is unsupported.` : "The claim is unsupported.")
+      expect(render()).toBe(render())
+    },
+  )
+
+  it("does not repeat an opening the model already wrote", () => {
+    const text = `${openings.en.Disinformation} The dates do not match.`
+    expect(open(text, context({ classification: "Disinformation" }))).toBe(text)
+  })
+
+  it("defaults to English", () => {
+    const opening = openings.en["NSFW Content"]
+    expect(open("Details.", context({ classification: "NSFW Content" }))).toBe(`${opening} Details.`)
+  })
+})
@@ -0,0 +1,137 @@
+import { DEFAULT_LANGUAGE, type Language } from "@/lib/i18n/languages"
+import type { Classification } from "./schema"
+
+export interface ExplanationContext {
+  classification: Classification
+  // Language the explanation is written in; picks the opening sentence
+  language?: Language
+  // Verbatim source text (e.g. claim quotes) that must survive rendering untouched
+  quotes: string[]
+}
+
+export type ExplanationStep = (text: string, context: ExplanationContext) => string
+
+export interface ExplanationConfig {
+  // A sentence starting with one of these is dropped entirely
+  disclaimerSentences: RegExp[]
+  // A leading clause matching one of these is cut, keeping the rest of the sentence
+  disclaimerClauses: RegExp[]
+  // Fixed sentence put in front of the explanation, per language and verdict; omit a verdict to add none
+  openings: Record<Language, Partial<Record<Classification, string>>>
+}
+
+export const DEFAULT_EXPLANATION_CONFIG: ExplanationConfig = {
+  // Models write apostrophes both straight and curly, so contractions accept either
+  disclaimerSentences: [
+    /^as an? (?:ai|artificial intelligence|language model|ai model|large language model)\b/i,
+    /^(?:i['’]m|i am) (?:just |only )?an? (?:ai|artificial intelligence|language model|ai model)\b/i,
+    /^i(?: cannot| can['’]t| can not| am unable to|['’]m unable to) (?:browse|access|verify|search|check) (?:the )?(?:internet|web|real-time|live|external|current)\b/i,
+    /^i don['’]t have (?:access to |the ability to )?(?:real-time|live|internet|browsing|current)\b/i,
+    /^(?:please )?(?:note|keep in mind)(?: that)? (?:i|as an ai|this analysis was generated)\b/i,
+    /^como (?:una? )?(?:ia|inteligencia artificial|modelo de lenguaje)\b/i,
+    /^no (?:puedo|tengo acceso a) (?:navegar|acceder a|verificar) (?:internet|la web|información en tiempo real)\b/i,
+  ],
+  disclaimerClauses: [
+    /^as an? (?:ai|artificial intelligence|language model|ai model|large language model)(?: [^,.!?]{0,40})?,\s*/i,
+    /^based on my (?:training data|knowledge cutoff)(?: [^,.!?]{0,40})?,\s*/i,
+    /^como (?:una? )?(?:ia|inteligencia artificial|modelo de lenguaje)(?: [^,.!?]{0,40})?,\s*/i,
+  ],
+  openings: {
+    en: {
+      Disinformation: "This content appears to contain disinformation.",
+      "Not Disinformation": "This appears credible.",
+      "NSFW Content": "This contains adult content.",
+    },
+    es: {
+      Disinformation: "Este contenido parece contener desinformación.",
+      "Not Disinformation": "Esto parece creíble.",
+      "NSFW Content": "Esto contiene contenido para adultos.",
+    },
+    hi: {
+      Disinformation: "इस सामग्री में दुष्प्रचार प्रतीत होता है।",
+      "Not Disinformation": "यह विश्वसनीय प्रतीत होता है।",
+      "NSFW Content": "इसमें वयस्क सामग्री है।",
+    },
+    ar: {
+      Disinformation: "يبدو أن هذا المحتوى يتضمن معلومات مضللة.",
+      "Not Disinformation": "يبدو هذا موثوقًا.",
+      "NSFW Content": "يحتوي هذا على محتوى للبالغين.",
+    },
+  },
+}
+
+const PLACEHOLDER = (index: number) => `\u0000${index}\u0000`
+const QUOTED_PATTERN = /"[^"\n]+"|“[^”\n]+”|«[^»\n]+»/g
+
+// Swap quoted passages for placeholders so later steps cannot alter them
+function protectQuotes(text: string, quotes: string[]) {
+  const protectedParts: string[] = []
+  const hold = (value: string) => {
+    protectedParts.push(value)
+    return PLACEHOLDER(protectedParts.length - 1)
+  }
+
+  let result = text.replace(QUOTED_PATTERN, hold)
+  for (const quote of [...quotes].sort((a, b) => b.length - a.length)) {
+    const trimmed = quote.trim()
+    if (trimmed.length >= 8) result = result.split(trimmed).join(hold(trimmed))
+  }
+
+  return {
+    text: result,
+    restore: (value: string) =>
+      value.replace(/\u0000(\d+)\u0000/g, (_, index: string) => protectedParts[Number(index)]),
+  }
+}
+
+// Also ends sentences at the Devanagari danda and the Arabic question mark
+function splitSentences(text: string) {
+  return text.match(/[^.!?।؟]+(?:[.!?।؟]+|$)\s*/g) ?? []
+}
+
+function capitalize(text: string) {
+  return text.replace(/^\s*([a-z])/, (match) => match.toUpperCase())
+}
+
+export function removeDisclaimers(config: ExplanationConfig): ExplanationStep {
+  return (text) =>
+    splitSentences(text)
+      .map((sentence) => {
+        // "As an AI, I think X" keeps "I think X"; only what is left is judged as a whole sentence
+        const clause = config.disclaimerClauses.find((pattern) => pattern.test(sentence.trimStart()))
+        const remaining = clause ? capitalize(sentence.trimStart().replace(clause, "")) : sentence
+        return config.disclaimerSentences.some((pattern) => pattern.test(remaining.trimStart())) ? "" : remaining
+      })
+      .join("")
+}
+
+export function addOpening(config: ExplanationConfig): ExplanationStep {
+  return (text, { classification, language = DEFAULT_LANGUAGE }) => {
+    const opening = config.openings[language][classification]
+    if (!opening || text.trimStart().startsWith(opening)) return text
+    return `${opening} ${text}`
+  }
+}
+
+export const tidyWhitespace: ExplanationStep = (text) =>
+  text
+    .replace(/[ \t]+/g, " ")
+    .replace(/ +([,.!?;:،؟।])/g, "$1")
+    .trim()
+
+export function createExplanationPipeline(config: ExplanationConfig = DEFAULT_EXPLANATION_CONFIG): ExplanationStep[] {
+  return [removeDisclaimers(config), addOpening(config), tidyWhitespace]
+}
+
+const defaultPipeline = createExplanationPipeline()
+
+// Deterministic: the same explanation, verdict and quotes always render to the same text
+export function renderExplanation(
+  explanation: string,
+  context: ExplanationContext,
+  steps: ExplanationStep[] = defaultPipeline,
+): string {
+  const { text, restore } = protectQuotes(explanation, context.quotes)
+  const rendered = steps.reduce((current, step) => step(current, context), text)
+  return restore(rendered)
+}
@@ -0,0 +1,225 @@
+import type {
+  AdversarialFinding,
+  AdversarialFindingKind,
+  AdversarialReport,
+  ClaimResult,
+  ClaimSpan,
+  Classification,
+} from "./schema"
+
+// Text plus, for every character, the range of the original input it came from
+interface MappedText {
+  text: string
+  starts: number[]
+  ends: number[]
+}
+
+export interface HardenedText {
+  text: string
+  findings: Omit<AdversarialFinding, "location">[]
+  // Translate a span in the hardened text back to the submitted text
+  toOriginalSpan(span: ClaimSpan): ClaimSpan
+}
+
+export interface HardenedInput {
+  content: HardenedText
+  comments: { id: string; body: string }[]
+  report: AdversarialReport
+}
+
+export const INSTRUCTION_PLACEHOLDER = "[instruction removed]"
+
+// Input that tries to steer the verdict cannot also earn a confident all-clear
+const ADVERSARIAL_CONFIDENCE_CAP = 60
+
+const EMOJI = "[\\p{Extended_Pictographic}\\p{Emoji_Modifier}\\ufe0f]"
+// Scripts that spell with ZWJ and ZWNJ, to pick a conjunct or a joining form
+const JOINING_SCRIPT =
+  "[\\p{sc=Arabic}\\p{sc=Syriac}\\p{sc=Devanagari}\\p{sc=Bengali}\\p{sc=Gurmukhi}\\p{sc=Gujarati}" +
+  "\\p{sc=Oriya}\\p{sc=Tamil}\\p{sc=Telugu}\\p{sc=Kannada}\\p{sc=Malayalam}\\p{sc=Sinhala}]"
+const RTL_LETTER = "[\\p{sc=Arabic}\\p{sc=Hebrew}\\p{sc=Syriac}\\p{sc=Thaana}\\p{sc=Nko}]"
+
+// Joiners inside an emoji sequence or a joining script are part of the spelling and stay
+const ZERO_WIDTH_PATTERN = new RegExp(
+  "[\\u00ad\\u180e\\u200b\\u2060-\\u2064\\ufeff]|" +
+    `(?!(?<=${EMOJI})\\u200d(?=${EMOJI})|(?<=${JOINING_SCRIPT})[\\u200c\\u200d](?=${JOINING_SCRIPT}))[\\u200c\\u200d]`,
+  "gu",
+)
+// Overrides and isolates reorder what the reader sees; plain directional marks only nudge punctuation
+const BIDI_CONTROL_PATTERN = /[\u202a-\u202e\u2066-\u2069]/g
+// Marks next to right-to-left text are kept; elsewhere they do nothing useful and are dropped quietly
+const DIRECTIONAL_MARK_PATTERN = new RegExp(
+  `(?<!${RTL_LETTER}\\P{L}{0,3})[\\u061c\\u200e\\u200f](?!\\P{L}{0,3}${RTL_LETTER})`,
+  "gu",
+)
+// Unicode tag characters mirror ASCII and render as nothing, a known way to smuggle instructions
+const TAG_CHARACTER_PATTERN = /(?:\udb40[\udc00-\udc7f])+/g
+const HIDDEN_MARKUP_PATTERN = /<!--[\s\S]*?-->|^\[\/\/\]: # \(.*\)$/gm
+
+// Cyrillic and Greek letters that render like Latin ones
+const CONFUSABLES: Record<string, string> = Object.fromEntries(
+  [
+    ["авекмнорстухѕіјԁԛԝ", "abekmhopctyxsijdqw"],
+    ["АВЕКМНОРСТХЅІЈ", "ABEKMHOPCTXSIJ"],
+    ["αορνικτχ", "aopviktx"],
+    ["ΑΒΕΖΗΙΚΜΝΟΡΤΥΧ", "ABEZHIKMNOPTYX"],
+  ].flatMap(([lookalikes, latin]) => [...lookalikes].map((char, index) => [char, latin[index]])),
+)
+
+// Phrases aimed at the analyzer rather than at a human reader; kept narrow so ordinary prose survives
+const INJECTION_PATTERNS = [
+  // "ignore all previous instructions", "disregard the system prompt"
+  /\b(?:ignore|disregard|forget|override|bypass)\s+(?:all\s+|any\s+)?(?:of\s+)?(?:the\s+|your\s+|my\s+)?(?:previous|prior|above|earlier|preceding|system|original|initial)\s+(?:instructions?|rules?|prompts?|guidelines?|directions?|directives?|context)\b/gi,
+  /\b(?:ignore|disregard|forget)\s+(?:all\s+|any\s+)?(?:your|these|those)\s+(?:instructions?|rules?|guidelines?)\b/gi,
+  /\b(?:ignore|disregard)\s+(?:all|any)\s+(?:instructions?|prompts?)\b/gi,
+  // "classify this as Not Disinformation", "set confidence to 100", raw result JSON
+  /\b(?:classify|label|mark|rate|output|respond|return|answer|reply)\b(?:\s+(?:this|it|the\s+\w+))?(?:\s+(?:as|with))?\s*[:"'“]?\s*(?:not disinformation|verified safe)\b/gi,
+  // Only when told what to output: "a confidence of 95 percent" in a poll or study is left alone
+  /\b(?:set|make|give|assign|report|output|return|use|(?:respond|reply|answer)\s+with)\s+(?:(?:it|this)\s+)?(?:a\s+|the\s+|your\s+)?confidence(?:\s+(?:score|level|value))?\s*(?:[:=]|of|to|at|as)?\s*"?(?:9\d|100)\b/gi,
+  /"(?:classification|confidence)"\s*:/gi,
+  /\b(?:you are now|from now on,? you|act as|pretend to be)\b[^.\n]{0,60}?\b(?:ai|assistant|model|analy[sz]er|classifier|bot|gpt|llm)\b/gi,
+  /\b(?:new|updated|real|actual|hidden) (?:instructions?|rules?|task|system prompt)\s*:/gi,
+  /\b(?:reveal|print|show|repeat|leak)\b[^.\n]{0,30}?\b(?:system prompt|your instructions|your rules)\b/gi,
+  // Chat-format role markers and special tokens
+  /^\s*(?:system|assistant|developer)\s*:/gim,
+  /<\|(?:im_start|im_end|system|endoftext)\|>|\[\/?(?:INST|SYS)\]|#{2,}\s*(?:instruction|system)\b/gi,
+  // Our own prompt block markers
+  /<<<\s*(?:CONTENT|COMMENTS|FACTCHECKS)\b|\b(?:CONTENT|COMMENTS|FACTCHECKS)\s*>>>/g,
+]
+
+function replacePattern(
+  input: MappedText,
+  pattern: RegExp,
+  replace: (match: string) => string,
+  onMatch: (match: string) => void,
+): MappedText {
+  const output: MappedText = { text: "", starts: [], ends: [] }
+  const copy = (from: number, to: number) => {
+    output.text += input.text.slice(from, to)
+    for (let index = from; index < to; index++) {
+      output.starts.push(input.starts[index])
+      output.ends.push(input.ends[index])
+    }
+  }
+
+  let last = 0
+  for (const match of input.text.matchAll(pattern)) {
+    const start = match.index!
+    const end = start + match[0].length
+    const replacement = replace(match[0])
+    copy(last, start)
+    onMatch(match[0])
+    output.text += replacement
+    for (let index = 0; index < replacement.length; index++) {
+      // Same-length replacements keep per-character positions; anything else covers the whole match
+      const same = replacement.length === match[0].length
+      output.starts.push(input.starts[same ? start + index : start])
+      output.ends.push(input.ends[same ? start + index : end - 1])
+    }
+    last = end
+  }
+  copy(last, input.text.length)
+  return output
+}
+
+function decodeTagCharacters(value: string) {
+  return [...value].map((char) => String.fromCharCode(char.codePointAt(0)! - 0xe0000)).join("")
+}
+
+// Only fold words that mix scripts, so genuine Cyrillic or Greek text is left alone
+function foldHomoglyphs(word: string) {
+  if (!/[a-z]/i.test(word) || ![...word].some((char) => char in CONFUSABLES)) return word
+  return [...word].map((char) => CONFUSABLES[char] ?? char).join("")
+}
+
+function excerpt(value: string) {
+  const collapsed = value.replace(/\s+/g, " ").trim()
+  return collapsed.length > 80 ? `${collapsed.slice(0, 77)}...` : collapsed
+}
+
+// Strip invisible and lookalike characters, drop hidden markup and defuse instruction-like phrases.
+// Every step is deterministic, so identical input always yields identical prompts.
+export function hardenText(content: string): HardenedText {
+  const findings = new Map<AdversarialFindingKind, { count: number; sample?: string }>()
+  const record = (kind: AdversarialFindingKind, sample?: string) => {
+    const finding = findings.get(kind) ?? { count: 0 }
+    finding.count++
+    if (!finding.sample && sample) finding.sample = excerpt(sample)
+    findings.set(kind, finding)
+  }
+  const drop = () => ""
+
+  // Positions are per UTF-16 code unit so they line up with string offsets
+  let mapped: MappedText = {
+    text: content,
+    starts: Array.from({ length: content.length }, (_, index) => index),
+    ends: Array.from({ length: content.length }, (_, index) => index + 1),
+  }
+
+  mapped = replacePattern(mapped, TAG_CHARACTER_PATTERN, drop, (match) =>
+    record("hidden_instruction", decodeTagCharacters(match)),
+  )
+  mapped = replacePattern(mapped, ZERO_WIDTH_PATTERN, drop, () => record("zero_width"))
+  mapped = replacePattern(mapped, BIDI_CONTROL_PATTERN, drop, () => record("bidi_control"))
+  mapped = replacePattern(mapped, DIRECTIONAL_MARK_PATTERN, drop, () => {})
+  mapped = replacePattern(mapped, HIDDEN_MARKUP_PATTERN, drop, (match) => {
+    if (/\p{L}{2,}/u.test(match)) record("hidden_instruction", match)
+  })
+  mapped = replacePattern(mapped, /[\p{L}\p{M}]+/gu, foldHomoglyphs, (match) => {
+    if (foldHomoglyphs(match) !== match) record("homoglyph", match)
+  })
+  for (const pattern of INJECTION_PATTERNS) {
+    mapped = replacePattern(
+      mapped,
+      pattern,
+      () => INSTRUCTION_PLACEHOLDER,
+      (match) => record("injection", match),
+    )
+  }
+
+  const { text, starts, ends } = mapped
+  return {
+    text,
+    findings: [...findings].map(([kind, finding]) => ({ kind, ...finding })),
+    toOriginalSpan({ start, end }) {
+      if (end <= start || start >= starts.length) return { start, end }
+      return { start: starts[start], end: ends[Math.min(end, ends.length) - 1] }
+    },
+  }
+}
+
+export function hardenInput(content: string, comments: { id: string; body: string }[] = []): HardenedInput {
+  const hardenedContent = hardenText(content)
+  const findings: AdversarialFinding[] = hardenedContent.findings.map((finding) => ({
+    ...finding,
+    location: "content",
+  }))
+
+  const hardenedComments = comments.map((comment) => {
+    const hardened = hardenText(comment.body)
+    findings.push(...hardened.findings.map((finding) => ({ ...finding, location: `comment ${comment.id}` })))
+    return { id: comment.id, body: hardened.text }
+  })
+
+  return {
+    content: hardenedContent,
+    comments: hardenedComments,
+    report: { detected: findings.length > 0, findings },
+  }
+}
+
+// Claims quote the hardened text the model saw; spans are reported against what the user submitted
+export function mapClaimSpans(hardened: HardenedText, claims: ClaimResult[]): ClaimResult[] {
+  return claims.map((claim) => (claim.span ? { ...claim, span: hardened.toOriginalSpan(claim.span) } : claim))
+}
+
+export function guardVerdict<T extends { classification: Classification; confidence: number }>(
+  analysis: T,
+  report: AdversarialReport,
+): T {
+  const steering = report.findings.some(
+    (finding) => finding.kind === "injection" || finding.kind === "hidden_instruction",
+  )
+  if (!steering || analysis.classification !== "Not Disinformation") return analysis
+  return { ...analysis, confidence: Math.min(analysis.confidence, ADVERSARIAL_CONFIDENCE_CAP) }
+}
@@ -0,0 +1,57 @@
+import { type PartialAnalysis, classificationSchema, confidenceSchema, contentTypeSchema } from "./schema"
+
+const LIST_FIELDS = ["keyTerms", "verificationSources", "recommendations"] as const
+
+function decodeJsonString(raw: string) {
+  try {
+    // Drop a dangling escape so a string cut mid-sequence still decodes
+    return JSON.parse(`"${raw.replace(/\\+$/, (slashes) => (slashes.length % 2 ? slashes.slice(1) : slashes))}"`)
+  } catch {
+    return undefined
+  }
+}
+
+function matchString(text: string, key: string) {
+  const match = new RegExp(`"${key}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)(")?`).exec(text)
+  return match ? { value: decodeJsonString(match[1]) as string | undefined, complete: !!match[2] } : undefined
+}
+
+// Pick out the top-level fields that have already arrived in a JSON reply that is still streaming
+export function extractPartialFields(text: string): PartialAnalysis {
+  const fields: PartialAnalysis = {}
+
+  const classification = matchString(text, "classification")
+  if (classification?.complete) {
+    const parsed = classificationSchema.safeParse(classification.value)
+    if (parsed.success) fields.classification = parsed.data
+  }
+
+  const contentType = matchString(text, "contentType")
+  if (contentType?.complete) {
+    const parsed = contentTypeSchema.safeParse(contentType.value)
+    if (parsed.success) fields.contentType = parsed.data
+  }
+
+  const confidence = /"confidence"\s*:\s*"?(\d+(?:\.\d+)?)"?\s*[,}\n]/.exec(text)
+  if (confidence) {
+    const parsed = confidenceSchema.safeParse(confidence[1])
+    if (parsed.success) fields.confidence = parsed.data
+  }
+
+  // The explanation is shown while it is still being written
+  const explanation = matchString(text, "explanation")
+  if (explanation?.value) fields.explanation = explanation.value
+
+  for (const key of LIST_FIELDS) {
+    const list = new RegExp(`"${key}"\\s*:\\s*(\\[[^\\]]*\\])`).exec(text)
+    if (!list) continue
+    try {
+      const values = JSON.parse(list[1])
+      if (Array.isArray(values)) fields[key] = values.filter((value): value is string => typeof value === "string")
+    } catch {
+      // Incomplete or malformed list; wait for more text
+    }
+  }
+
+  return fields
+}
@@ -0,0 +1,246 @@
+import { z } from "zod"
+import { LANGUAGES } from "@/lib/i18n/languages"
+
+// "Inconclusive" is also what the service reports when no usable verdict could be obtained
+export const CLASSIFICATIONS = ["Disinformation", "Not Disinformation", "NSFW Content", "Inconclusive"] as const
+export const CONTENT_TYPES = ["Opinion", "Claim", "Assumption", "Fact", "Mixed"] as const
+export const CLAIM_CONTENT_TYPES = ["Opinion", "Claim", "Assumption", "Fact"] as const
+export const COMMENT_STANCES = ["spreads", "debunks", "neutral"] as const
+export const CALIBRATION_METHODS = ["temperature", "isotonic"] as const
+
+// Models often vary casing or wrap numbers in strings; normalize before validating
+function caseInsensitiveEnum<T extends readonly [string, ...string[]]>(values: T) {
+  return z.preprocess(
+    (value) =>
+      typeof value === "string" ? values.find((v) => v.toLowerCase() === value.trim().toLowerCase()) ?? value : value,
+    z.enum(values),
+  )
+}
+
+const stringList = z.preprocess(
+  (value) => (Array.isArray(value) ? value.filter((item) => typeof item === "string" && item.trim()) : value),
+  z.array(z.string()),
+)
+
+export const classificationSchema = caseInsensitiveEnum(CLASSIFICATIONS)
+export const contentTypeSchema = caseInsensitiveEnum(CONTENT_TYPES)
+export const claimContentTypeSchema = caseInsensitiveEnum(CLAIM_CONTENT_TYPES)
+
+export const confidenceSchema = z.preprocess(
+  (value) => (typeof value === "string" ? Number.parseFloat(value.replace("%", "")) : value),
+  z
+    .number()
+    .finite()
+    .transform((value) => Math.round(Math.min(100, Math.max(0, value)))),
+)
+
+export const claimSchema = z.object({
+  text: z.string().trim().min(1),
+  verdict: classificationSchema,
+  contentType: claimContentTypeSchema,
+  confidence: confidenceSchema,
+  keyTerms: stringList.default([]),
+  // The claim in the requested output language when the content is written in another one
+  translation: z.string().trim().min(1).optional().catch(undefined),
+})
+
+// Character offsets of a claim inside the analyzed content, end exclusive
+export const claimSpanSchema = z.object({
+  start: z.number().int().nonnegative(),
+  end: z.number().int().nonnegative(),
+})
+
+// A published fact-check from the local corpus that matches the analyzed text
+export const citationSchema = z.object({
+  url: z.string(),
+  claim: z.string(),
+  rating: z.string(),
+  publisher: z.string().optional(),
+  reviewedAt: z.string().optional(),
+  excerpt: z.string(),
+  score: z.number(),
+})
+
+export const claimResultSchema = claimSchema.extend({
+  span: claimSpanSchema.nullable(),
+  citations: z.array(citationSchema).optional(),
+})
+
+// How a discussion comment relates to the content under analysis
+export const commentStanceSchema = z.object({
+  id: z.coerce.string(),
+  stance: caseInsensitiveEnum(COMMENT_STANCES),
+  reason: z.string().optional(),
+})
+
+export const commentResultSchema = commentStanceSchema.extend({
+  author: z.string(),
+  body: z.string(),
+  score: z.number(),
+  permalink: z.string().optional(),
+})
+
+export const redditSourceSchema = z.object({
+  subreddit: z.string(),
+  score: z.number(),
+  numComments: z.number(),
+  linkUrl: z.string().optional(),
+  crosspostFrom: z
+    .object({
+      subreddit: z.string(),
+      title: z.string(),
+      permalink: z.string(),
+    })
+    .optional(),
+})
+
+// Where analyzed content came from when the client submitted a URL instead of text
+export const sourceSchema = z.object({
+  kind: z.enum(["article", "reddit"]),
+  url: z.string(),
+  canonicalUrl: z.string().optional(),
+  title: z.string().optional(),
+  author: z.string().optional(),
+  publishedAt: z.string().optional(),
+  siteName: z.string().optional(),
+  // The extracted text that was analyzed; claim spans point into it
+  text: z.string(),
+  reddit: redditSourceSchema.optional(),
+})
+
+export const ANALYSIS_ERROR_CODES = [
+  "invalid_request",
+  "invalid_url",
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "content_too_large",
+  "rate_limited",
+  "fetch_failed",
+  "provider_error",
+  "upstream_error",
+  "empty_response",
+  "unparsable_output",
+  "schema_mismatch",
+  "safety_block",
+  "ocr_failed",
+] as const
+
+export const ADVERSARIAL_FINDING_KINDS = [
+  "injection",
+  "hidden_instruction",
+  "zero_width",
+  "bidi_control",
+  "homoglyph",
+] as const
+
+export const adversarialFindingSchema = z.object({
+  kind: z.enum(ADVERSARIAL_FINDING_KINDS),
+  count: z.number(),
+  // Where it was found: the content itself or a comment id
+  location: z.string(),
+  sample: z.string().optional(),
+})
+
+export const adversarialReportSchema = z.object({
+  detected: z.boolean(),
+  findings: z.array(adversarialFindingSchema),
+})
+
+// One model run's verdict inside an ensemble
+export const ensembleVoteSchema = z.object({
+  provider: z.string(),
+  model: z.string(),
+  weight: z.number(),
+  classification: classificationSchema,
+  confidence: z.number(),
+})
+
+// Shape the model is asked to produce
+export const modelAnalysisSchema = z.object({
+  classification: classificationSchema,
+  contentType: contentTypeSchema.default("Mixed"),
+  confidence: confidenceSchema,
+  explanation: z.string().trim().min(1),
+  keyTerms: stringList.default([]),
+  verificationSources: stringList.default([]),
+  recommendations: stringList.default([]),
+  claims: z.array(claimSchema).default([]),
+  comments: z.array(commentStanceSchema).default([]),
+})
+
+// Shape returned by /api/analyze and rendered by the UI
+export const analysisResultSchema = modelAnalysisSchema.extend({
+  // Set once the result has been persisted; /analysis/{id} is its permalink
+  id: z.string().optional(),
+  // True when served from the content-hash cache instead of a fresh model call
+  cached: z.boolean().optional(),
+  claims: z.array(claimResultSchema),
+  comments: z.array(commentResultSchema),
+  source: sourceSchema.optional(),
+  // Fact-checks retrieved for the content and its claims, best match first
+  citations: z.array(citationSchema).optional(),
+  // Why the result is Inconclusive when the model never produced a usable answer
+  failure: z.object({ code: z.enum(ANALYSIS_ERROR_CODES), message: z.string() }).optional(),
+  // Manipulation found in the input and neutralized before classification
+  adversarial: adversarialReportSchema.optional(),
+  // Set when confidence was rescaled by a fitted calibration; rawConfidence is what the model reported
+  calibration: z.object({ method: z.enum(CALIBRATION_METHODS), rawConfidence: z.number() }).optional(),
+  // Present when several models or samples voted; agreement is the share of voting weight behind the verdict
+  ensemble: z
+    .object({
+      agreement: z.number(),
+      unanimous: z.boolean(),
+      votes: z.array(ensembleVoteSchema),
+      // Runs that errored and did not vote
+      failed: z.number(),
+    })
+    .optional(),
+  // Detected language of the content, when it is one of LANGUAGES; claims are quoted in it
+  language: z.enum(LANGUAGES).optional(),
+  // Language the explanation, recommendations and claim translations are written in
+  outputLanguage: z.enum(LANGUAGES).optional(),
+  // Prompt template that produced the result, as "name@version"
+  promptVersion: z.string().optional(),
+  timestamp: z.string(),
+})
+
+export const analysisErrorResponseSchema = z.object({
+  error: z.string(),
+  code: z.enum(ANALYSIS_ERROR_CODES),
+})
+
+// Progress stages reported by streaming analysis, in the order they occur
+export const ANALYSIS_STAGES = ["fetching", "extracting", "classifying", "explaining"] as const
+
+export type AnalysisStage = (typeof ANALYSIS_STAGES)[number]
+
+// Top-level fields seen so far while a reply is still streaming; claims and comments only arrive with the result
+export type PartialAnalysis = Partial<Omit<ModelAnalysis, "claims" | "comments">>
+
+// Lines of the application/x-ndjson stream returned when the client asks for progress
+export type AnalysisStreamEvent =
+  | { type: "stage"; stage: AnalysisStage }
+  | { type: "partial"; fields: PartialAnalysis }
+  | { type: "result"; result: AnalysisResult }
+  | ({ type: "error" } & AnalysisErrorResponse)
+
+export type Classification = (typeof CLASSIFICATIONS)[number]
+export type ContentType = (typeof CONTENT_TYPES)[number]
+export type Source = z.infer<typeof sourceSchema>
+export type CommentStance = (typeof COMMENT_STANCES)[number]
+export type EnsembleVote = z.infer<typeof ensembleVoteSchema>
+export type CalibrationMethod = (typeof CALIBRATION_METHODS)[number]
+export type CommentResult = z.infer<typeof commentResultSchema>
+export type ClaimContentType = (typeof CLAIM_CONTENT_TYPES)[number]
+export type Claim = z.infer<typeof claimSchema>
+export type ClaimSpan = z.infer<typeof claimSpanSchema>
+export type ClaimResult = z.infer<typeof claimResultSchema>
+export type Citation = z.infer<typeof citationSchema>
+export type AdversarialFindingKind = (typeof ADVERSARIAL_FINDING_KINDS)[number]
+export type AdversarialFinding = z.infer<typeof adversarialFindingSchema>
+export type AdversarialReport = z.infer<typeof adversarialReportSchema>
+export type ModelAnalysis = z.infer<typeof modelAnalysisSchema>
+export type AnalysisResult = z.infer<typeof analysisResultSchema>
+export type AnalysisErrorCode = (typeof ANALYSIS_ERROR_CODES)[number]
+export type AnalysisErrorResponse = z.infer<typeof analysisErrorResponseSchema>
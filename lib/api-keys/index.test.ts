@@ -0,0 +1,51 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { createFileApiKeyStore, createMemoryApiKeyStore } from "./index"
+
+describe("createFileApiKeyStore", () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "api-keys-"))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it("keeps every key when many are created at once", async () => {
+    const store = createFileApiKeyStore(path.join(directory, "api-keys.json"))
+    const created = await Promise.all(
+      Array.from({ length: 20 }, (_, index) => store.create({ name: `key ${index}`, scopes: ["analyze"] })),
+    )
+
+    const listed = await store.list()
+    expect(listed.map((key) => key.id).sort()).toEqual(created.map(({ apiKey }) => apiKey.id).sort())
+    expect(await readdir(directory)).toEqual(["api-keys.json"])
+  })
+
+  it("does not lose a revoke that races a create", async () => {
+    const store = createFileApiKeyStore(path.join(directory, "api-keys.json"))
+    const { apiKey, secret } = await store.create({ name: "old", scopes: ["read"] })
+
+    const [revoked] = await Promise.all([store.revoke(apiKey.id), store.create({ name: "new", scopes: ["read"] })])
+    expect(revoked?.revokedAt).toBeDefined()
+    expect(await store.findBySecret(secret)).toBeUndefined()
+    expect((await store.list()).map((key) => key.name)).toEqual(expect.arrayContaining(["old", "new"]))
+  })
+})
+
+describe("createMemoryApiKeyStore", () => {
+  it("finds keys by secret until they are revoked", async () => {
+    const store = createMemoryApiKeyStore()
+    const { apiKey, secret } = await store.create({ name: "ci", scopes: ["analyze", "batch"] })
+
+    expect(apiKey.prefix).toBe(secret.slice(0, 9))
+    expect(await store.findBySecret(secret)).toEqual(apiKey)
+    expect(await store.revoke("missing")).toBeUndefined()
+    await store.revoke(apiKey.id)
+    expect(await store.findBySecret(secret)).toBeUndefined()
+  })
+})
@@ -0,0 +1,151 @@
+import { createHash, randomBytes } from "node:crypto"
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { z } from "zod"
+import { AnalysisError } from "@/lib/analysis/errors"
+import { getDataDirectory } from "@/lib/store"
+import { createAnalysisId } from "@/lib/store/id"
+import { API_KEY_SCOPES, type ApiKey, type ApiKeyScope, type ApiKeyStore } from "./types"
+
+export * from "./types"
+
+const SECRET_PREFIX = "dh_"
+
+export const apiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(z.enum(API_KEY_SCOPES)),
+  createdAt: z.string(),
+  revokedAt: z.string().optional(),
+})
+
+// Only a hash of the secret is kept, so a leaked store does not leak working keys
+const storedApiKeySchema = apiKeySchema.extend({ hash: z.string() })
+
+type StoredApiKey = z.infer<typeof storedApiKeySchema>
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).transform((scopes) => [...new Set(scopes)]),
+})
+
+function hashSecret(secret: string) {
+  return createHash("sha256").update(secret).digest("hex")
+}
+
+// Parsing strips the hash
+function toApiKey(stored: StoredApiKey): ApiKey {
+  return apiKeySchema.parse(stored)
+}
+
+// Both stores keep the whole list in one document; key counts stay small. Changes are queued so concurrent creates
+// and revokes each see the previous one's result instead of overwriting it
+function createListStore(
+  read: () => Promise<StoredApiKey[]>,
+  write: (keys: StoredApiKey[]) => Promise<void>,
+): ApiKeyStore {
+  let queue: Promise<unknown> = Promise.resolve()
+
+  function update<R>(change: (keys: StoredApiKey[]) => { keys: StoredApiKey[]; result: R }): Promise<R> {
+    const run = queue.then(async () => {
+      const { keys, result } = change(await read())
+      await write(keys)
+      return result
+    })
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  return {
+    async create({ name, scopes }) {
+      const secret = `${SECRET_PREFIX}${randomBytes(24).toString("base64url")}`
+      const stored: StoredApiKey = {
+        id: createAnalysisId(),
+        name,
+        prefix: secret.slice(0, SECRET_PREFIX.length + 6),
+        scopes,
+        createdAt: new Date().toISOString(),
+        hash: hashSecret(secret),
+      }
+      await update((keys) => ({ keys: [...keys, stored], result: undefined }))
+      return { apiKey: toApiKey(stored), secret }
+    },
+    async list() {
+      return (await read()).map(toApiKey).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    },
+    revoke: (id) =>
+      update((keys) => {
+        const found = keys.find((key) => key.id === id)
+        if (!found) return { keys, result: undefined }
+        const revoked = { ...found, revokedAt: found.revokedAt ?? new Date().toISOString() }
+        return { keys: keys.map((key) => (key.id === id ? revoked : key)), result: toApiKey(revoked) }
+      }),
+    async findBySecret(secret) {
+      const hash = hashSecret(secret)
+      const found = (await read()).find((key) => key.hash === hash && !key.revokedAt)
+      return found && toApiKey(found)
+    },
+  }
+}
+
+export function createMemoryApiKeyStore(): ApiKeyStore {
+  let keys: StoredApiKey[] = []
+  return createListStore(
+    async () => [...keys],
+    async (next) => {
+      keys = next
+    },
+  )
+}
+
+export function createFileApiKeyStore(filePath: string): ApiKeyStore {
+  return createListStore(
+    async () => {
+      try {
+        const parsed = z.array(storedApiKeySchema).safeParse(JSON.parse(await readFile(filePath, "utf8")))
+        return parsed.success ? parsed.data : []
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+        throw error
+      }
+    },
+    async (keys) => {
+      await mkdir(path.dirname(filePath), { recursive: true })
+      await writeFile(`${filePath}.tmp`, JSON.stringify(keys, null, 2))
+      await rename(`${filePath}.tmp`, filePath)
+    },
+  )
+}
+
+let store: ApiKeyStore | undefined
+
+export function getApiKeyStore(env: NodeJS.ProcessEnv = process.env): ApiKeyStore {
+  return (store ??=
+    env.ANALYSIS_STORE === "memory"
+      ? createMemoryApiKeyStore()
+      : createFileApiKeyStore(path.join(getDataDirectory(env), "api-keys.json")))
+}
+
+// Keys are sent as X-API-Key or as a bearer token
+export function readApiKey(request: Request) {
+  const authorization = request.headers.get("authorization") ?? ""
+  const bearer = authorization.startsWith("Bearer ") ? authorization.slice("Bearer ".length).trim() : ""
+  return request.headers.get("x-api-key")?.trim() || bearer || undefined
+}
+
+export async function authenticateApiKey(
+  request: Request,
+  scope?: ApiKeyScope,
+  apiKeyStore: ApiKeyStore = getApiKeyStore(),
+): Promise<ApiKey> {
+  const secret = readApiKey(request)
+  if (!secret) throw new AnalysisError("unauthorized", "An API key is required")
+
+  const apiKey = await apiKeyStore.findBySecret(secret)
+  if (!apiKey) throw new AnalysisError("unauthorized", "Unknown or revoked API key")
+  if (scope && !apiKey.scopes.includes(scope)) {
+    throw new AnalysisError("forbidden", `This API key does not have the "${scope}" scope`)
+  }
+  return apiKey
+}
@@ -0,0 +1,23 @@
+export const API_KEY_SCOPES = ["analyze", "batch", "read", "review"] as const
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]
+
+// What callers and admins see; the secret itself is shown once, when the key is created
+export interface ApiKey {
+  id: string
+  name: string
+  // First characters of the secret, enough to tell keys apart in logs and listings
+  prefix: string
+  scopes: ApiKeyScope[]
+  createdAt: string
+  revokedAt?: string
+}
+
+export interface ApiKeyStore {
+  create(input: Pick<ApiKey, "name" | "scopes">): Promise<{ apiKey: ApiKey; secret: string }>
+  // Newest first, revoked keys included
+  list(): Promise<ApiKey[]>
+  revoke(id: string): Promise<ApiKey | undefined>
+  // Only keys that have not been revoked
+  findBySecret(secret: string): Promise<ApiKey | undefined>
+}
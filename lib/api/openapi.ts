@@ -0,0 +1,180 @@
+import type { ZodTypeAny } from "zod"
+import { zodToJsonSchema } from "zod-to-json-schema"
+import { analysisResultSchema } from "@/lib/analysis/schema"
+import { REVIEW_STATES, reviewRequestSchema } from "@/lib/review"
+import {
+  analyzeRequestSchema,
+  apiErrorSchema,
+  batchRequestSchema,
+  batchResponseSchema,
+  reviewQueueSchema,
+  reviewResponseSchema,
+  reviewSchema,
+  storedAnalysisSchema,
+} from "./schemas"
+
+const COMPONENTS = {
+  AnalyzeRequest: analyzeRequestSchema,
+  AnalysisResult: analysisResultSchema,
+  BatchRequest: batchRequestSchema,
+  BatchResponse: batchResponseSchema,
+  StoredAnalysis: storedAnalysisSchema,
+  ReviewRequest: reviewRequestSchema,
+  Review: reviewSchema,
+  ReviewResponse: reviewResponseSchema,
+  ReviewQueue: reviewQueueSchema,
+  Error: apiErrorSchema,
+} satisfies Record<string, ZodTypeAny>
+
+const ref = (name: keyof typeof COMPONENTS) => ({ $ref: `#/components/schemas/${name}` })
+
+const json = (name: keyof typeof COMPONENTS) => ({ content: { "application/json": { schema: ref(name) } } })
+
+const integerHeader = (description: string) => ({ description, schema: { type: "integer" } })
+
+const RATE_LIMIT_HEADERS = {
+  "X-RateLimit-Limit": integerHeader("Requests allowed in a burst"),
+  "X-RateLimit-Remaining": integerHeader("Requests left in the current burst"),
+  "X-RateLimit-Reset": integerHeader("Seconds until the burst allowance is full again"),
+  "X-Quota-Limit": integerHeader("Analyses allowed per UTC day"),
+  "X-Quota-Remaining": integerHeader("Analyses left today"),
+  "X-Quota-Reset": integerHeader("Seconds until the daily quota resets"),
+}
+
+const ERRORS = {
+  "401": { description: "Missing, unknown or revoked API key", ...json("Error") },
+  "403": { description: "The API key lacks the required scope", ...json("Error") },
+}
+
+const LIMITED_ERRORS = {
+  "400": { description: "Invalid request body", ...json("Error") },
+  ...ERRORS,
+  "413": { description: "Content or body too large", ...json("Error") },
+  "429": {
+    description: "Rate limit or daily quota exceeded",
+    headers: { "Retry-After": integerHeader("Seconds to wait before retrying"), ...RATE_LIMIT_HEADERS },
+    ...json("Error"),
+  },
+  "502": { description: "The analysis service failed", ...json("Error") },
+}
+
+// Built from the same zod schemas the routes validate with, so the document cannot drift from the code
+export function buildOpenApiDocument(baseUrl: string) {
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Disinformation Hunter API",
+      version: "1.0.0",
+      description:
+        "Classifies text, articles and Reddit threads as disinformation or not, with per-claim verdicts and " +
+        "fact-check citations. Every request needs an API key with the scope named on the operation.",
+    },
+    servers: [{ url: `${baseUrl}/api/v1` }],
+    security: [{ apiKey: [] }, { bearer: [] }],
+    paths: {
+      "/analyze": {
+        post: {
+          operationId: "analyze",
+          summary: "Analyze one piece of content",
+          description: "Requires the `analyze` scope. The result is stored and can be fetched again by its id.",
+          requestBody: { required: true, ...json("AnalyzeRequest") },
+          responses: {
+            "200": { description: "The analysis", headers: RATE_LIMIT_HEADERS, ...json("AnalysisResult") },
+            ...LIMITED_ERRORS,
+          },
+        },
+      },
+      "/batch": {
+        post: {
+          operationId: "analyzeBatch",
+          summary: "Analyze up to 500 texts",
+          description:
+            "Requires the `batch` scope. Items are analyzed concurrently and failures are reported per item; " +
+            "each item counts against the daily quota.",
+          requestBody: { required: true, ...json("BatchRequest") },
+          responses: {
+            "200": {
+              description: "One result per item, in input order",
+              headers: RATE_LIMIT_HEADERS,
+              ...json("BatchResponse"),
+            },
+            ...LIMITED_ERRORS,
+          },
+        },
+      },
+      "/analyses/{id}": {
+        get: {
+          operationId: "getAnalysis",
+          summary: "Look up a stored analysis",
+          description: "Requires the `read` scope.",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: {
+            "200": { description: "The analysis with what was submitted", ...json("StoredAnalysis") },
+            ...ERRORS,
+            "404": { description: "No analysis with that id", ...json("Error") },
+          },
+        },
+      },
+      "/analyses/{id}/review": {
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+        get: {
+          operationId: "getReview",
+          summary: "The human verdict on an analysis and every change to it",
+          description: "Requires the `review` scope.",
+          responses: {
+            "200": { description: "The current review and its audit history", ...json("ReviewResponse") },
+            ...ERRORS,
+            "404": { description: "No analysis with that id", ...json("Error") },
+          },
+        },
+        post: {
+          operationId: "submitReview",
+          summary: "Confirm, overturn or escalate the model's verdict",
+          description:
+            "Requires the `review` scope. Overturning needs the corrected `classification`; overturning and " +
+            "escalating need a `rationale`. The change is appended to the audit history under the key's name.",
+          requestBody: { required: true, ...json("ReviewRequest") },
+          responses: {
+            "200": {
+              description: "The new current review",
+              content: {
+                "application/json": { schema: { type: "object", properties: { review: ref("Review") } } },
+              },
+            },
+            "400": { description: "Invalid review", ...json("Error") },
+            ...ERRORS,
+            "404": { description: "No analysis with that id", ...json("Error") },
+          },
+        },
+      },
+      "/reviews": {
+        get: {
+          operationId: "listReviews",
+          summary: "The review queue",
+          description: "Requires the `review` scope. Newest analyses first, each with its current review.",
+          parameters: [
+            { name: "state", in: "query", schema: { type: "string", enum: REVIEW_STATES } },
+            { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 500, default: 50 } },
+          ],
+          responses: {
+            "200": { description: "Matching analyses", ...json("ReviewQueue") },
+            "400": { description: "Unknown state", ...json("Error") },
+            ...ERRORS,
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+        bearer: { type: "http", scheme: "bearer" },
+      },
+      schemas: Object.fromEntries(
+        Object.entries(COMPONENTS).map(([name, schema]) => [
+          name,
+          zodToJsonSchema(schema, { target: "openApi3", $refStrategy: "none" }),
+        ]),
+      ),
+    },
+  }
+}
@@ -0,0 +1,107 @@
+import { z } from "zod"
+import { ANALYSIS_ERROR_CODES, CLASSIFICATIONS, analysisResultSchema } from "@/lib/analysis/schema"
+import { MAX_BATCH_ITEMS, batchItemSchema } from "@/lib/batch/parse"
+import { LANGUAGES } from "@/lib/i18n/languages"
+import { REVIEW_STATES } from "@/lib/review/types"
+
+// Request and response bodies of /api/v1; the OpenAPI document is generated from these
+
+export const apiErrorSchema = z
+  .object({
+    error: z.object({
+      code: z.enum(ANALYSIS_ERROR_CODES),
+      message: z.string(),
+    }),
+  })
+  .describe("Every error response has this shape")
+
+export const analyzeRequestSchema = z
+  .object({
+    content: z.string().optional().describe("Text to analyze"),
+    url: z.string().url().optional().describe("Article or Reddit thread to fetch and analyze instead of content"),
+    commentLimit: z.number().int().min(0).max(50).optional().describe("Top Reddit comments to judge alongside"),
+    outputLanguage: z.enum(LANGUAGES).optional().describe("Language of the explanation; defaults to en"),
+    mode: z.enum(["single", "ensemble"]).optional().describe("ensemble votes across the configured models"),
+    force: z.boolean().optional().describe("Skip the result cache"),
+  })
+  .refine((body) => !!body.content?.trim() || !!body.url?.trim(), {
+    message: "Send content or url",
+    path: ["content"],
+  })
+
+export const batchRequestSchema = z.object({
+  items: z.array(batchItemSchema).min(1).max(MAX_BATCH_ITEMS),
+})
+
+export const batchItemResultSchema = z.discriminatedUnion("status", [
+  z.object({
+    index: z.number().int(),
+    id: z.string().optional(),
+    content: z.string(),
+    status: z.literal("ok"),
+    result: analysisResultSchema,
+  }),
+  z.object({
+    index: z.number().int(),
+    id: z.string().optional(),
+    content: z.string(),
+    status: z.literal("error"),
+    error: z.string(),
+    code: z.enum(ANALYSIS_ERROR_CODES),
+  }),
+])
+
+export const batchResponseSchema = z.object({
+  results: z.array(batchItemResultSchema),
+  progress: z.object({
+    completed: z.number().int(),
+    failed: z.number().int(),
+    total: z.number().int(),
+  }),
+})
+
+export const storedAnalysisSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  input: z.object({ content: z.string().optional(), url: z.string().optional() }),
+  result: analysisResultSchema,
+})
+
+const reviewVerdictSchema = z.object({
+  state: z.enum(REVIEW_STATES),
+  classification: z.enum(CLASSIFICATIONS).optional(),
+})
+
+const reviewerSchema = z.object({ keyId: z.string(), name: z.string() }).describe("The API key that made the change")
+
+export const reviewSchema = reviewVerdictSchema
+  .extend({
+    analysisId: z.string(),
+    rationale: z.string().optional(),
+    reviewer: reviewerSchema.optional(),
+    updatedAt: z.string().optional(),
+  })
+  .describe("The current human verdict; pending with no reviewer until someone reviews the analysis")
+
+export const reviewAuditEntrySchema = z.object({
+  id: z.string(),
+  analysisId: z.string(),
+  at: z.string(),
+  reviewer: reviewerSchema,
+  from: reviewVerdictSchema,
+  to: reviewVerdictSchema,
+  rationale: z.string().optional(),
+})
+
+export const reviewResponseSchema = z.object({
+  review: reviewSchema,
+  history: z.array(reviewAuditEntrySchema).describe("Every change, oldest first"),
+})
+
+export const reviewQueueSchema = z.object({
+  items: z.array(z.object({ analysis: storedAnalysisSchema, review: reviewSchema })),
+})
+
+export type ApiError = z.infer<typeof apiErrorSchema>
+export type AnalyzeRequest = z.infer<typeof analyzeRequestSchema>
+export type BatchRequest = z.infer<typeof batchRequestSchema>
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import type { z } from "zod"
+import { AnalysisError, toErrorResponse } from "@/lib/analysis/errors"
+import { RateLimitError } from "@/lib/rate-limit"
+import type { ApiError } from "./schemas"
+
+export * from "./schemas"
+
+// Wraps any thrown error in the v1 envelope; rate limit errors bring their own headers
+export function apiErrorResponse(error: unknown, headers: Record<string, string> = {}) {
+  if (!(error instanceof AnalysisError)) console.error("API error:", error)
+  const { body, status } = toErrorResponse(error)
+  return NextResponse.json<ApiError>(
+    { error: { code: body.code, message: body.error } },
+    { status, headers: error instanceof RateLimitError ? error.headers : headers },
+  )
+}
+
+// Takes the request itself or a body already read with readLimitedBody
+export async function parseJsonBody<T extends z.ZodTypeAny>(source: Body, schema: T): Promise<z.output<T>> {
+  let body: unknown
+  try {
+    body = await source.json()
+  } catch {
+    throw new AnalysisError("invalid_request", "Request body is not valid JSON")
+  }
+
+  const parsed = schema.safeParse(body)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`)
+    throw new AnalysisError("invalid_request", `Invalid request (${issues.join("; ")})`)
+  }
+  return parsed.data
+}
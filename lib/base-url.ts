@@ -0,0 +1,7 @@
+// PUBLIC_BASE_URL wins so links stay stable behind proxies; otherwise fall back to the request's own origin
+export function getBaseUrl(headers: Headers, env: NodeJS.ProcessEnv = process.env) {
+  if (env.PUBLIC_BASE_URL) return env.PUBLIC_BASE_URL.replace(/\/$/, "")
+  const host = headers.get("x-forwarded-host") ?? headers.get("host") ?? "localhost:3000"
+  const protocol = headers.get("x-forwarded-proto") ?? (host.startsWith("localhost") ? "http" : "https")
+  return `${protocol}://${host}`
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest"
+import type { AnalysisResult } from "@/lib/analysis/schema"
+import { batchResultsToCsv } from "./export"
+
+const result = { classification: "Disinformation", contentType: "Claim", confidence: 80, keyTerms: [] }
+
+// The content cell and what follows it, for a single successful item
+const contentCell = (content: string) =>
+  batchResultsToCsv([{ index: 0, content, status: "ok", result: result as unknown as AnalysisResult }])
+    .split("\n")
+    .slice(1)
+    .join("\n")
+    .replace(/^1,,/, "")
+    .replace(/,ok,Disinformation,Claim,80,,,$/, "")
+
+describe("batchResultsToCsv", () => {
+  it("quotes cells with commas, quotes and line breaks", () => {
+    expect(contentCell('Say "hi",\nplease')).toBe('"Say ""hi"",\nplease"')
+  })
+
+  it.each([
+    ['=HYPERLINK("http://evil.example")', `"'=HYPERLINK(""http://evil.example"")"`],
+    ["+1+1", "'+1+1"],
+    ["-2+3", "'-2+3"],
+    ["@SUM(A1)", "'@SUM(A1)"],
+    ["\tcmd", "'\tcmd"],
+    ["\rcmd", `"'\rcmd"`],
+  ])("keeps spreadsheets from running %j as a formula", (content, cell) => {
+    expect(contentCell(content)).toBe(cell)
+  })
+
+  it("leaves other cells as they are", () => {
+    expect(contentCell("Vaccines cause autism - a viral claim")).toBe("Vaccines cause autism - a viral claim")
+  })
+})
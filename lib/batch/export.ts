@@ -0,0 +1,46 @@
+import type { BatchItemResult } from "./types"
+
+const CSV_COLUMNS = [
+  "index",
+  "id",
+  "content",
+  "status",
+  "classification",
+  "contentType",
+  "confidence",
+  "explanation",
+  "keyTerms",
+  "error",
+] as const
+
+// Spreadsheets run cells starting with these as formulas, so submitted content could otherwise execute there
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function escapeCsv(value: unknown) {
+  const raw = value === undefined || value === null ? "" : String(value)
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function batchResultsToCsv(results: BatchItemResult[]) {
+  const rows = results.map((item) => {
+    const row: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+      index: item.index + 1,
+      id: item.id,
+      content: item.content,
+      status: item.status,
+      classification: item.status === "ok" ? item.result.classification : "",
+      contentType: item.status === "ok" ? item.result.contentType : "",
+      confidence: item.status === "ok" ? item.result.confidence : "",
+      explanation: item.status === "ok" ? item.result.explanation : "",
+      keyTerms: item.status === "ok" ? item.result.keyTerms.join("; ") : "",
+      error: item.status === "error" ? `${item.code}: ${item.error}` : "",
+    }
+    return CSV_COLUMNS.map((column) => escapeCsv(row[column])).join(",")
+  })
+  return [CSV_COLUMNS.join(","), ...rows].join("\n")
+}
+
+export function batchResultsToJson(results: BatchItemResult[]) {
+  return JSON.stringify(results, null, 2)
+}
@@ -0,0 +1,139 @@
+import { z } from "zod"
+import { AnalysisError } from "@/lib/analysis/errors"
+
+export const MAX_BATCH_ITEMS = 500
+
+export const batchItemSchema = z.object({
+  id: z.union([z.string(), z.number()]).transform(String).optional(),
+  content: z.string(),
+})
+
+export type BatchItem = z.infer<typeof batchItemSchema>
+
+export type BatchFormat = "json" | "jsonl" | "csv"
+
+// RFC 4180 style: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()))
+}
+
+const CONTENT_COLUMNS = ["content", "text", "body", "post"]
+
+function itemsFromCsv(text: string): unknown[] {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) return []
+
+  const columns = header.map((name) => name.trim().toLowerCase())
+  const contentIndex = columns.findIndex((name) => CONTENT_COLUMNS.includes(name))
+  if (contentIndex === -1) {
+    // No recognizable header: treat every row's first cell as content
+    return [header, ...rows].map((cells) => ({ content: cells[0] }))
+  }
+
+  const idIndex = columns.indexOf("id")
+  return rows.map((cells) => ({
+    ...(idIndex !== -1 && cells[idIndex] ? { id: cells[idIndex] } : {}),
+    content: cells[contentIndex] ?? "",
+  }))
+}
+
+function itemsFromJsonl(text: string): unknown[] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line, index) => {
+      try {
+        const value = JSON.parse(line)
+        return typeof value === "string" ? { content: value } : value
+      } catch {
+        throw new AnalysisError("invalid_request", `Line ${index + 1} is not valid JSON`)
+      }
+    })
+}
+
+function itemsFromJson(value: unknown): unknown[] {
+  const items = Array.isArray(value) ? value : (value as { items?: unknown })?.items
+  if (!Array.isArray(items)) {
+    throw new AnalysisError("invalid_request", "Expected an array of items")
+  }
+  return items.map((item) => (typeof item === "string" ? { content: item } : item))
+}
+
+export function detectBatchFormat(contentType: string, fileName = ""): BatchFormat {
+  const type = contentType.toLowerCase()
+  const name = fileName.toLowerCase()
+  if (type.includes("csv") || name.endsWith(".csv")) return "csv"
+  if (type.includes("ndjson") || type.includes("jsonl") || name.endsWith(".jsonl") || name.endsWith(".ndjson")) {
+    return "jsonl"
+  }
+  return "json"
+}
+
+export function parseBatchInput(input: string | unknown, format: BatchFormat): BatchItem[] {
+  let raw: unknown[]
+  if (format === "csv") {
+    raw = itemsFromCsv(String(input))
+  } else if (format === "jsonl") {
+    raw = itemsFromJsonl(String(input))
+  } else if (typeof input === "string") {
+    try {
+      raw = itemsFromJson(JSON.parse(input))
+    } catch (error) {
+      if (error instanceof AnalysisError) throw error
+      throw new AnalysisError("invalid_request", "Request body is not valid JSON")
+    }
+  } else {
+    raw = itemsFromJson(input)
+  }
+
+  if (raw.length === 0) {
+    throw new AnalysisError("invalid_request", "No items to analyze")
+  }
+  if (raw.length > MAX_BATCH_ITEMS) {
+    throw new AnalysisError("invalid_request", `A batch may contain at most ${MAX_BATCH_ITEMS} items`)
+  }
+
+  return raw.map((item, index) => {
+    const parsed = batchItemSchema.safeParse(item)
+    if (!parsed.success) {
+      throw new AnalysisError("invalid_request", `Item ${index + 1} must have a string "content" field`)
+    }
+    return parsed.data
+  })
+}
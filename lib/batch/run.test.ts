@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { analyzeContent } from "@/lib/analysis/analyze"
+import { AnalysisError } from "@/lib/analysis/errors"
+import type { AnalysisResult } from "@/lib/analysis/schema"
+import { runBatch } from "./run"
+
+vi.mock("@/lib/analysis/analyze", () => ({ analyzeContent: vi.fn() }))
+vi.mock("@/lib/store", () => ({
+  saveAnalysis: vi.fn(async (_input: unknown, result: AnalysisResult) => ({ ...result, id: "saved" })),
+}))
+vi.mock("@/lib/webhooks", () => ({ dispatchWebhooks: vi.fn() }))
+
+const analyze = vi.mocked(analyzeContent)
+const result = { classification: "Inconclusive", confidence: 50 } as AnalysisResult
+
+describe("runBatch", () => {
+  beforeEach(() => {
+    analyze.mockReset()
+  })
+
+  it("passes the signal on to every analysis", async () => {
+    analyze.mockResolvedValue(result)
+    const { signal } = new AbortController()
+
+    await runBatch([{ content: "a" }, { content: "b" }], { signal, outputLanguage: "es", concurrency: 1 })
+    const calls = analyze.mock.calls.map(([content, options]) => [content, options?.signal, options?.outputLanguage])
+    expect(calls).toEqual([
+      ["a", signal, "es"],
+      ["b", signal, "es"],
+    ])
+  })
+
+  it("stops taking items once aborted", async () => {
+    const controller = new AbortController()
+    analyze.mockImplementation(async () => {
+      controller.abort()
+      return result
+    })
+
+    const results = await runBatch([{ content: "a" }, { content: "b" }], { signal: controller.signal, concurrency: 1 })
+    expect(results).toHaveLength(1)
+    expect(analyze).toHaveBeenCalledTimes(1)
+  })
+
+  it("reports errors the way a single analysis would", async () => {
+    analyze
+      .mockRejectedValueOnce(new AnalysisError("invalid_request", "Content is empty"))
+      .mockRejectedValueOnce(new AnalysisError("upstream_error", "Provider returned 500: secret detail"))
+      .mockRejectedValueOnce(new Error("socket hang up"))
+    vi.spyOn(console, "error").mockImplementation(() => {})
+
+    const results = await runBatch([{ content: "" }, { content: "b" }, { content: "c" }], { concurrency: 1 })
+    expect(results.map((item) => (item.status === "error" ? [item.code, item.error] : item.status))).toEqual([
+      ["invalid_request", "Content is empty"],
+      ["upstream_error", "Analysis temporarily unavailable. Please try again."],
+      ["provider_error", "Analysis temporarily unavailable. Please try again."],
+    ])
+  })
+})
@@ -0,0 +1,55 @@
+import { analyzeContent, type AnalyzeOptions } from "@/lib/analysis/analyze"
+import { AnalysisError, toErrorResponse } from "@/lib/analysis/errors"
+import { saveAnalysis } from "@/lib/store"
+import { dispatchWebhooks } from "@/lib/webhooks"
+import type { BatchItem } from "./parse"
+import type { BatchItemResult, BatchProgress } from "./types"
+
+export interface RunBatchOptions extends AnalyzeOptions {
+  concurrency?: number
+  signal?: AbortSignal
+  onItem?: (item: BatchItemResult, progress: BatchProgress) => void
+}
+
+export function getBatchConcurrency(env: NodeJS.ProcessEnv = process.env) {
+  const value = Number.parseInt(env.BATCH_CONCURRENCY ?? "", 10)
+  return Number.isFinite(value) && value > 0 ? value : 4
+}
+
+async function analyzeItem(item: BatchItem, index: number, options: AnalyzeOptions): Promise<BatchItemResult> {
+  const base = { index, ...(item.id ? { id: item.id } : {}), content: item.content }
+  try {
+    const result = await analyzeContent(item.content, options)
+    const saved = await saveAnalysis({ content: item.content }, result)
+    dispatchWebhooks({ input: { content: item.content }, result: saved })
+    return { ...base, status: "ok", result: saved }
+  } catch (error) {
+    if (!(error instanceof AnalysisError)) console.error("Batch item error:", error)
+    // Same messages as a single analysis, so provider details do not leak through batch results
+    const { body } = toErrorResponse(error)
+    return { ...base, status: "error", error: body.error, code: body.code }
+  }
+}
+
+// Worker pool: at most `concurrency` items are in flight; results keep input order
+export async function runBatch(items: BatchItem[], options: RunBatchOptions = {}): Promise<BatchItemResult[]> {
+  const { concurrency = getBatchConcurrency(), signal, onItem, ...analyzeOptions } = options
+  const results: BatchItemResult[] = new Array(items.length)
+  const progress: BatchProgress = { completed: 0, failed: 0, total: items.length }
+  let next = 0
+
+  async function worker() {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++
+      // The signal also cancels the item in flight, not just the ones still queued
+      const result = await analyzeItem(items[index], index, { ...analyzeOptions, signal })
+      results[index] = result
+      progress.completed++
+      if (result.status === "error") progress.failed++
+      onItem?.(result, { ...progress })
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker))
+  return results.filter(Boolean)
+}
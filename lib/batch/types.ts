@@ -0,0 +1,22 @@
+import type { AnalysisErrorCode, AnalysisResult } from "@/lib/analysis/schema"
+
+export type BatchItemResult =
+  | { index: number; id?: string; content: string; status: "ok"; result: AnalysisResult }
+  | { index: number; id?: string; content: string; status: "error"; error: string; code: AnalysisErrorCode }
+
+export interface BatchProgress {
+  completed: number
+  failed: number
+  total: number
+}
+
+export interface BatchResponse {
+  results: BatchItemResult[]
+  progress: BatchProgress
+}
+
+// Lines of the application/x-ndjson stream returned when the client asks for progress
+export type BatchStreamEvent =
+  | ({ type: "progress" } & BatchProgress)
+  | { type: "item"; item: BatchItemResult }
+  | ({ type: "done" } & BatchProgress)
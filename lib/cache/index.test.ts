@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest"
+import { analyzeContent } from "@/lib/analysis/analyze"
+import type { AnalysisResult } from "@/lib/analysis/schema"
+import { DEFAULT_PROMPT_TEMPLATE, getPromptTemplate } from "@/lib/prompts"
+import { createMockProvider } from "@/lib/providers"
+import { createCacheKey, createMemoryCache, createResultCache, stripTrackingParams } from "./index"
+
+const env = (vars: Record<string, string>) => vars as NodeJS.ProcessEnv
+const result = (confidence: number) => ({ classification: "Disinformation", confidence }) as AnalysisResult
+const parts = { content: "5G towers spread the virus", promptVersion: "v1", provider: "mock", model: "mock-heuristic" }
+
+describe("createCacheKey", () => {
+  it("hits for the same post pasted with different spacing, casing or tracking parameters", () => {
+    const key = createCacheKey({ ...parts, content: "5G towers spread the virus https://news.example/a?id=1" })
+    expect(
+      createCacheKey({
+        ...parts,
+        content: "  5g TOWERS\n spread the virus https://news.example/a?id=1&utm_source=x&fbclid=y#comments",
+      }),
+    ).toBe(key)
+  })
+
+  it.each([
+    ["prompt version", { promptVersion: "v2" }],
+    ["provider", { provider: "gemini" }],
+    ["model", { model: "mock-2" }],
+    ["fact-check corpus", { corpus: "2024-06" }],
+    ["output language", { outputLanguage: "es" }],
+    ["comments", { comments: [{ id: "c1", body: "Source?" }] }],
+    ["content", { content: "5G towers do not spread the virus" }],
+  ])("misses when the %s changes", (_, change) => {
+    expect(createCacheKey({ ...parts, ...change })).not.toBe(createCacheKey(parts))
+  })
+})
+
+describe("stripTrackingParams", () => {
+  it("keeps parameters that change the page and text that is not a URL", () => {
+    expect(stripTrackingParams("https://news.example/a?id=1&utm_medium=social")).toBe("https://news.example/a?id=1")
+    expect(stripTrackingParams("not a url")).toBe("not a url")
+  })
+})
+
+describe("createMemoryCache", () => {
+  it("returns a stored result until it expires", async () => {
+    let time = 0
+    const cache = createMemoryCache({ ttlMs: 1000, now: () => time })
+    await cache.set("key", result(80))
+
+    time = 999
+    expect(await cache.get("key")).toEqual(result(80))
+    time = 1000
+    expect(await cache.get("key")).toBeUndefined()
+  })
+
+  it("replaces a result written again under the same key", async () => {
+    const cache = createMemoryCache({ ttlMs: 1000 })
+    await cache.set("key", result(80))
+    await cache.set("key", result(60))
+    expect(await cache.get("key")).toEqual(result(60))
+  })
+
+  it("evicts the least recently written entry once full", async () => {
+    const cache = createMemoryCache({ ttlMs: 1000, maxEntries: 2 })
+    await cache.set("a", result(1))
+    await cache.set("b", result(2))
+    await cache.set("a", result(3))
+    await cache.set("c", result(4))
+
+    expect(await cache.get("b")).toBeUndefined()
+    expect(await cache.get("a")).toEqual(result(3))
+    expect(await cache.get("c")).toEqual(result(4))
+  })
+})
+
+describe("createResultCache", () => {
+  it("is off when the TTL is zero", () => {
+    expect(createResultCache(env({ ANALYSIS_CACHE_TTL_SECONDS: "0" }))).toBeNull()
+    expect(createResultCache(env({}))).not.toBeNull()
+  })
+})
+
+describe("analyzeContent with a result cache", () => {
+  it("serves repeats from the cache until forced to re-run", async () => {
+    let calls = 0
+    const reply = () => ({ classification: "Disinformation", confidence: 60 + ++calls, explanation: "Debunked." })
+    const provider = createMockProvider({ respond: () => JSON.stringify(reply()) })
+    const options = {
+      provider,
+      cache: createMemoryCache({ ttlMs: 60_000 }),
+      calibration: null,
+      retriever: null,
+      promptTemplate: getPromptTemplate(DEFAULT_PROMPT_TEMPLATE),
+    }
+
+    expect(await analyzeContent("5G towers spread the virus", options)).toMatchObject({ confidence: 61, cached: false })
+    expect(await analyzeContent("5g towers  spread the VIRUS", options)).toMatchObject({ confidence: 61, cached: true })
+    expect(await analyzeContent("5G towers spread the virus", { ...options, force: true })).toMatchObject({
+      confidence: 62,
+      cached: false,
+    })
+    expect(await analyzeContent("5G towers spread the virus", options)).toMatchObject({ confidence: 62, cached: true })
+    expect(calls).toBe(2)
+  })
+})
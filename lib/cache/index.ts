@@ -0,0 +1,28 @@
+import { createMemoryCache } from "./memory"
+import type { ResultCache } from "./types"
+
+export * from "./types"
+export { createMemoryCache }
+export { createCacheKey, normalizeContent, stripTrackingParams } from "./key"
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60
+
+let cache: ResultCache | null | undefined
+
+// ANALYSIS_CACHE_TTL_SECONDS=0 turns caching off
+export function createResultCache(env: NodeJS.ProcessEnv = process.env): ResultCache | null {
+  const ttlSeconds = Number.parseInt(env.ANALYSIS_CACHE_TTL_SECONDS ?? "", 10)
+  const ttl = Number.isFinite(ttlSeconds) && ttlSeconds >= 0 ? ttlSeconds : DEFAULT_TTL_SECONDS
+  if (ttl === 0) return null
+
+  const maxEntries = Number.parseInt(env.ANALYSIS_CACHE_MAX_ENTRIES ?? "", 10)
+  return createMemoryCache({
+    ttlMs: ttl * 1000,
+    maxEntries: Number.isFinite(maxEntries) && maxEntries > 0 ? maxEntries : undefined,
+  })
+}
+
+export function getResultCache(): ResultCache | null {
+  if (cache === undefined) cache = createResultCache()
+  return cache
+}
@@ -0,0 +1,64 @@
+import { createHash } from "node:crypto"
+
+// Share-link noise that changes the text without changing what it says
+const TRACKING_PARAM_PATTERN =
+  /^(utm_\w+|fbclid|gclid|dclid|gbraid|wbraid|msclkid|yclid|mc_cid|mc_eid|igshid|_ga|ref_src|si)$/i
+
+export function stripTrackingParams(value: string) {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return value
+  }
+  for (const name of [...url.searchParams.keys()]) {
+    if (TRACKING_PARAM_PATTERN.test(name)) url.searchParams.delete(name)
+  }
+  url.hash = ""
+  return url.toString()
+}
+
+// Pastes of the same post differ in whitespace, casing, lookalike characters and tracking parameters
+export function normalizeContent(content: string) {
+  return content
+    .normalize("NFKC")
+    .replace(/https?:\/\/[^\s"'<>]+/gi, stripTrackingParams)
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+export interface CacheKeyParts {
+  content: string
+  comments?: { id: string; body: string }[]
+  promptVersion: string
+  provider: string
+  model: string
+  // Version of the fact-check corpus used for grounding, if any
+  corpus?: string
+  outputLanguage?: string
+}
+
+export function createCacheKey({
+  content,
+  comments = [],
+  promptVersion,
+  provider,
+  model,
+  corpus,
+  outputLanguage,
+}: CacheKeyParts) {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        promptVersion,
+        provider,
+        model,
+        corpus ?? null,
+        outputLanguage ?? null,
+        normalizeContent(content),
+        comments.map((comment) => [comment.id, normalizeContent(comment.body)]),
+      ]),
+    )
+    .digest("hex")
+}
@@ -0,0 +1,32 @@
+import type { AnalysisResult } from "@/lib/analysis/schema"
+import type { ResultCache } from "./types"
+
+export interface MemoryCacheConfig {
+  ttlMs: number
+  maxEntries?: number
+  now?: () => number
+}
+
+// Map keeps insertion order, so the first key is always the least recently written one
+export function createMemoryCache({ ttlMs, maxEntries = 1000, now = Date.now }: MemoryCacheConfig): ResultCache {
+  const entries = new Map<string, { result: AnalysisResult; expiresAt: number }>()
+
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry) return undefined
+      if (entry.expiresAt <= now()) {
+        entries.delete(key)
+        return undefined
+      }
+      return entry.result
+    },
+    async set(key, result) {
+      entries.delete(key)
+      entries.set(key, { result, expiresAt: now() + ttlMs })
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!)
+      }
+    },
+  }
+}
@@ -0,0 +1,6 @@
+import type { AnalysisResult } from "@/lib/analysis/schema"
+
+export interface ResultCache {
+  get(key: string): Promise<AnalysisResult | undefined>
+  set(key: string, result: AnalysisResult): Promise<void>
+}
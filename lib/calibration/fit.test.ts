@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest"
+import { applyCalibration, fitIsotonic, fitTemperature } from "./fit"
+import type { CalibrationSample } from "./types"
+
+const samples = (confidence: number, outcomes: boolean[]): CalibrationSample[] =>
+  outcomes.map((correct) => ({ confidence, correct }))
+
+describe("fitIsotonic", () => {
+  const map = fitIsotonic([
+    ...samples(20, [false]),
+    ...samples(40, [true, false]),
+    ...samples(60, [false]),
+    ...samples(80, [true, true]),
+  ])
+
+  it("pools neighbours until accuracy never drops as confidence rises", () => {
+    // 40 and 60 are merged: 1 of 3 right at their count-weighted mean confidence
+    expect(map).toEqual({ method: "isotonic", thresholds: [0.2, 0.4667, 0.8], values: [0, 0.3333, 1] })
+  })
+
+  it("interpolates between thresholds and clamps outside them", () => {
+    expect(applyCalibration(map, 10)).toBe(0)
+    expect(applyCalibration(map, 20)).toBe(0)
+    expect(applyCalibration(map, 50)).toBe(40)
+    expect(applyCalibration(map, 95)).toBe(100)
+  })
+
+  it("never maps equal confidences to different values", () => {
+    const tied = fitIsotonic([...samples(70, [true, false, true]), ...samples(90, [true])])
+    expect(tied).toEqual({ method: "isotonic", thresholds: [0.7, 0.9], values: [0.6667, 1] })
+  })
+})
+
+describe("fitTemperature", () => {
+  it("softens an overconfident model", () => {
+    const map = fitTemperature(samples(90, [true, false, true, false, true, false]))
+    expect(map.method).toBe("temperature")
+    expect(map).toMatchObject({ temperature: 20 })
+    expect(applyCalibration(map, 90)).toBe(53)
+  })
+
+  it("sharpens an underconfident one", () => {
+    const map = fitTemperature(samples(60, [true, true, true, true, false]))
+    expect(map.method === "temperature" && map.temperature).toBeLessThan(1)
+    expect(applyCalibration(map, 60)).toBe(80)
+  })
+
+  it("leaves a calibrated model close to as it is", () => {
+    const map = fitTemperature(samples(75, [true, true, true, false]))
+    expect(map.method === "temperature" && map.temperature).toBeCloseTo(1, 2)
+    expect(applyCalibration(map, 75)).toBe(75)
+  })
+})
@@ -0,0 +1,90 @@
+import type { CalibrationMap, CalibrationMethod, CalibrationSample } from "./types"
+
+// Keeps logits finite for 0% and 100% answers
+const EPSILON = 0.01
+
+const clampProbability = (value: number) => Math.min(1 - EPSILON, Math.max(EPSILON, value))
+const logit = (p: number) => Math.log(p / (1 - p))
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z))
+
+function scaleByTemperature(confidence: number, temperature: number) {
+  return sigmoid(logit(clampProbability(confidence / 100)) / temperature)
+}
+
+function negativeLogLikelihood(samples: CalibrationSample[], temperature: number) {
+  return samples.reduce((total, { confidence, correct }) => {
+    const p = clampProbability(scaleByTemperature(confidence, temperature))
+    return total - Math.log(correct ? p : 1 - p)
+  }, 0)
+}
+
+// Single-parameter fit: a log-spaced grid over 0.05-20 is plenty and keeps the result deterministic
+export function fitTemperature(samples: CalibrationSample[]): CalibrationMap {
+  let best = { temperature: 1, loss: negativeLogLikelihood(samples, 1) }
+  for (let step = 0; step <= 400; step++) {
+    const temperature = Math.exp(Math.log(0.05) + (step / 400) * (Math.log(20) - Math.log(0.05)))
+    const loss = negativeLogLikelihood(samples, temperature)
+    if (loss < best.loss) best = { temperature, loss }
+  }
+  return { method: "temperature", temperature: Number(best.temperature.toFixed(4)) }
+}
+
+// Pool adjacent violators: merge neighbouring blocks until accuracy never drops as confidence rises
+export function fitIsotonic(samples: CalibrationSample[]): CalibrationMap {
+  // Ties start out as one block so equal confidences can never map to different values
+  const tied = new Map<number, { confidence: number; correct: number; count: number }>()
+  for (const { confidence, correct } of samples) {
+    const block = tied.get(confidence) ?? { confidence: confidence / 100, correct: 0, count: 0 }
+    block.correct += correct ? 1 : 0
+    block.count++
+    tied.set(confidence, block)
+  }
+
+  const blocks: { confidence: number; correct: number; count: number }[] = []
+  for (const block of [...tied.values()].sort((a, b) => a.confidence - b.confidence)) {
+    blocks.push(block)
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1]
+      const previous = blocks[blocks.length - 2]
+      if (previous.correct / previous.count < last.correct / last.count) break
+      const count = previous.count + last.count
+      blocks.splice(-2, 2, {
+        confidence: (previous.confidence * previous.count + last.confidence * last.count) / count,
+        correct: previous.correct + last.correct,
+        count,
+      })
+    }
+  }
+
+  return {
+    method: "isotonic",
+    thresholds: blocks.map((block) => Number(block.confidence.toFixed(4))),
+    values: blocks.map((block) => Number((block.correct / block.count).toFixed(4))),
+  }
+}
+
+export function fitCalibration(method: CalibrationMethod, samples: CalibrationSample[]): CalibrationMap {
+  return method === "temperature" ? fitTemperature(samples) : fitIsotonic(samples)
+}
+
+function interpolate(thresholds: number[], values: number[], x: number) {
+  if (!thresholds.length) return x
+  if (x <= thresholds[0]) return values[0]
+  for (let index = 1; index < thresholds.length; index++) {
+    if (x <= thresholds[index]) {
+      const span = thresholds[index] - thresholds[index - 1]
+      const weight = span > 0 ? (x - thresholds[index - 1]) / span : 1
+      return values[index - 1] + weight * (values[index] - values[index - 1])
+    }
+  }
+  return values[values.length - 1]
+}
+
+// Maps a raw 0-100 confidence to the calibrated 0-100 probability that the verdict is right
+export function applyCalibration(map: CalibrationMap, confidence: number): number {
+  const probability =
+    map.method === "temperature"
+      ? scaleByTemperature(confidence, map.temperature)
+      : interpolate(map.thresholds, map.values, confidence / 100)
+  return Math.round(Math.min(1, Math.max(0, probability)) * 100)
+}
@@ -0,0 +1,87 @@
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { z } from "zod"
+import { type AnalysisResult, CALIBRATION_METHODS } from "@/lib/analysis/schema"
+import { getDataDirectory } from "@/lib/store"
+import { applyCalibration } from "./fit"
+import type { Calibration, CalibrationStore } from "./types"
+
+export * from "./types"
+export { applyCalibration, fitCalibration, fitIsotonic, fitTemperature } from "./fit"
+
+const probabilities = z.array(z.number().min(0).max(1))
+
+export const calibrationSchema = z.object({
+  map: z.discriminatedUnion("method", [
+    z.object({ method: z.literal(CALIBRATION_METHODS[0]), temperature: z.number().positive() }),
+    z.object({ method: z.literal(CALIBRATION_METHODS[1]), thresholds: probabilities, values: probabilities }),
+  ]),
+  provider: z.string(),
+  model: z.string(),
+  promptVersion: z.string(),
+  samples: z.number().int().nonnegative(),
+  fittedAt: z.string(),
+})
+
+export function createMemoryCalibrationStore(initial: Calibration | null = null): CalibrationStore {
+  let calibration = initial
+  return {
+    async get() {
+      return calibration
+    },
+    async set(next) {
+      calibration = next
+    },
+  }
+}
+
+export function createFileCalibrationStore(filePath: string): CalibrationStore {
+  return {
+    async get() {
+      try {
+        const parsed = calibrationSchema.safeParse(JSON.parse(await readFile(filePath, "utf8")))
+        return parsed.success ? parsed.data : null
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+        throw error
+      }
+    },
+    async set(calibration) {
+      if (!calibration) {
+        await rm(filePath, { force: true })
+        return
+      }
+      await mkdir(path.dirname(filePath), { recursive: true })
+      await writeFile(`${filePath}.tmp`, JSON.stringify(calibrationSchema.parse(calibration), null, 2))
+      await rename(`${filePath}.tmp`, filePath)
+    },
+  }
+}
+
+let store: CalibrationStore | undefined
+
+export function getCalibrationStore(env: NodeJS.ProcessEnv = process.env): CalibrationStore {
+  return (store ??=
+    env.ANALYSIS_STORE === "memory"
+      ? createMemoryCalibrationStore()
+      : createFileCalibrationStore(path.join(getDataDirectory(env), "calibration.json")))
+}
+
+export function calibrationApplies(
+  calibration: Calibration,
+  { provider, model, promptVersion }: Pick<Calibration, "provider" | "model" | "promptVersion">,
+) {
+  return calibration.provider === provider && calibration.model === model && calibration.promptVersion === promptVersion
+}
+
+// Replaces the verdict's confidence with the calibrated one. Claim confidences are left as reported because the
+// map is fitted on whole-content verdicts, and Inconclusive results carry no confidence to rescale.
+export function calibrateResult(result: AnalysisResult, calibration: Calibration | null): AnalysisResult {
+  if (!calibration || result.classification === "Inconclusive") return result
+  const { map } = calibration
+  return {
+    ...result,
+    confidence: applyCalibration(map, result.confidence),
+    calibration: { method: map.method, rawConfidence: result.confidence },
+  }
+}
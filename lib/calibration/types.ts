@@ -0,0 +1,29 @@
+import type { CalibrationMethod } from "@/lib/analysis/schema"
+
+// One scored prediction: the confidence the model reported (0-100) and whether its verdict matched the label
+export interface CalibrationSample {
+  confidence: number
+  correct: boolean
+}
+
+export type CalibrationMap =
+  | { method: "temperature"; temperature: number }
+  // Piecewise-linear through (thresholds[i], values[i]); both in 0-1, thresholds ascending
+  | { method: "isotonic"; thresholds: number[]; values: number[] }
+
+// A fitted map only holds for the model and prompt it was fitted on
+export interface Calibration {
+  map: CalibrationMap
+  provider: string
+  model: string
+  promptVersion: string
+  samples: number
+  fittedAt: string
+}
+
+export interface CalibrationStore {
+  get(): Promise<Calibration | null>
+  set(calibration: Calibration | null): Promise<void>
+}
+
+export type { CalibrationMethod }
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest"
+import type { StoredAnalysis } from "@/lib/store"
+import { DAILY_LIMIT_DAYS, MAX_RANGE_DAYS, aggregateAnalyses, checkDashboardRange } from "./index"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const now = Date.parse("2024-06-30T12:00:00Z")
+
+function analysis(createdAt: string, result: Partial<StoredAnalysis["result"]> = {}): StoredAnalysis {
+  return {
+    id: createdAt,
+    createdAt,
+    input: { content: "text" },
+    result: {
+      classification: "Disinformation",
+      contentType: "Claim",
+      confidence: 80,
+      explanation: "Explained.",
+      keyTerms: [],
+      verificationSources: [],
+      recommendations: [],
+      claims: [],
+      comments: [],
+      timestamp: createdAt,
+      ...result,
+    },
+  }
+}
+
+describe("checkDashboardRange", () => {
+  it("accepts ranges up to the maximum span", () => {
+    expect(() => checkDashboardRange({}, now)).not.toThrow()
+    expect(() => checkDashboardRange({ from: "2023-07-01T00:00:00.000Z" }, now)).not.toThrow()
+    expect(() =>
+      checkDashboardRange({ from: "2020-01-01T00:00:00.000Z", to: "2020-12-31T23:59:59.999Z" }, now),
+    ).not.toThrow()
+  })
+
+  it.each([
+    [{ from: "-010000-01-01T00:00:00.000Z" }, `The range may span at most ${MAX_RANGE_DAYS} days`],
+    [{ from: "2020-01-01T00:00:00.000Z", to: "2024-01-01T00:00:00.000Z" }, "The range may span at most 366 days"],
+    [{ from: "2024-02-01T00:00:00.000Z", to: "2024-01-01T00:00:00.000Z" }, "from must be before to"],
+  ])("rejects %j", (range, message) => {
+    expect(() => checkDashboardRange(range, now)).toThrow(expect.objectContaining({ code: "invalid_request", message }))
+  })
+
+  it("measures a future to from now", () => {
+    const from = new Date(now - 300 * DAY_MS).toISOString()
+    expect(() => checkDashboardRange({ from, to: "+100000-01-01T00:00:00.000Z" }, now)).not.toThrow()
+  })
+})
+
+describe("aggregateAnalyses", () => {
+  it("starts the timeline at the oldest analysis, at most the maximum span back", () => {
+    const analyses = [analysis("2024-06-29T08:00:00Z"), analysis("1990-01-01T00:00:00Z")]
+    const { interval, timeline } = aggregateAnalyses(analyses, { now })
+    expect(interval).toBe("week")
+    expect(timeline.length).toBeLessThanOrEqual(Math.ceil(MAX_RANGE_DAYS / 7) + 1)
+    expect(Date.parse(timeline[0].date)).toBeGreaterThanOrEqual(now - (MAX_RANGE_DAYS + 7) * DAY_MS)
+    expect(timeline.at(-1)).toMatchObject({ date: "2024-06-24", Disinformation: 1 })
+  })
+
+  it("clamps a from date it is handed directly", () => {
+    const { timeline } = aggregateAnalyses([], { from: "-271821-04-20T00:00:00.000Z", now })
+    expect(timeline.length).toBeLessThanOrEqual(Math.ceil(MAX_RANGE_DAYS / 7) + 1)
+  })
+})
+
+describe("aggregateAnalyses buckets", () => {
+  const counts = (timeline: { date: string; Disinformation: number }[]) =>
+    Object.fromEntries(
+      timeline.filter((point) => point.Disinformation).map((point) => [point.date, point.Disinformation]),
+    )
+
+  it("splits days at midnight UTC and fills empty days with zeros", () => {
+    const analyses = [
+      analysis("2024-06-12T00:00:00.000Z"),
+      analysis("2024-06-11T23:59:59.999Z"),
+      analysis("2024-06-10T00:00:00.000Z"),
+    ]
+    const { interval, timeline } = aggregateAnalyses(analyses, { from: "2024-06-09T12:00:00Z", now })
+
+    expect(interval).toBe("day")
+    expect(timeline.map((point) => point.date)).toEqual([
+      "2024-06-09",
+      ...Array.from({ length: 21 }, (_, index) => `2024-06-${String(index + 10).padStart(2, "0")}`),
+    ])
+    expect(counts(timeline)).toEqual({ "2024-06-10": 1, "2024-06-11": 1, "2024-06-12": 1 })
+  })
+
+  it(`switches to weeks once the range passes ${DAILY_LIMIT_DAYS} days`, () => {
+    const to = "2024-06-30T00:00:00.000Z"
+    const days = (count: number) => new Date(Date.parse(to) - count * DAY_MS).toISOString()
+    expect(aggregateAnalyses([], { from: days(DAILY_LIMIT_DAYS), to, now }).interval).toBe("day")
+    expect(aggregateAnalyses([], { from: days(DAILY_LIMIT_DAYS + 1), to, now }).interval).toBe("week")
+  })
+
+  it("starts weeks on Monday, so a Sunday counts towards the week before", () => {
+    const analyses = [
+      // Monday, Sunday and Monday a week earlier
+      analysis("2024-06-24T00:00:00.000Z"),
+      analysis("2024-06-23T23:59:59.999Z"),
+      analysis("2024-06-17T00:00:00.000Z"),
+    ]
+    const { interval, timeline } = aggregateAnalyses(analyses, { from: "2024-01-03T00:00:00Z", now })
+
+    expect(interval).toBe("week")
+    expect(timeline[0].date).toBe("2024-01-01")
+    expect(timeline.every((point) => new Date(point.date).getUTCDay() === 1)).toBe(true)
+    expect(counts(timeline)).toEqual({ "2024-06-17": 2, "2024-06-24": 1 })
+  })
+
+  it("counts analyses before the range in the totals but not on the timeline", () => {
+    const analyses = [analysis("2024-06-20T00:00:00.000Z"), analysis("2024-06-01T00:00:00.000Z")]
+    const { total, classifications, timeline } = aggregateAnalyses(analyses, { from: "2024-06-15T00:00:00Z", now })
+
+    expect([total, classifications.Disinformation]).toEqual([2, 2])
+    expect(counts(timeline)).toEqual({ "2024-06-20": 1 })
+  })
+
+  it("puts confidence into tens, with 100 in the top bucket", () => {
+    const analyses = [0, 9, 10, 55, 99, 100].map((confidence) => analysis("2024-06-20T00:00:00.000Z", { confidence }))
+    const { confidence } = aggregateAnalyses(analyses, { now })
+
+    expect(confidence.map((bucket) => bucket.Disinformation)).toEqual([2, 1, 0, 0, 0, 1, 0, 0, 0, 2])
+    expect(confidence.map((bucket) => bucket.min)).toEqual([0, 10, 20, 30, 40, 50, 60, 70, 80, 90])
+  })
+})
@@ -0,0 +1,158 @@
+import { AnalysisError } from "@/lib/analysis/errors"
+import { CLASSIFICATIONS } from "@/lib/analysis/schema"
+import { type ListAnalysesOptions, type StoredAnalysis, getAnalysisStore } from "@/lib/store"
+import {
+  type ClassificationCounts,
+  type ConfidenceBucket,
+  type DashboardData,
+  MAX_RANGE_DAYS,
+  type NarrativeCount,
+  type SourceCount,
+  type TermCount,
+  type TimelineInterval,
+  type TimelinePoint,
+} from "./types"
+
+export * from "./types"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+export const DAILY_LIMIT_DAYS = 90
+const TOP_COUNT = 15
+
+const emptyCounts = (): ClassificationCounts =>
+  Object.fromEntries(CLASSIFICATIONS.map((classification) => [classification, 0])) as ClassificationCounts
+
+function bucketStart(time: number, interval: TimelineInterval) {
+  const day = Math.floor(time / DAY_MS) * DAY_MS
+  if (interval === "day") return day
+  // The epoch was a Thursday; shift so weeks start on Monday
+  const weekday = (new Date(day).getUTCDay() + 6) % 7
+  return day - weekday * DAY_MS
+}
+
+// Every bucket from the first to the last is present, so gaps show as zeros rather than being skipped
+function buildTimeline(
+  analyses: StoredAnalysis[],
+  from: number,
+  to: number,
+): Pick<DashboardData, "interval" | "timeline"> {
+  const interval: TimelineInterval = to - from > DAILY_LIMIT_DAYS * DAY_MS ? "week" : "day"
+  const step = interval === "day" ? DAY_MS : 7 * DAY_MS
+  const points = new Map<number, TimelinePoint>()
+  for (let time = bucketStart(from, interval); time <= to; time += step) {
+    points.set(time, { date: new Date(time).toISOString().slice(0, 10), ...emptyCounts() })
+  }
+  for (const { createdAt, result } of analyses) {
+    const point = points.get(bucketStart(Date.parse(createdAt), interval))
+    if (point) point[result.classification]++
+  }
+  return { interval, timeline: [...points.values()] }
+}
+
+function buildConfidence(analyses: StoredAnalysis[]): ConfidenceBucket[] {
+  const buckets = Array.from({ length: 10 }, (_, index) => ({ min: index * 10, ...emptyCounts() }))
+  for (const { result } of analyses) {
+    buckets[Math.min(9, Math.floor(result.confidence / 10))][result.classification]++
+  }
+  return buckets
+}
+
+function top<T extends { count: number }>(counts: Iterable<T>) {
+  return [...counts].sort((a, b) => b.count - a.count).slice(0, TOP_COUNT)
+}
+
+// Terms are counted once per analysis and merged case-insensitively, keeping the first spelling seen
+function countKeyTerms(analyses: StoredAnalysis[]): TermCount[] {
+  const counts = new Map<string, TermCount>()
+  for (const { result } of analyses) {
+    const terms = new Set(result.keyTerms.map((term) => term.trim()).filter(Boolean))
+    for (const term of terms) {
+      const entry = counts.get(term.toLowerCase()) ?? { term, count: 0 }
+      entry.count++
+      counts.set(term.toLowerCase(), entry)
+    }
+  }
+  return top(counts.values())
+}
+
+// Narratives are the published fact-checks analyses matched, on the whole content or on one of its claims
+function countNarratives(analyses: StoredAnalysis[]): NarrativeCount[] {
+  const counts = new Map<string, NarrativeCount>()
+  for (const { result } of analyses) {
+    const citations = [...(result.citations ?? []), ...result.claims.flatMap((claim) => claim.citations ?? [])]
+    for (const citation of new Map(citations.map((citation) => [citation.url, citation])).values()) {
+      const { claim, url, rating, publisher } = citation
+      const entry = counts.get(url) ?? { claim, url, rating, publisher, count: 0 }
+      entry.count++
+      counts.set(url, entry)
+    }
+  }
+  return top(counts.values())
+}
+
+function countSources(analyses: StoredAnalysis[], nameOf: (analysis: StoredAnalysis) => string | undefined) {
+  const counts = new Map<string, SourceCount>()
+  for (const analysis of analyses) {
+    const name = nameOf(analysis)
+    if (!name) continue
+    const entry = counts.get(name) ?? { name, count: 0, disinformation: 0 }
+    entry.count++
+    if (analysis.result.classification === "Disinformation") entry.disinformation++
+    counts.set(name, entry)
+  }
+  return top(counts.values())
+}
+
+function domainOf({ input, result }: StoredAnalysis) {
+  if (result.source?.kind === "reddit") return undefined
+  const url = result.source?.canonicalUrl ?? result.source?.url ?? input.url
+  if (!url) return undefined
+  try {
+    return new URL(url).hostname.replace(/^www\./, "")
+  } catch {
+    return undefined
+  }
+}
+
+// Ranges the dashboard refuses: reversed, or wider than MAX_RANGE_DAYS up to `to` (or now)
+export function checkDashboardRange({ from, to }: { from?: string; to?: string }, now = Date.now()) {
+  if (!from) return
+  const start = Date.parse(from)
+  if (to && start > Date.parse(to)) throw new AnalysisError("invalid_request", "from must be before to")
+  const end = to ? Math.min(Date.parse(to), now) : now
+  if (end - start > MAX_RANGE_DAYS * DAY_MS) {
+    throw new AnalysisError("invalid_request", `The range may span at most ${MAX_RANGE_DAYS} days`)
+  }
+}
+
+export function aggregateAnalyses(
+  analyses: StoredAnalysis[],
+  { from, to, now = Date.now() }: { from?: string; to?: string; now?: number } = {},
+): DashboardData {
+  // Without a from date the timeline starts at the oldest analysis, at most MAX_RANGE_DAYS back; list() returns
+  // newest first
+  const oldest = analyses.at(-1)
+  const end = to ? Math.min(Date.parse(to), now) : now
+  const start = Math.max(
+    from ? Date.parse(from) : oldest ? Date.parse(oldest.createdAt) : now,
+    end - MAX_RANGE_DAYS * DAY_MS,
+  )
+
+  const classifications = emptyCounts()
+  for (const { result } of analyses) classifications[result.classification]++
+
+  return {
+    total: analyses.length,
+    classifications,
+    ...buildTimeline(analyses, start, end),
+    confidence: buildConfidence(analyses),
+    keyTerms: countKeyTerms(analyses),
+    narratives: countNarratives(analyses),
+    domains: countSources(analyses, domainOf),
+    subreddits: countSources(analyses, ({ result }) => result.source?.reddit && `r/${result.source.reddit.subreddit}`),
+  }
+}
+
+export async function getDashboard(filters: Omit<ListAnalysesOptions, "limit"> = {}) {
+  return aggregateAnalyses(await getAnalysisStore().list(filters), filters)
+}
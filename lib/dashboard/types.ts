@@ -0,0 +1,51 @@
+import type { Classification } from "@/lib/analysis/schema"
+
+export type ClassificationCounts = Record<Classification, number>
+
+// Widest range the timeline covers, so no request can ask for an unbounded number of empty buckets
+export const MAX_RANGE_DAYS = 366
+
+// Days for ranges up to DAILY_LIMIT_DAYS, weeks starting on Monday beyond that
+export type TimelineInterval = "day" | "week"
+
+export interface TimelinePoint extends ClassificationCounts {
+  // The first day of the bucket, as YYYY-MM-DD in UTC
+  date: string
+}
+
+export interface ConfidenceBucket extends ClassificationCounts {
+  // Lower bound; the bucket covers min to min + 9, and the last one includes 100
+  min: number
+}
+
+export interface TermCount {
+  term: string
+  count: number
+}
+
+// A published fact-check and how many analyses matched it
+export interface NarrativeCount {
+  claim: string
+  url: string
+  rating: string
+  publisher?: string
+  count: number
+}
+
+export interface SourceCount {
+  name: string
+  count: number
+  disinformation: number
+}
+
+export interface DashboardData {
+  total: number
+  classifications: ClassificationCounts
+  interval: TimelineInterval
+  timeline: TimelinePoint[]
+  confidence: ConfidenceBucket[]
+  keyTerms: TermCount[]
+  narratives: NarrativeCount[]
+  domains: SourceCount[]
+  subreddits: SourceCount[]
+}
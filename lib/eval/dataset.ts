@@ -0,0 +1,40 @@
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+import { z } from "zod"
+import { AnalysisError } from "@/lib/analysis/errors"
+import { classificationSchema } from "@/lib/analysis/schema"
+import type { LabeledExample } from "./types"
+
+export const labeledExampleSchema = z.object({
+  id: z.union([z.string(), z.number()]).transform(String).optional(),
+  content: z.string().trim().min(1),
+  label: classificationSchema,
+  response: z.string().optional(),
+})
+
+// One JSON object per line; examples without an id are numbered by line
+export function parseLabeledDataset(text: string): LabeledExample[] {
+  return text.split(/\r?\n/).flatMap((line, index) => {
+    if (!line.trim()) return []
+    let json: unknown
+    try {
+      json = JSON.parse(line)
+    } catch {
+      throw new AnalysisError("invalid_request", `Dataset line ${index + 1} is not valid JSON`)
+    }
+    const parsed = labeledExampleSchema.safeParse(json)
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "line"}: ${issue.message}`)
+      throw new AnalysisError("invalid_request", `Dataset line ${index + 1} is invalid (${issues.join("; ")})`)
+    }
+    return [{ ...parsed.data, id: parsed.data.id ?? String(index + 1) }]
+  })
+}
+
+export function getDatasetPath(env: NodeJS.ProcessEnv = process.env) {
+  return env.EVAL_DATASET || path.join(process.cwd(), "data", "eval", "labeled.jsonl")
+}
+
+export async function loadLabeledDataset(filePath = getDatasetPath()): Promise<LabeledExample[]> {
+  return parseLabeledDataset(await readFile(filePath, "utf8"))
+}
@@ -0,0 +1,4 @@
+export * from "./types"
+export { getDatasetPath, labeledExampleSchema, loadLabeledDataset, parseLabeledDataset } from "./dataset"
+export { evaluatePredictions, reliabilityBins } from "./metrics"
+export { type EvaluationOptions, RECORDED_PROVIDER, runEvaluation } from "./run"
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest"
+import { evaluatePredictions } from "./metrics"
+import type { Prediction } from "./types"
+
+const prediction = (label: Prediction["label"], predicted: Prediction["predicted"], confidence: number, id = "") => ({
+  id,
+  label,
+  predicted,
+  confidence,
+})
+
+describe("evaluatePredictions", () => {
+  const predictions = [
+    prediction("Disinformation", "Disinformation", 95),
+    prediction("Disinformation", "Not Disinformation", 85),
+    prediction("Not Disinformation", "Not Disinformation", 80),
+    prediction("Not Disinformation", "Not Disinformation", 100),
+    prediction("Inconclusive", "Disinformation", 30),
+  ]
+  const metrics = evaluatePredictions(predictions)
+
+  it("scores accuracy and per-class precision and recall", () => {
+    expect(metrics.total).toBe(5)
+    expect(metrics.accuracy).toBe(0.6)
+    expect(metrics.perClass).toEqual({
+      Disinformation: { precision: 0.5, recall: 0.5, support: 2 },
+      "Not Disinformation": { precision: 0.6667, recall: 1, support: 2 },
+      Inconclusive: { precision: 0, recall: 0, support: 1 },
+      "NSFW Content": { precision: 0, recall: 0, support: 0 },
+    })
+  })
+
+  it("bins by confidence, with 100 in the last bin", () => {
+    const filled = metrics.reliability.filter((bin) => bin.count > 0)
+    expect(filled).toEqual([
+      { lower: 30, upper: 40, count: 1, accuracy: 0, meanConfidence: 0.3 },
+      { lower: 80, upper: 90, count: 2, accuracy: 0.5, meanConfidence: 0.825 },
+      { lower: 90, upper: 100, count: 2, accuracy: 1, meanConfidence: 0.975 },
+    ])
+    expect(metrics.reliability).toHaveLength(10)
+    expect(evaluatePredictions(predictions, 4).reliability.map((bin) => bin.count)).toEqual([0, 1, 0, 4])
+  })
+
+  it("weights each bin's confidence gap by its share of predictions", () => {
+    // 1/5 * 0.3 + 2/5 * 0.325 + 2/5 * 0.025
+    expect(metrics.ece).toBe(0.2)
+  })
+
+  it("reports zeros for no predictions", () => {
+    expect(evaluatePredictions([])).toMatchObject({ total: 0, accuracy: 0, ece: 0 })
+  })
+})
@@ -0,0 +1,55 @@
+import { CLASSIFICATIONS, type Classification } from "@/lib/analysis/schema"
+import type { ClassMetrics, EvaluationMetrics, Prediction, ReliabilityBin } from "./types"
+
+const round = (value: number) => Math.round(value * 10000) / 10000
+const ratio = (numerator: number, denominator: number) => (denominator ? round(numerator / denominator) : 0)
+
+export function reliabilityBins(predictions: Prediction[], binCount = 10): ReliabilityBin[] {
+  const bins = Array.from({ length: binCount }, (_, index) => ({
+    lower: (index * 100) / binCount,
+    upper: ((index + 1) * 100) / binCount,
+    correct: 0,
+    confidence: 0,
+    count: 0,
+  }))
+
+  for (const prediction of predictions) {
+    const bin = bins[Math.min(binCount - 1, Math.floor((prediction.confidence / 100) * binCount))]
+    bin.count++
+    bin.confidence += prediction.confidence / 100
+    if (prediction.predicted === prediction.label) bin.correct++
+  }
+
+  return bins.map(({ lower, upper, correct, confidence, count }) => ({
+    lower,
+    upper,
+    count,
+    accuracy: ratio(correct, count),
+    meanConfidence: ratio(confidence, count),
+  }))
+}
+
+export function evaluatePredictions(predictions: Prediction[], binCount = 10): EvaluationMetrics {
+  const total = predictions.length
+  const correct = predictions.filter((prediction) => prediction.predicted === prediction.label).length
+
+  const perClass = Object.fromEntries(
+    CLASSIFICATIONS.map((classification): [Classification, ClassMetrics] => {
+      const truePositives = predictions.filter(
+        (prediction) => prediction.predicted === classification && prediction.label === classification,
+      ).length
+      const predicted = predictions.filter((prediction) => prediction.predicted === classification).length
+      const support = predictions.filter((prediction) => prediction.label === classification).length
+      const precision = ratio(truePositives, predicted)
+      return [classification, { precision, recall: ratio(truePositives, support), support }]
+    }),
+  ) as Record<Classification, ClassMetrics>
+
+  const reliability = reliabilityBins(predictions, binCount)
+  const ece = reliability.reduce(
+    (sum, bin) => sum + (total ? (bin.count / total) * Math.abs(bin.accuracy - bin.meanConfidence) : 0),
+    0,
+  )
+
+  return { total, accuracy: ratio(correct, total), perClass, ece: round(ece), reliability }
+}
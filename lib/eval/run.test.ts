@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { calibrationApplies } from "@/lib/calibration"
+import { DEFAULT_PROMPT_TEMPLATE, getPromptTemplate } from "@/lib/prompts"
+import { createMockProvider } from "@/lib/providers"
+import { loadLabeledDataset } from "./dataset"
+import { RECORDED_PROVIDER, runEvaluation } from "./run"
+
+describe("runEvaluation", () => {
+  // Every bundled example has a recorded reply, so this never reaches a provider
+  const options = {
+    provider: createMockProvider({ respond: () => Promise.reject(new Error("The provider was called")) }),
+    promptTemplate: getPromptTemplate(DEFAULT_PROMPT_TEMPLATE),
+    retriever: null,
+  }
+
+  it("replays the bundled dataset offline", async () => {
+    const report = await runEvaluation(await loadLabeledDataset(), { ...options, calibrate: "isotonic" })
+
+    expect(report).toMatchObject({
+      provider: RECORDED_PROVIDER,
+      promptVersion: DEFAULT_PROMPT_TEMPLATE,
+      examples: 20,
+      errors: [],
+    })
+    expect(report.metrics.accuracy).toBe(0.8)
+    const wrong = report.predictions.filter((prediction) => prediction.predicted !== prediction.label)
+    expect(wrong.map((prediction) => prediction.id)).toEqual(["ex-06", "ex-15", "ex-16", "ex-19"])
+    expect(report.calibration).toMatchObject({ method: "isotonic", fitted: { samples: 20 } })
+  })
+
+  it("never fits recorded replies as the live model's calibration", async () => {
+    const report = await runEvaluation(await loadLabeledDataset(), { ...options, calibrate: "temperature" })
+    const live = { provider: options.provider.id, model: options.provider.model, promptVersion: report.promptVersion }
+
+    expect(report.calibration?.fitted).toMatchObject({ provider: RECORDED_PROVIDER, model: RECORDED_PROVIDER })
+    expect(calibrationApplies(report.calibration!.fitted, live)).toBe(false)
+  })
+
+  it("labels runs without recorded replies with the live provider", async () => {
+    const reply = JSON.stringify({ classification: "Disinformation", confidence: 80 })
+    const provider = createMockProvider({ respond: () => reply })
+    const examples = [
+      { id: "1", content: "The moon is made of cheese.", label: "Disinformation" as const },
+      { id: "2", content: "Water boils at 100 C at sea level.", label: "Not Disinformation" as const },
+    ]
+
+    const report = await runEvaluation(examples, { ...options, provider, calibrate: "temperature" })
+    expect(report).toMatchObject({ provider: provider.id, model: provider.model, errors: [] })
+    expect(report.calibration?.fitted).toMatchObject({ provider: provider.id, model: provider.model })
+  })
+})
@@ -0,0 +1,106 @@
+import { type AnalyzeOptions, analyzeContent } from "@/lib/analysis/analyze"
+import { AnalysisError } from "@/lib/analysis/errors"
+import type { CalibrationMethod } from "@/lib/analysis/schema"
+import {
+  type Calibration,
+  type CalibrationSample,
+  applyCalibration,
+  fitCalibration,
+} from "@/lib/calibration"
+import { DEFAULT_PROMPT_TEMPLATE, getPromptTemplate, promptTemplateId } from "@/lib/prompts"
+import { createMockProvider, getAnalysisProvider } from "@/lib/providers"
+import { getSettingsStore } from "@/lib/settings"
+import { evaluatePredictions } from "./metrics"
+import type { EvaluationReport, LabeledExample, Prediction } from "./types"
+
+// Runs that replay any recorded reply are reported, and fitted, under this provider and model rather than the live
+// ones, so their calibration can never be taken for the configured model's
+export const RECORDED_PROVIDER = "recorded"
+
+export interface EvaluationOptions extends Pick<AnalyzeOptions, "provider" | "promptTemplate" | "retriever"> {
+  // Also fit this calibration and report how it does on held-out predictions
+  calibrate?: CalibrationMethod
+  binCount?: number
+}
+
+const toSample = (prediction: Prediction): CalibrationSample => ({
+  confidence: prediction.confidence,
+  correct: prediction.predicted === prediction.label,
+})
+
+// Two folds split by position: each half is rescaled by a map fitted on the other half
+function crossFitted(method: CalibrationMethod, predictions: Prediction[]): Prediction[] {
+  const folds = [0, 1].map((fold) => predictions.filter((_, index) => index % 2 === fold))
+  const maps = folds.map((fold) => fitCalibration(method, fold.map(toSample)))
+  return predictions.map((prediction, index) => ({
+    ...prediction,
+    confidence: applyCalibration(maps[(index + 1) % 2], prediction.confidence),
+  }))
+}
+
+// Runs every example through the full analyzer with caching and any saved calibration switched off
+export async function runEvaluation(
+  examples: LabeledExample[],
+  options: EvaluationOptions = {},
+): Promise<EvaluationReport> {
+  const provider = options.provider ?? getAnalysisProvider()
+  const template =
+    options.promptTemplate ??
+    getPromptTemplate((await getSettingsStore().get()).promptTemplate) ??
+    getPromptTemplate(DEFAULT_PROMPT_TEMPLATE)!
+  const promptVersion = promptTemplateId(template)
+  const identity = examples.some((example) => example.response)
+    ? { provider: RECORDED_PROVIDER, model: RECORDED_PROVIDER }
+    : { provider: provider.id, model: provider.model }
+
+  const predictions: Prediction[] = []
+  const errors: EvaluationReport["errors"] = []
+  for (const example of examples) {
+    const exampleProvider = example.response ? createMockProvider({ respond: () => example.response! }) : provider
+    try {
+      const result = await analyzeContent(example.content, {
+        provider: exampleProvider,
+        promptTemplate: template,
+        retriever: options.retriever,
+        cache: null,
+        calibration: null,
+      })
+      predictions.push({
+        id: example.id,
+        label: example.label,
+        predicted: result.classification,
+        confidence: result.confidence,
+      })
+    } catch (error) {
+      if (!(error instanceof AnalysisError)) throw error
+      errors.push({ id: example.id, message: error.message })
+    }
+  }
+
+  const report: EvaluationReport = {
+    ...identity,
+    promptVersion,
+    examples: examples.length,
+    errors,
+    metrics: evaluatePredictions(predictions, options.binCount),
+    predictions,
+  }
+
+  if (!options.calibrate || predictions.length < 2) return report
+
+  const fitted: Calibration = {
+    map: fitCalibration(options.calibrate, predictions.map(toSample)),
+    ...identity,
+    promptVersion,
+    samples: predictions.length,
+    fittedAt: new Date().toISOString(),
+  }
+  return {
+    ...report,
+    calibration: {
+      method: options.calibrate,
+      metrics: evaluatePredictions(crossFitted(options.calibrate, predictions), options.binCount),
+      fitted,
+    },
+  }
+}
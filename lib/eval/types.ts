@@ -0,0 +1,61 @@
+import type { CalibrationMethod, Classification } from "@/lib/analysis/schema"
+import type { Calibration } from "@/lib/calibration"
+
+export interface LabeledExample {
+  id: string
+  content: string
+  label: Classification
+  // Raw model output recorded earlier; replayed instead of calling a provider so runs are reproducible offline
+  response?: string
+}
+
+export interface Prediction {
+  id: string
+  label: Classification
+  predicted: Classification
+  // Reported confidence, 0-100
+  confidence: number
+}
+
+export interface ClassMetrics {
+  precision: number
+  recall: number
+  // Examples labeled with this class
+  support: number
+}
+
+// Predictions whose confidence falls in [lower, upper); the last bin also takes 100
+export interface ReliabilityBin {
+  lower: number
+  upper: number
+  count: number
+  accuracy: number
+  meanConfidence: number
+}
+
+export interface EvaluationMetrics {
+  total: number
+  accuracy: number
+  perClass: Record<Classification, ClassMetrics>
+  // Expected calibration error: bin-weighted gap between confidence and accuracy, 0-1
+  ece: number
+  reliability: ReliabilityBin[]
+}
+
+export interface EvaluationReport {
+  provider: string
+  model: string
+  promptVersion: string
+  examples: number
+  // Examples the analyzer threw on; they are left out of the metrics
+  errors: { id: string; message: string }[]
+  metrics: EvaluationMetrics
+  predictions: Prediction[]
+  calibration?: {
+    method: CalibrationMethod
+    // Measured out-of-fold, so the numbers are not flattered by fitting and scoring on the same examples
+    metrics: EvaluationMetrics
+    // Fitted on every prediction; this is what gets saved
+    fitted: Calibration
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest"
+import type { StoredAnalysis } from "@/lib/store"
+import { serializeJsonLd, toClaimReviewJsonLd } from "./claimreview"
+
+const analysis: StoredAnalysis = {
+  id: "abc123",
+  createdAt: "2024-05-02T10:00:00.000Z",
+  input: { content: "The moon landing was staged. Photos show no stars." },
+  result: {
+    classification: "Disinformation",
+    contentType: "Claim",
+    confidence: 90,
+    explanation: "The claims repeat a debunked conspiracy theory.",
+    keyTerms: [],
+    verificationSources: [],
+    recommendations: [],
+    claims: [
+      {
+        text: "The moon landing was staged",
+        verdict: "Disinformation",
+        contentType: "Claim",
+        confidence: 90,
+        keyTerms: [],
+        span: null,
+      },
+      {
+        text: "Photos show no stars",
+        verdict: "Inconclusive",
+        contentType: "Claim",
+        confidence: 60,
+        keyTerms: [],
+        span: null,
+      },
+    ],
+    comments: [],
+    timestamp: "2024-05-02T10:00:00.000Z",
+  },
+}
+
+const graph = (jsonLd: Record<string, unknown>) => jsonLd["@graph"] as Record<string, unknown>[]
+
+describe("toClaimReviewJsonLd", () => {
+  const baseUrl = "https://hunter.example/"
+
+  it("reviews each claim with the model's verdict", () => {
+    const reviews = graph(toClaimReviewJsonLd(analysis, { baseUrl }))
+    expect(reviews.map((review) => [review.url, review.claimReviewed, review.reviewRating])).toEqual([
+      [
+        "https://hunter.example/analysis/abc123#claim-1",
+        "The moon landing was staged",
+        { "@type": "Rating", ratingValue: 1, worstRating: 1, bestRating: 5, alternateName: "False" },
+      ],
+      [
+        "https://hunter.example/analysis/abc123#claim-2",
+        "Photos show no stars",
+        { "@type": "Rating", ratingValue: 3, worstRating: 1, bestRating: 5, alternateName: "Unverified" },
+      ],
+    ])
+  })
+
+  it("keeps the model's verdict while a review is pending, confirmed or escalated", () => {
+    for (const state of ["pending", "confirmed", "escalated"] as const) {
+      const review = { analysisId: analysis.id, state }
+      expect(toClaimReviewJsonLd(analysis, { baseUrl, review })).toEqual(toClaimReviewJsonLd(analysis, { baseUrl }))
+    }
+  })
+
+  it("publishes an overturned verdict in place of the model's", () => {
+    const reviews = graph(
+      toClaimReviewJsonLd(analysis, {
+        baseUrl,
+        review: {
+          analysisId: analysis.id,
+          state: "overturned",
+          classification: "Not Disinformation",
+          rationale: "Satire, labelled as such",
+          updatedAt: "2024-05-03T08:00:00.000Z",
+        },
+      }),
+    )
+    expect(reviews).toHaveLength(1)
+    expect(reviews[0]).toMatchObject({
+      url: "https://hunter.example/analysis/abc123",
+      claimReviewed: "The moon landing was staged. Photos show no stars.",
+      datePublished: "2024-05-02",
+      dateModified: "2024-05-03",
+      reviewRating: { ratingValue: 5, alternateName: "No disinformation found" },
+      reviewBody: "Satire, labelled as such",
+    })
+  })
+})
+
+describe("serializeJsonLd", () => {
+  it("escapes closing script tags", () => {
+    expect(serializeJsonLd({ text: "</script><script>alert(1)</script>" })).not.toContain("</script>")
+  })
+})
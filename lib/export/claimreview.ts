@@ -0,0 +1,109 @@
+import type { AnalysisResult, Classification } from "@/lib/analysis/schema"
+import type { PublicReview } from "@/lib/review/types"
+import type { StoredAnalysis } from "@/lib/store"
+
+type JsonLd = Record<string, unknown>
+
+export interface ClaimReviewOptions {
+  // Absolute origin the permalinks are served from, e.g. https://hunter.example
+  baseUrl: string
+  publisherName?: string
+  // The analysis' human review; an overturned verdict is published instead of the model's
+  review?: PublicReview
+}
+
+// 1-5 scale, worst to best, so consumers can compare it with other fact-checkers' ratings
+const RATINGS: Record<Classification, { value?: number; name: string }> = {
+  Disinformation: { value: 1, name: "False" },
+  Inconclusive: { value: 3, name: "Unverified" },
+  "Not Disinformation": { value: 5, name: "No disinformation found" },
+  // Adult content is not a factual claim, so it gets a label but no position on the scale
+  "NSFW Content": { name: "Not a factual claim" },
+}
+
+function reviewRating(classification: Classification): JsonLd {
+  const { value, name } = RATINGS[classification]
+  return {
+    "@type": "Rating",
+    ...(value !== undefined ? { ratingValue: value, worstRating: 1, bestRating: 5 } : {}),
+    alternateName: name,
+  }
+}
+
+function excerpt(text: string, length = 200) {
+  const collapsed = text.replace(/\s+/g, " ").trim()
+  return collapsed.length > length ? `${collapsed.slice(0, length - 3)}...` : collapsed
+}
+
+// The claim as it appeared in the wild; only URL submissions know where that was
+function itemReviewed(result: AnalysisResult, input: StoredAnalysis["input"]): JsonLd {
+  const source = result.source
+  const url = source?.canonicalUrl ?? source?.url ?? input.url
+  return {
+    "@type": "Claim",
+    ...(source?.author ? { author: { "@type": "Person", name: source.author } } : {}),
+    ...(source?.publishedAt ? { datePublished: source.publishedAt } : {}),
+    ...(url
+      ? {
+          appearance: {
+            "@type": "CreativeWork",
+            url,
+            ...(source?.title ? { headline: source.title } : {}),
+            ...(source?.siteName ? { publisher: { "@type": "Organization", name: source.siteName } } : {}),
+          },
+        }
+      : {}),
+  }
+}
+
+// One ClaimReview per checked claim, or a single review of the whole content when it was not split into claims.
+// A reviewer who overturned the verdict judged the content as a whole, so their rating replaces the claims'
+export function toClaimReviewJsonLd(
+  { id, createdAt, input, result }: StoredAnalysis,
+  { baseUrl, publisherName = "Disinformation Hunter", review }: ClaimReviewOptions,
+): JsonLd {
+  const permalink = `${baseUrl.replace(/\/$/, "")}/analysis/${id}`
+  const author = { "@type": "Organization", name: publisherName, url: baseUrl }
+  const base = {
+    "@type": "ClaimReview",
+    author,
+    datePublished: createdAt.slice(0, 10),
+    itemReviewed: itemReviewed(result, input),
+  }
+
+  const overturned = review?.state === "overturned" ? review.classification : undefined
+  const wholeContent = {
+    ...base,
+    url: permalink,
+    claimReviewed: result.source?.title ?? excerpt(result.source?.text ?? input.content ?? ""),
+  }
+
+  let reviews: JsonLd[]
+  if (overturned) {
+    reviews = [
+      {
+        ...wholeContent,
+        ...(review?.updatedAt ? { dateModified: review.updatedAt.slice(0, 10) } : {}),
+        reviewRating: reviewRating(overturned),
+        reviewBody: review?.rationale ?? result.explanation,
+      },
+    ]
+  } else if (result.claims.length) {
+    reviews = result.claims.map((claim, index) => ({
+      ...base,
+      url: `${permalink}#claim-${index + 1}`,
+      claimReviewed: claim.text,
+      reviewRating: reviewRating(claim.verdict),
+      reviewBody: result.explanation,
+    }))
+  } else {
+    reviews = [{ ...wholeContent, reviewRating: reviewRating(result.classification), reviewBody: result.explanation }]
+  }
+
+  return { "@context": "https://schema.org", "@graph": reviews }
+}
+
+// For embedding in a <script> tag without letting "</script>" in claim text end it early
+export function serializeJsonLd(value: JsonLd) {
+  return JSON.stringify(value).replace(/</g, "\\u003c")
+}
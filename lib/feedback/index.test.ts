@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { AnalysisResult } from "@/lib/analysis/schema"
+import { createMemoryReviewStore } from "@/lib/review"
+import { type AnalysisStore, createMemoryStore } from "@/lib/store"
+import {
+  type FeedbackRequest,
+  type FeedbackStore,
+  buildFeedbackDataset,
+  createMemoryFeedbackStore,
+  submitFeedback,
+} from "./index"
+
+let analysisStore: AnalysisStore
+
+vi.mock("@/lib/store", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/store")>()),
+  getAnalysisStore: () => analysisStore,
+}))
+
+const up: FeedbackRequest = { target: "verdict", rating: "up" }
+const down: FeedbackRequest = { target: "verdict", rating: "down", correctLabel: "Not Disinformation" }
+
+describe("buildFeedbackDataset", () => {
+  let feedbackStore: FeedbackStore
+  let analysisId: string
+
+  const build = async () => buildFeedbackDataset({}, { feedbackStore, reviewStore: createMemoryReviewStore() })
+
+  beforeEach(async () => {
+    analysisStore = createMemoryStore()
+    feedbackStore = createMemoryFeedbackStore()
+    const result = { classification: "Disinformation", confidence: 80 } as AnalysisResult
+    analysisId = (await analysisStore.save({ input: { content: "The moon is made of cheese." }, result })).id
+  })
+
+  it("labels by the majority of votes sent with an API key", async () => {
+    await submitFeedback(analysisId, up, { kind: "key", id: "k1" }, feedbackStore)
+    await submitFeedback(analysisId, up, { kind: "key", id: "k2" }, feedbackStore)
+    await submitFeedback(analysisId, down, { kind: "key", id: "k3" }, feedbackStore)
+
+    expect(await build()).toMatchObject([
+      { id: analysisId, label: "Disinformation", labelSource: "feedback", ratings: { verdict: { up: 2, down: 1 } } },
+    ])
+  })
+
+  it("counts anonymous votes in the ratings but never as the label", async () => {
+    await submitFeedback(analysisId, down, { kind: "ip", id: "203.0.113.1" }, feedbackStore)
+    await submitFeedback(analysisId, down, { kind: "ip", id: "203.0.113.2" }, feedbackStore)
+    await submitFeedback(analysisId, up, { kind: "key", id: "k1" }, feedbackStore)
+
+    expect(await build()).toMatchObject([{ label: "Disinformation", ratings: { verdict: { up: 1, down: 2 } } }])
+  })
+
+  it("leaves out analyses with only anonymous votes", async () => {
+    await submitFeedback(analysisId, up, { kind: "ip", id: "203.0.113.1" }, feedbackStore)
+
+    expect(await build()).toEqual([])
+  })
+
+  it("keeps one vote per client and target, the latest", async () => {
+    const client = { kind: "key", id: "k1" } as const
+    await submitFeedback(analysisId, up, client, feedbackStore)
+    await submitFeedback(analysisId, up, client, feedbackStore)
+    await submitFeedback(analysisId, down, client, feedbackStore)
+    await submitFeedback(analysisId, { target: "claims", rating: "up" }, client, feedbackStore)
+
+    expect(await build()).toMatchObject([
+      { label: "Not Disinformation", ratings: { verdict: { up: 0, down: 1 }, claims: { up: 1, down: 0 } } },
+    ])
+  })
+
+  it("stores a hash of the client rather than its address", async () => {
+    const entry = await submitFeedback(analysisId, up, { kind: "ip", id: "203.0.113.1" }, feedbackStore)
+
+    expect(entry).toMatchObject({ authenticated: false, voter: expect.stringMatching(/^[0-9a-f]{64}$/) })
+    expect(JSON.stringify(await feedbackStore.list())).not.toContain("203.0.113.1")
+  })
+})
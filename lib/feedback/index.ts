@@ -0,0 +1,153 @@
+import { createHash } from "node:crypto"
+import path from "node:path"
+import { z } from "zod"
+import { CLASSIFICATIONS, type Classification } from "@/lib/analysis/schema"
+import type { RateLimitClient } from "@/lib/rate-limit"
+import { type ReviewAuditEntry, getReviewStore } from "@/lib/review"
+import {
+  type AppendLog,
+  type ListAnalysesOptions,
+  type StoredAnalysis,
+  createFileAppendLog,
+  createMemoryAppendLog,
+  getAnalysisStore,
+  getDataDirectory,
+} from "@/lib/store"
+import { createAnalysisId } from "@/lib/store/id"
+import {
+  FEEDBACK_RATINGS,
+  FEEDBACK_TARGETS,
+  type FeedbackEntry,
+  type FeedbackExample,
+  type FeedbackStore,
+} from "./types"
+
+export * from "./types"
+
+export const MAX_FEEDBACK_BODY_BYTES = 16 * 1024
+
+export const feedbackRequestSchema = z
+  .object({
+    target: z.enum(FEEDBACK_TARGETS),
+    rating: z.enum(FEEDBACK_RATINGS),
+    correctLabel: z.enum(CLASSIFICATIONS).optional(),
+    comment: z.string().trim().max(1000).optional(),
+  })
+  .refine((body) => !body.correctLabel || (body.target === "verdict" && body.rating === "down"), {
+    message: "Only a thumbs-down on the verdict can carry a correct label",
+    path: ["correctLabel"],
+  })
+
+export type FeedbackRequest = z.infer<typeof feedbackRequestSchema>
+
+function createFeedbackStore(log: AppendLog<FeedbackEntry>): FeedbackStore {
+  return {
+    append: (entry) => log.append({ id: createAnalysisId(), createdAt: new Date().toISOString(), ...entry }),
+    list: (options) => log.list(options),
+  }
+}
+
+export function createMemoryFeedbackStore(): FeedbackStore {
+  return createFeedbackStore(createMemoryAppendLog())
+}
+
+export function createFileFeedbackStore(directory: string): FeedbackStore {
+  return createFeedbackStore(createFileAppendLog(path.join(directory, "feedback.jsonl")))
+}
+
+let store: FeedbackStore | undefined
+
+export function getFeedbackStore(env: NodeJS.ProcessEnv = process.env): FeedbackStore {
+  return (store ??=
+    env.ANALYSIS_STORE === "memory" ? createMemoryFeedbackStore() : createFileFeedbackStore(getDataDirectory(env)))
+}
+
+// Votes are tied to the client that is charged for them, hashed so the log keeps no IP addresses
+export function submitFeedback(
+  analysisId: string,
+  body: FeedbackRequest,
+  client: RateLimitClient,
+  feedbackStore = getFeedbackStore(),
+) {
+  return feedbackStore.append({
+    analysisId,
+    ...body,
+    comment: body.comment || undefined,
+    voter: createHash("sha256").update(`${client.kind}:${client.id}`).digest("hex"),
+    authenticated: client.kind === "key",
+  })
+}
+
+// One vote per voter and target: the latest replaces any earlier ones
+function latestVotes(entries: FeedbackEntry[]) {
+  return [...new Map(entries.map((entry) => [`${entry.voter}:${entry.target}`, entry])).values()]
+}
+
+function reviewLabel(analysis: StoredAnalysis, entry: ReviewAuditEntry | undefined): Classification | undefined {
+  if (entry?.to.state === "confirmed") return analysis.result.classification
+  if (entry?.to.state === "overturned") return entry.to.classification
+}
+
+// A thumbs-up agrees with the model, a thumbs-down with a correct label names another class; the most common wins
+// and ties go to no label, since users who disagree with each other are not a reliable label. Anonymous votes
+// still count in the ratings but never decide the label
+function feedbackLabel(analysis: StoredAnalysis, entries: FeedbackEntry[]): Classification | undefined {
+  const votes = new Map<Classification, number>()
+  for (const entry of entries) {
+    if (entry.target !== "verdict" || !entry.authenticated) continue
+    const label = entry.rating === "up" ? analysis.result.classification : entry.correctLabel
+    if (label) votes.set(label, (votes.get(label) ?? 0) + 1)
+  }
+
+  const [first, second] = [...votes].sort((a, b) => b[1] - a[1])
+  return first && (!second || first[1] > second[1]) ? first[0] : undefined
+}
+
+// Turns stored analyses with feedback or a settled review into labeled examples. Inconclusive labels are kept:
+// they mark content that should not get a confident verdict
+export async function buildFeedbackDataset(
+  options: Omit<ListAnalysesOptions, "limit"> = {},
+  { feedbackStore = getFeedbackStore(), reviewStore = getReviewStore() } = {},
+): Promise<FeedbackExample[]> {
+  const [analyses, feedback, reviews] = await Promise.all([
+    getAnalysisStore().list(options),
+    feedbackStore.list(),
+    reviewStore.list(),
+  ])
+  const feedbackByAnalysis = new Map<string, FeedbackEntry[]>()
+  for (const entry of feedback) {
+    feedbackByAnalysis.set(entry.analysisId, [...(feedbackByAnalysis.get(entry.analysisId) ?? []), entry])
+  }
+  const latestReview = new Map(reviews.map((entry) => [entry.analysisId, entry]))
+
+  return analyses.flatMap((analysis) => {
+    const entries = latestVotes(feedbackByAnalysis.get(analysis.id) ?? [])
+    const content = analysis.result.source?.text ?? analysis.input.content ?? ""
+    const reviewed = reviewLabel(analysis, latestReview.get(analysis.id))
+    const label = reviewed ?? feedbackLabel(analysis, entries)
+    if (!label || !content.trim()) return []
+
+    const ratings: FeedbackExample["ratings"] = {}
+    for (const entry of entries) {
+      const counts = (ratings[entry.target] ??= { up: 0, down: 0 })
+      counts[entry.rating]++
+    }
+
+    return [
+      {
+        id: analysis.id,
+        content,
+        label,
+        labelSource: reviewed ? "review" : "feedback",
+        model: {
+          classification: analysis.result.classification,
+          confidence: analysis.result.calibration?.rawConfidence ?? analysis.result.confidence,
+          promptVersion: analysis.result.promptVersion,
+        },
+        ratings,
+        comments: entries.flatMap((entry) => (entry.comment ? [entry.comment] : [])),
+        createdAt: analysis.createdAt,
+      },
+    ]
+  })
+}
@@ -0,0 +1,59 @@
+import type { Classification } from "@/lib/analysis/schema"
+
+// The overall verdict, then the result card's sections
+export const FEEDBACK_TARGETS = [
+  "verdict",
+  "explanation",
+  "claims",
+  "comments",
+  "sources",
+  "recommendations",
+  "keyTerms",
+] as const
+
+export type FeedbackTarget = (typeof FEEDBACK_TARGETS)[number]
+
+export const FEEDBACK_RATINGS = ["up", "down"] as const
+
+export type FeedbackRating = (typeof FEEDBACK_RATINGS)[number]
+
+export interface FeedbackEntry {
+  id: string
+  analysisId: string
+  createdAt: string
+  target: FeedbackTarget
+  rating: FeedbackRating
+  // What the verdict should have been, when the user said it was wrong and knows better
+  correctLabel?: Classification
+  comment?: string
+  // A hash of the API key or IP address the vote came from; a voter's latest vote on a target replaces earlier ones
+  voter: string
+  // Sent with an API key. Only these votes decide an exported label, since anyone can vote without one
+  authenticated: boolean
+}
+
+export interface FeedbackStore {
+  append(entry: Omit<FeedbackEntry, "id" | "createdAt">): Promise<FeedbackEntry>
+  // Oldest first; every analysis when analysisId is omitted
+  list(options?: { analysisId?: string }): Promise<FeedbackEntry[]>
+}
+
+// One line of the exported dataset; id, content and label are what the evaluation runner reads
+export interface FeedbackExample {
+  id: string
+  content: string
+  label: Classification
+  // A reviewer's verdict wins over user feedback
+  labelSource: "review" | "feedback"
+  // What the analyzer said, so a run against the dataset can be compared with the original one
+  model: {
+    classification: Classification
+    // As the model reported it, before any calibration
+    confidence: number
+    promptVersion?: string
+  }
+  // Up and down votes per section, for prompt tuning
+  ratings: Partial<Record<FeedbackTarget, { up: number; down: number }>>
+  comments: string[]
+  createdAt: string
+}
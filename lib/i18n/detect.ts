@@ -0,0 +1,39 @@
+import type { Language } from "./languages"
+
+// Short, frequent function words; enough to tell English from Spanish once scripts are ruled out
+const STOPWORDS: Partial<Record<Language, Set<string>>> = {
+  en: new Set(
+    "the and of to in is that it for was on are with as this be at by have from or not but they you he she we an"
+      .split(" "),
+  ),
+  es: new Set(
+    "el la los las de del que y en un una es por con para no se su al lo como más pero sus le ya o este esta son"
+      .split(" "),
+  ),
+}
+
+const SCRIPTS: [Language, RegExp][] = [
+  ["hi", /\p{Script=Devanagari}/gu],
+  ["ar", /\p{Script=Arabic}/gu],
+]
+
+// Returns undefined for text too short to judge or in a language outside LANGUAGES
+export function detectLanguage(text: string): Language | undefined {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0
+  if (letters < 3) return undefined
+
+  for (const [language, pattern] of SCRIPTS) {
+    if ((text.match(pattern)?.length ?? 0) / letters > 0.3) return language
+  }
+
+  const latin = text.match(/\p{Script=Latin}/gu)?.length ?? 0
+  if (latin / letters < 0.5) return undefined
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? []
+  const score = (language: Language) => words.filter((word) => STOPWORDS[language]!.has(word)).length
+  // Spanish-only letters and inverted punctuation settle short snippets
+  const spanish = score("es") + (/[ñ¿¡]/i.test(text) ? 2 : 0)
+  const english = score("en")
+  if (!spanish && !english) return undefined
+  return spanish > english ? "es" : "en"
+}
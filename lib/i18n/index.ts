@@ -0,0 +1,3 @@
+export * from "./languages"
+export { detectLanguage } from "./detect"
+export { MESSAGES, type Messages } from "./messages"
@@ -0,0 +1,23 @@
+// Languages the UI is translated into and analyses can be written in
+export const LANGUAGES = ["en", "es", "hi", "ar"] as const
+
+export type Language = (typeof LANGUAGES)[number]
+
+export const DEFAULT_LANGUAGE: Language = "en"
+
+export const LANGUAGE_INFO: Record<Language, { name: string; nativeName: string; dir: "ltr" | "rtl" }> = {
+  en: { name: "English", nativeName: "English", dir: "ltr" },
+  es: { name: "Spanish", nativeName: "Español", dir: "ltr" },
+  hi: { name: "Hindi", nativeName: "हिन्दी", dir: "ltr" },
+  ar: { name: "Arabic", nativeName: "العربية", dir: "rtl" },
+}
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === "string" && (LANGUAGES as readonly string[]).includes(value)
+}
+
+// First supported language in an Accept-Language header, for pages rendered before the client picks one
+export function languageFromHeader(acceptLanguage: string | null): Language {
+  const tags = (acceptLanguage ?? "").split(",").map((part) => part.split(";")[0].trim().toLowerCase().split("-")[0])
+  return tags.find(isLanguage) ?? DEFAULT_LANGUAGE
+}
@@ -0,0 +1,891 @@
+import type {
+  AdversarialFindingKind,
+  AnalysisErrorCode,
+  AnalysisStage,
+  Classification,
+  CommentStance,
+  ContentType,
+} from "@/lib/analysis/schema"
+import type { TimelineInterval } from "@/lib/dashboard/types"
+import type { ReviewState } from "@/lib/review/types"
+import type { Language } from "./languages"
+
+export interface Messages {
+  // Written into results by the server, in the requested output language
+  analysis: {
+    inconclusive: string
+    safetyBlocked: string
+    inconclusiveRecommendations: string[]
+    ensembleDisagreement: (split: string) => string
+  }
+  app: {
+    tagline: string
+    language: string
+    history: (count: number) => string
+    bulkMode: string
+    singleMode: string
+    recentAnalyses: string
+    placeholder: string
+    threadComments: string
+    commentsNone: string
+    commentsTop: (count: number) => string
+    analyze: string
+    analyzing: string
+    cancel: string
+    reset: string
+    reanalyze: string
+    share: string
+    copy: string
+    stages: Record<AnalysisStage, string>
+    emptyInput: string
+    genericError: string
+    cancelled: string
+    copiedTitle: string
+    copiedDescription: string
+    linkCopiedTitle: string
+    linkCopiedDescription: string
+    copyText: (classification: string, confidence: number, explanation: string) => string
+    footerTitle: string
+    footerSubtitle: string
+  }
+  image: {
+    hint: string
+    upload: string
+    reading: string
+    remove: string
+    review: string
+    ocrConfidence: (confidence: number) => string
+    noText: string
+    noCameraMetadata: string
+    taken: (date: string) => string
+    modified: (date: string) => string
+    software: (name: string) => string
+    artist: (name: string) => string
+  }
+  result: {
+    classifying: string
+    verdicts: Record<Classification, string>
+    contentTypes: Record<ContentType, string>
+    noVerdict: string
+    failures: Partial<Record<AnalysisErrorCode, string>>
+    adversarialTitle: string
+    adversarialNote: string
+    findings: Record<AdversarialFindingKind, string>
+    ensembleAgree: (count: number) => string
+    ensembleDisagree: (agreement: number) => string
+    ensembleFailed: (count: number) => string
+    writtenIn: (language: string) => string
+    comments: (count: number) => string
+    crosspostedFrom: string
+    linkedPage: string
+    confidence: string
+    calibratedConfidence: string
+    calibratedNote: (raw: number) => string
+    uncalibratedNote: string
+    detectionResults: string
+    matchingFactChecks: string
+    verificationSources: string
+    noFactCheckHint: string
+    recommendations: string
+    keyTerms: string
+    completedAt: (time: string) => string
+    servedFromCache: string
+    prompt: (version: string) => string
+  }
+  review: {
+    title: string
+    notReviewed: string
+    states: Record<ReviewState, string>
+    model: (verdict: string) => string
+    reviewer: (verdict: string) => string
+    reviewedAt: (date: string) => string
+    moderate: string
+    apiKey: string
+    classification: string
+    rationale: string
+    submit: string
+    failed: string
+  }
+  feedback: {
+    verdictPrompt: string
+    helpful: string
+    notHelpful: string
+    correctLabel: string
+    send: string
+    thanks: string
+    failed: string
+  }
+  dashboard: {
+    link: string
+    title: string
+    back: string
+    from: string
+    to: string
+    allVerdicts: string
+    total: (count: number) => string
+    loading: string
+    failed: string
+    empty: string
+    timeline: (interval: TimelineInterval) => string
+    confidence: string
+    keyTerms: string
+    narratives: string
+    domains: string
+    subreddits: string
+    matches: (count: number) => string
+    disinformationShare: (count: number, share: number) => string
+  }
+  bulk: {
+    placeholder: string
+    upload: string
+    removeFile: string
+    analyze: string
+    emptyInput: string
+    failed: string
+    progress: (completed: number, total: number) => string
+    failedCount: (count: number) => string
+    columns: { content: string; verdict: string; confidence: string; type: string }
+  }
+  permalink: {
+    notFound: string
+    newAnalysis: string
+  }
+  claims: {
+    title: string
+    showTranslations: string
+    showOriginals: string
+  }
+  comments: {
+    title: string
+    counts: (spreads: number, debunks: number, neutral: number) => string
+    stances: Record<CommentStance, string>
+  }
+}
+
+const en: Messages = {
+  analysis: {
+    inconclusive:
+      "No reliable verdict could be produced for this content. This does not mean the content is safe or false.",
+    safetyBlocked:
+      "The analysis service declined to assess this content, so there is no verdict. " +
+      "This does not mean the content is safe.",
+    inconclusiveRecommendations: [
+      "Try the analysis again later",
+      "Check the claims with an independent fact-checking site",
+    ],
+    ensembleDisagreement: (split) =>
+      `The models disagreed on this verdict (${split}), so the confidence has been lowered.`,
+  },
+  app: {
+    tagline:
+      "🔍 Paste a news article or Reddit link, or text below, for advanced disinformation detection with real " +
+      "verification sources.",
+    language: "Language",
+    history: (count) => `History (${count})`,
+    bulkMode: "Bulk Mode",
+    singleMode: "Single Mode",
+    recentAnalyses: "Recent Analyses",
+    placeholder: "📝 Paste an article or Reddit link (auto-extracts content), text, or a screenshot...",
+    threadComments: "💬 Also check the thread's top comments",
+    commentsNone: "None",
+    commentsTop: (count) => `Top ${count}`,
+    analyze: "🔍 Analyze Content",
+    analyzing: "🔍 Analyzing Content...",
+    cancel: "Cancel",
+    reset: "Reset",
+    reanalyze: "Re-analyze",
+    share: "Share",
+    copy: "Copy",
+    stages: {
+      fetching: "🌐 Fetching content...",
+      extracting: "📄 Extracting text...",
+      classifying: "🧠 Running detection engine...",
+      explaining: "✍️ Writing explanation...",
+    },
+    emptyInput: "Please enter some content to analyze",
+    genericError: "⚠️ Something went wrong. Try again with different text or later.",
+    cancelled: "Analysis cancelled",
+    copiedTitle: "Copied to clipboard",
+    copiedDescription: "Analysis result has been copied to your clipboard.",
+    linkCopiedTitle: "Link copied",
+    linkCopiedDescription: "Anyone with the link can view this analysis.",
+    copyText: (classification, confidence, explanation) =>
+      `Analysis: ${classification} (${confidence}% confidence)\nExplanation: ${explanation}`,
+    footerTitle: "🛡️ Disinformation Hunter Engine – Advanced Content Detection",
+    footerSubtitle: "🔍 Professional content analysis with verified fact-checking sources",
+  },
+  image: {
+    hint: "🖼️ Drop or paste an image to read its text",
+    upload: "Image",
+    reading: "Reading image...",
+    remove: "Remove image",
+    review: "✏️ Recognized text – fix any OCR mistakes before analyzing",
+    ocrConfidence: (confidence) => `OCR confidence: ${confidence}%`,
+    noText: "🖼️ No text was found in this image. Type it in to analyze it.",
+    noCameraMetadata: "No camera metadata – common for screenshots and re-shared images.",
+    taken: (date) => `Taken ${date}`,
+    modified: (date) => `Modified ${date}`,
+    software: (name) => `Software: ${name}`,
+    artist: (name) => `Artist: ${name}`,
+  },
+  result: {
+    classifying: "Classifying...",
+    verdicts: {
+      Disinformation: "🚫 Disinformation",
+      "Not Disinformation": "✅ Verified Safe",
+      "NSFW Content": "🔞 NSFW Content",
+      Inconclusive: "❔ Inconclusive",
+    },
+    contentTypes: { Opinion: "Opinion", Claim: "Claim", Assumption: "Assumption", Fact: "Fact", Mixed: "Mixed" },
+    noVerdict: "No verdict:",
+    failures: {
+      upstream_error: "the analysis service returned an error.",
+      empty_response: "the analysis service returned an empty answer.",
+      unparsable_output: "the answer could not be read, even after retrying.",
+      schema_mismatch: "the answer was incomplete, even after retrying.",
+      safety_block: "the analysis service's safety filter declined this content.",
+    },
+    adversarialTitle: "Adversarial input detected",
+    adversarialNote: "These parts were neutralized before classification.",
+    findings: {
+      injection: "Instructions aimed at the analyzer",
+      hidden_instruction: "Hidden text",
+      zero_width: "Invisible characters",
+      bidi_control: "Text direction tricks",
+      homoglyph: "Lookalike letters",
+    },
+    ensembleAgree: (count) => `All ${count} models agree`,
+    ensembleDisagree: (agreement) => `Models disagree – ${agreement}% agreement`,
+    ensembleFailed: (count) => `(${count} did not answer)`,
+    writtenIn: (language) => `🌐 Written in ${language}`,
+    comments: (count) => `${count} comments`,
+    crosspostedFrom: "crossposted from",
+    linkedPage: "linked page",
+    confidence: "Confidence Score",
+    calibratedConfidence: "Calibrated Confidence",
+    calibratedNote: (raw) =>
+      `How often verdicts at this level were right in evaluation; the model reported ${raw}%.`,
+    uncalibratedNote: "Reported by the model and not yet calibrated.",
+    detectionResults: "📋 Detection Results:",
+    matchingFactChecks: "🔗 Matching Fact-Checks",
+    verificationSources: "🔗 Verification Sources",
+    noFactCheckHint:
+      "💡 No matching fact-check was found; cross-reference this content with these fact-checking sources",
+    recommendations: "💡 Recommendations",
+    keyTerms: "Key Terms Analyzed:",
+    completedAt: (time) => `🕐 Analysis completed at ${time}`,
+    servedFromCache: " · ⚡ served from cache",
+    prompt: (version) => ` · prompt ${version}`,
+  },
+  review: {
+    title: "Human review",
+    notReviewed: "Not yet reviewed by a person",
+    states: { pending: "Pending", confirmed: "Confirmed", overturned: "Overturned", escalated: "Escalated" },
+    model: (verdict) => `Model: ${verdict}`,
+    reviewer: (verdict) => `Reviewer: ${verdict}`,
+    reviewedAt: (date) => `Reviewed ${date}`,
+    moderate: "Review as moderator",
+    apiKey: "API key with the review scope",
+    classification: "Corrected verdict",
+    rationale: "Rationale (required to overturn or escalate)",
+    submit: "Save review",
+    failed: "Review could not be saved",
+  },
+  feedback: {
+    verdictPrompt: "Was this verdict right?",
+    helpful: "Helpful",
+    notHelpful: "Not helpful",
+    correctLabel: "Correct label (optional)",
+    send: "Send",
+    thanks: "Thanks for the feedback",
+    failed: "Feedback could not be sent, try again",
+  },
+  dashboard: {
+    link: "Dashboard",
+    title: "Trends",
+    back: "New analysis",
+    from: "From",
+    to: "To",
+    allVerdicts: "All verdicts",
+    total: (count) => `${count} ${count === 1 ? "analysis" : "analyses"}`,
+    loading: "Loading…",
+    failed: "The dashboard could not be loaded",
+    empty: "No analyses match these filters",
+    timeline: (interval) => (interval === "day" ? "Verdicts per day" : "Verdicts per week"),
+    confidence: "Confidence distribution",
+    keyTerms: "Top key terms",
+    narratives: "Most matched fact-checks",
+    domains: "Most analyzed sites",
+    subreddits: "Most analyzed subreddits",
+    matches: (count) => `${count}×`,
+    disinformationShare: (count, share) => `${count} · ${share}% disinformation`,
+  },
+  bulk: {
+    placeholder: "📋 One post per line, or upload a CSV (with a content column) / JSONL file...",
+    upload: "Upload file",
+    removeFile: "Remove file",
+    analyze: "🔍 Analyze Batch",
+    emptyInput: "Add one post per line or upload a CSV/JSONL file",
+    failed: "Batch analysis failed",
+    progress: (completed, total) => `${completed} / ${total} analyzed`,
+    failedCount: (count) => ` · ${count} failed`,
+    columns: { content: "Content", verdict: "Verdict", confidence: "Confidence", type: "Type" },
+  },
+  permalink: {
+    notFound: "Analysis not found",
+    newAnalysis: "New analysis",
+  },
+  claims: {
+    title: "🧩 Claim Breakdown",
+    showTranslations: "Show translations",
+    showOriginals: "Show original wording",
+  },
+  comments: {
+    title: "💬 Top Comments",
+    counts: (spreads, debunks, neutral) => `${spreads} spreading · ${debunks} debunking · ${neutral} neutral`,
+    stances: { spreads: "📢 Spreads claim", debunks: "🛡️ Debunks claim", neutral: "➖ Neutral" },
+  },
+}
+
+const es: Messages = {
+  analysis: {
+    inconclusive:
+      "No se pudo obtener un veredicto fiable para este contenido. " +
+      "Esto no significa que el contenido sea seguro o falso.",
+    safetyBlocked:
+      "El servicio de análisis se negó a evaluar este contenido, por lo que no hay veredicto. " +
+      "Esto no significa que el contenido sea seguro.",
+    inconclusiveRecommendations: [
+      "Vuelve a intentar el análisis más tarde",
+      "Comprueba las afirmaciones en un sitio de verificación independiente",
+    ],
+    ensembleDisagreement: (split) =>
+      `Los modelos no coincidieron en este veredicto (${split}), por lo que se ha reducido la confianza.`,
+  },
+  app: {
+    tagline:
+      "🔍 Pega un enlace a una noticia o a Reddit, o un texto, para detectar desinformación con fuentes de " +
+      "verificación reales.",
+    language: "Idioma",
+    history: (count) => `Historial (${count})`,
+    bulkMode: "Modo masivo",
+    singleMode: "Modo individual",
+    recentAnalyses: "Análisis recientes",
+    placeholder: "📝 Pega un enlace a un artículo o a Reddit (se extrae el contenido), un texto o una captura...",
+    threadComments: "💬 Revisar también los comentarios principales del hilo",
+    commentsNone: "Ninguno",
+    commentsTop: (count) => `Los ${count} principales`,
+    analyze: "🔍 Analizar contenido",
+    analyzing: "🔍 Analizando contenido...",
+    cancel: "Cancelar",
+    reset: "Restablecer",
+    reanalyze: "Volver a analizar",
+    share: "Compartir",
+    copy: "Copiar",
+    stages: {
+      fetching: "🌐 Obteniendo contenido...",
+      extracting: "📄 Extrayendo texto...",
+      classifying: "🧠 Ejecutando el motor de detección...",
+      explaining: "✍️ Redactando la explicación...",
+    },
+    emptyInput: "Introduce algún contenido para analizar",
+    genericError: "⚠️ Algo salió mal. Inténtalo con otro texto o más tarde.",
+    cancelled: "Análisis cancelado",
+    copiedTitle: "Copiado al portapapeles",
+    copiedDescription: "El resultado del análisis se ha copiado al portapapeles.",
+    linkCopiedTitle: "Enlace copiado",
+    linkCopiedDescription: "Cualquiera con el enlace puede ver este análisis.",
+    copyText: (classification, confidence, explanation) =>
+      `Análisis: ${classification} (${confidence}% de confianza)\nExplicación: ${explanation}`,
+    footerTitle: "🛡️ Disinformation Hunter – Detección avanzada de contenido",
+    footerSubtitle: "🔍 Análisis profesional de contenido con fuentes de verificación contrastadas",
+  },
+  image: {
+    hint: "🖼️ Suelta o pega una imagen para leer su texto",
+    upload: "Imagen",
+    reading: "Leyendo imagen...",
+    remove: "Quitar imagen",
+    review: "✏️ Texto reconocido: corrige los errores de OCR antes de analizar",
+    ocrConfidence: (confidence) => `Confianza del OCR: ${confidence}%`,
+    noText: "🖼️ No se encontró texto en esta imagen. Escríbelo para analizarlo.",
+    noCameraMetadata: "Sin metadatos de cámara, algo habitual en capturas e imágenes reenviadas.",
+    taken: (date) => `Tomada el ${date}`,
+    modified: (date) => `Modificada el ${date}`,
+    software: (name) => `Software: ${name}`,
+    artist: (name) => `Autor: ${name}`,
+  },
+  result: {
+    classifying: "Clasificando...",
+    verdicts: {
+      Disinformation: "🚫 Desinformación",
+      "Not Disinformation": "✅ Verificado como seguro",
+      "NSFW Content": "🔞 Contenido para adultos",
+      Inconclusive: "❔ No concluyente",
+    },
+    contentTypes: { Opinion: "Opinión", Claim: "Afirmación", Assumption: "Suposición", Fact: "Hecho", Mixed: "Mixto" },
+    noVerdict: "Sin veredicto:",
+    failures: {
+      upstream_error: "el servicio de análisis devolvió un error.",
+      empty_response: "el servicio de análisis devolvió una respuesta vacía.",
+      unparsable_output: "no se pudo leer la respuesta, ni siquiera tras reintentarlo.",
+      schema_mismatch: "la respuesta estaba incompleta, ni siquiera tras reintentarlo.",
+      safety_block: "el filtro de seguridad del servicio de análisis rechazó este contenido.",
+    },
+    adversarialTitle: "Se detectó una entrada manipulada",
+    adversarialNote: "Estas partes se neutralizaron antes de la clasificación.",
+    findings: {
+      injection: "Instrucciones dirigidas al analizador",
+      hidden_instruction: "Texto oculto",
+      zero_width: "Caracteres invisibles",
+      bidi_control: "Trucos de dirección del texto",
+      homoglyph: "Letras de aspecto similar",
+    },
+    ensembleAgree: (count) => `Los ${count} modelos coinciden`,
+    ensembleDisagree: (agreement) => `Los modelos no coinciden: ${agreement}% de acuerdo`,
+    ensembleFailed: (count) => `(${count} sin respuesta)`,
+    writtenIn: (language) => `🌐 Escrito en ${language}`,
+    comments: (count) => `${count} comentarios`,
+    crosspostedFrom: "publicado también en",
+    linkedPage: "página enlazada",
+    confidence: "Nivel de confianza",
+    calibratedConfidence: "Confianza calibrada",
+    calibratedNote: (raw) =>
+      `Frecuencia con la que los veredictos de este nivel acertaron en la evaluación; el modelo indicó ${raw}%.`,
+    uncalibratedNote: "Indicada por el modelo y aún sin calibrar.",
+    detectionResults: "📋 Resultados de la detección:",
+    matchingFactChecks: "🔗 Verificaciones coincidentes",
+    verificationSources: "🔗 Fuentes de verificación",
+    noFactCheckHint:
+      "💡 No se encontró ninguna verificación coincidente; contrasta este contenido con estas fuentes",
+    recommendations: "💡 Recomendaciones",
+    keyTerms: "Términos clave analizados:",
+    completedAt: (time) => `🕐 Análisis completado el ${time}`,
+    servedFromCache: " · ⚡ servido desde la caché",
+    prompt: (version) => ` · prompt ${version}`,
+  },
+  review: {
+    title: "Revisión humana",
+    notReviewed: "Aún no revisado por una persona",
+    states: { pending: "Pendiente", confirmed: "Confirmado", overturned: "Revocado", escalated: "Escalado" },
+    model: (verdict) => `Modelo: ${verdict}`,
+    reviewer: (verdict) => `Revisor: ${verdict}`,
+    reviewedAt: (date) => `Revisado el ${date}`,
+    moderate: "Revisar como moderador",
+    apiKey: "Clave de API con el permiso review",
+    classification: "Veredicto corregido",
+    rationale: "Justificación (obligatoria para anular o escalar)",
+    submit: "Guardar revisión",
+    failed: "No se pudo guardar la revisión",
+  },
+  feedback: {
+    verdictPrompt: "¿Es correcto este veredicto?",
+    helpful: "Útil",
+    notHelpful: "No útil",
+    correctLabel: "Etiqueta correcta (opcional)",
+    send: "Enviar",
+    thanks: "Gracias por tu opinión",
+    failed: "No se pudo enviar la opinión, inténtalo de nuevo",
+  },
+  dashboard: {
+    link: "Panel",
+    title: "Tendencias",
+    back: "Nuevo análisis",
+    from: "Desde",
+    to: "Hasta",
+    allVerdicts: "Todos los veredictos",
+    total: (count) => `${count} análisis`,
+    loading: "Cargando…",
+    failed: "No se pudo cargar el panel",
+    empty: "Ningún análisis coincide con estos filtros",
+    timeline: (interval) => (interval === "day" ? "Veredictos por día" : "Veredictos por semana"),
+    confidence: "Distribución de la confianza",
+    keyTerms: "Términos clave principales",
+    narratives: "Verificaciones más coincidentes",
+    domains: "Sitios más analizados",
+    subreddits: "Subreddits más analizados",
+    matches: (count) => `${count}×`,
+    disinformationShare: (count, share) => `${count} · ${share}% desinformación`,
+  },
+  bulk: {
+    placeholder: "📋 Una publicación por línea, o sube un archivo CSV (con una columna content) / JSONL...",
+    upload: "Subir archivo",
+    removeFile: "Quitar archivo",
+    analyze: "🔍 Analizar lote",
+    emptyInput: "Añade una publicación por línea o sube un archivo CSV/JSONL",
+    failed: "El análisis por lotes falló",
+    progress: (completed, total) => `${completed} / ${total} analizados`,
+    failedCount: (count) => ` · ${count} fallidos`,
+    columns: { content: "Contenido", verdict: "Veredicto", confidence: "Confianza", type: "Tipo" },
+  },
+  permalink: {
+    notFound: "Análisis no encontrado",
+    newAnalysis: "Nuevo análisis",
+  },
+  claims: {
+    title: "🧩 Desglose de afirmaciones",
+    showTranslations: "Mostrar traducciones",
+    showOriginals: "Mostrar texto original",
+  },
+  comments: {
+    title: "💬 Comentarios principales",
+    counts: (spreads, debunks, neutral) => `${spreads} difunden · ${debunks} desmienten · ${neutral} neutrales`,
+    stances: { spreads: "📢 Difunde la afirmación", debunks: "🛡️ Desmiente la afirmación", neutral: "➖ Neutral" },
+  },
+}
+
+const hi: Messages = {
+  analysis: {
+    inconclusive:
+      "इस सामग्री के लिए कोई भरोसेमंद निर्णय नहीं निकल सका। इसका अर्थ यह नहीं है कि सामग्री सुरक्षित या झूठी है।",
+    safetyBlocked:
+      "विश्लेषण सेवा ने इस सामग्री का आकलन करने से मना कर दिया, इसलिए कोई निर्णय नहीं है। " +
+      "इसका अर्थ यह नहीं है कि सामग्री सुरक्षित है।",
+    inconclusiveRecommendations: [
+      "बाद में दोबारा विश्लेषण करें",
+      "दावों को किसी स्वतंत्र फ़ैक्ट-चेकिंग साइट पर जाँचें",
+    ],
+    ensembleDisagreement: (split) => `इस निर्णय पर मॉडल असहमत थे (${split}), इसलिए विश्वास स्तर घटा दिया गया है।`,
+  },
+  app: {
+    tagline:
+      "🔍 वास्तविक सत्यापन स्रोतों के साथ दुष्प्रचार की जाँच के लिए कोई समाचार या Reddit लिंक, या टेक्स्ट नीचे चिपकाएँ।",
+    language: "भाषा",
+    history: (count) => `इतिहास (${count})`,
+    bulkMode: "बल्क मोड",
+    singleMode: "एकल मोड",
+    recentAnalyses: "हाल के विश्लेषण",
+    placeholder: "📝 कोई लेख या Reddit लिंक (सामग्री अपने-आप निकाली जाएगी), टेक्स्ट या स्क्रीनशॉट चिपकाएँ...",
+    threadComments: "💬 थ्रेड की शीर्ष टिप्पणियाँ भी जाँचें",
+    commentsNone: "कोई नहीं",
+    commentsTop: (count) => `शीर्ष ${count}`,
+    analyze: "🔍 सामग्री का विश्लेषण करें",
+    analyzing: "🔍 सामग्री का विश्लेषण हो रहा है...",
+    cancel: "रद्द करें",
+    reset: "रीसेट",
+    reanalyze: "फिर से विश्लेषण करें",
+    share: "साझा करें",
+    copy: "कॉपी करें",
+    stages: {
+      fetching: "🌐 सामग्री लाई जा रही है...",
+      extracting: "📄 टेक्स्ट निकाला जा रहा है...",
+      classifying: "🧠 जाँच इंजन चल रहा है...",
+      explaining: "✍️ व्याख्या लिखी जा रही है...",
+    },
+    emptyInput: "विश्लेषण के लिए कोई सामग्री दर्ज करें",
+    genericError: "⚠️ कुछ गलत हो गया। किसी अन्य टेक्स्ट के साथ या बाद में फिर कोशिश करें।",
+    cancelled: "विश्लेषण रद्द किया गया",
+    copiedTitle: "क्लिपबोर्ड पर कॉपी किया गया",
+    copiedDescription: "विश्लेषण का परिणाम आपके क्लिपबोर्ड पर कॉपी कर दिया गया है।",
+    linkCopiedTitle: "लिंक कॉपी किया गया",
+    linkCopiedDescription: "लिंक वाला कोई भी व्यक्ति यह विश्लेषण देख सकता है।",
+    copyText: (classification, confidence, explanation) =>
+      `विश्लेषण: ${classification} (${confidence}% विश्वास)\nव्याख्या: ${explanation}`,
+    footerTitle: "🛡️ Disinformation Hunter – उन्नत सामग्री जाँच",
+    footerSubtitle: "🔍 सत्यापित फ़ैक्ट-चेकिंग स्रोतों के साथ पेशेवर सामग्री विश्लेषण",
+  },
+  image: {
+    hint: "🖼️ टेक्स्ट पढ़ने के लिए कोई चित्र छोड़ें या चिपकाएँ",
+    upload: "चित्र",
+    reading: "चित्र पढ़ा जा रहा है...",
+    remove: "चित्र हटाएँ",
+    review: "✏️ पहचाना गया टेक्स्ट – विश्लेषण से पहले OCR की गलतियाँ सुधारें",
+    ocrConfidence: (confidence) => `OCR विश्वास: ${confidence}%`,
+    noText: "🖼️ इस चित्र में कोई टेक्स्ट नहीं मिला। विश्लेषण के लिए उसे टाइप करें।",
+    noCameraMetadata: "कैमरा मेटाडेटा नहीं है – स्क्रीनशॉट और दोबारा साझा किए गए चित्रों में यह आम है।",
+    taken: (date) => `लिया गया ${date}`,
+    modified: (date) => `बदला गया ${date}`,
+    software: (name) => `सॉफ़्टवेयर: ${name}`,
+    artist: (name) => `कलाकार: ${name}`,
+  },
+  result: {
+    classifying: "वर्गीकरण हो रहा है...",
+    verdicts: {
+      Disinformation: "🚫 दुष्प्रचार",
+      "Not Disinformation": "✅ सुरक्षित सत्यापित",
+      "NSFW Content": "🔞 वयस्क सामग्री",
+      Inconclusive: "❔ अनिर्णीत",
+    },
+    contentTypes: { Opinion: "राय", Claim: "दावा", Assumption: "अनुमान", Fact: "तथ्य", Mixed: "मिश्रित" },
+    noVerdict: "कोई निर्णय नहीं:",
+    failures: {
+      upstream_error: "विश्लेषण सेवा ने त्रुटि लौटाई।",
+      empty_response: "विश्लेषण सेवा ने खाली उत्तर दिया।",
+      unparsable_output: "दोबारा कोशिश के बाद भी उत्तर पढ़ा नहीं जा सका।",
+      schema_mismatch: "दोबारा कोशिश के बाद भी उत्तर अधूरा था।",
+      safety_block: "विश्लेषण सेवा के सुरक्षा फ़िल्टर ने इस सामग्री को अस्वीकार कर दिया।",
+    },
+    adversarialTitle: "छेड़छाड़ वाला इनपुट मिला",
+    adversarialNote: "वर्गीकरण से पहले इन हिस्सों को निष्क्रिय कर दिया गया।",
+    findings: {
+      injection: "विश्लेषक के लिए लिखे निर्देश",
+      hidden_instruction: "छिपा हुआ टेक्स्ट",
+      zero_width: "अदृश्य अक्षर",
+      bidi_control: "टेक्स्ट दिशा की चालें",
+      homoglyph: "मिलते-जुलते अक्षर",
+    },
+    ensembleAgree: (count) => `सभी ${count} मॉडल सहमत हैं`,
+    ensembleDisagree: (agreement) => `मॉडल असहमत हैं – ${agreement}% सहमति`,
+    ensembleFailed: (count) => `(${count} ने उत्तर नहीं दिया)`,
+    writtenIn: (language) => `🌐 भाषा: ${language}`,
+    comments: (count) => `${count} टिप्पणियाँ`,
+    crosspostedFrom: "यहाँ से क्रॉसपोस्ट",
+    linkedPage: "लिंक किया गया पेज",
+    confidence: "विश्वास स्तर",
+    calibratedConfidence: "कैलिब्रेटेड विश्वास",
+    calibratedNote: (raw) => `मूल्यांकन में इस स्तर के निर्णय कितनी बार सही थे; मॉडल ने ${raw}% बताया था।`,
+    uncalibratedNote: "मॉडल द्वारा बताया गया, अभी कैलिब्रेट नहीं किया गया।",
+    detectionResults: "📋 जाँच के परिणाम:",
+    matchingFactChecks: "🔗 मेल खाते फ़ैक्ट-चेक",
+    verificationSources: "🔗 सत्यापन स्रोत",
+    noFactCheckHint: "💡 कोई मेल खाता फ़ैक्ट-चेक नहीं मिला; इस सामग्री को इन स्रोतों से मिलाकर देखें",
+    recommendations: "💡 सुझाव",
+    keyTerms: "विश्लेषित मुख्य शब्द:",
+    completedAt: (time) => `🕐 विश्लेषण पूरा हुआ ${time}`,
+    servedFromCache: " · ⚡ कैश से दिया गया",
+    prompt: (version) => ` · प्रॉम्प्ट ${version}`,
+  },
+  review: {
+    title: "मानवीय समीक्षा",
+    notReviewed: "अभी तक किसी व्यक्ति ने समीक्षा नहीं की",
+    states: { pending: "लंबित", confirmed: "पुष्ट", overturned: "पलटा गया", escalated: "आगे भेजा गया" },
+    model: (verdict) => `मॉडल: ${verdict}`,
+    reviewer: (verdict) => `समीक्षक: ${verdict}`,
+    reviewedAt: (date) => `समीक्षा ${date}`,
+    moderate: "मॉडरेटर के रूप में समीक्षा करें",
+    apiKey: "review अनुमति वाली API कुंजी",
+    classification: "सुधारा गया निर्णय",
+    rationale: "कारण (पलटने या आगे भेजने के लिए ज़रूरी)",
+    submit: "समीक्षा सहेजें",
+    failed: "समीक्षा सहेजी नहीं जा सकी",
+  },
+  feedback: {
+    verdictPrompt: "क्या यह निर्णय सही था?",
+    helpful: "उपयोगी",
+    notHelpful: "उपयोगी नहीं",
+    correctLabel: "सही लेबल (वैकल्पिक)",
+    send: "भेजें",
+    thanks: "प्रतिक्रिया के लिए धन्यवाद",
+    failed: "प्रतिक्रिया नहीं भेजी जा सकी, फिर से प्रयास करें",
+  },
+  dashboard: {
+    link: "डैशबोर्ड",
+    title: "रुझान",
+    back: "नया विश्लेषण",
+    from: "से",
+    to: "तक",
+    allVerdicts: "सभी निर्णय",
+    total: (count) => `${count} विश्लेषण`,
+    loading: "लोड हो रहा है…",
+    failed: "डैशबोर्ड लोड नहीं हो सका",
+    empty: "इन फ़िल्टरों से कोई विश्लेषण मेल नहीं खाता",
+    timeline: (interval) => (interval === "day" ? "प्रतिदिन निर्णय" : "प्रति सप्ताह निर्णय"),
+    confidence: "विश्वास का वितरण",
+    keyTerms: "प्रमुख मुख्य शब्द",
+    narratives: "सबसे अधिक मेल खाने वाली तथ्य-जाँचें",
+    domains: "सबसे अधिक विश्लेषित साइटें",
+    subreddits: "सबसे अधिक विश्लेषित सबरेडिट",
+    matches: (count) => `${count}×`,
+    disinformationShare: (count, share) => `${count} · ${share}% दुष्प्रचार`,
+  },
+  bulk: {
+    placeholder: "📋 हर पंक्ति में एक पोस्ट, या CSV (content कॉलम के साथ) / JSONL फ़ाइल अपलोड करें...",
+    upload: "फ़ाइल अपलोड करें",
+    removeFile: "फ़ाइल हटाएँ",
+    analyze: "🔍 बैच का विश्लेषण करें",
+    emptyInput: "हर पंक्ति में एक पोस्ट जोड़ें या CSV/JSONL फ़ाइल अपलोड करें",
+    failed: "बैच विश्लेषण विफल रहा",
+    progress: (completed, total) => `${total} में से ${completed} का विश्लेषण हुआ`,
+    failedCount: (count) => ` · ${count} विफल`,
+    columns: { content: "सामग्री", verdict: "निर्णय", confidence: "विश्वास", type: "प्रकार" },
+  },
+  permalink: {
+    notFound: "विश्लेषण नहीं मिला",
+    newAnalysis: "नया विश्लेषण",
+  },
+  claims: {
+    title: "🧩 दावों का विवरण",
+    showTranslations: "अनुवाद दिखाएँ",
+    showOriginals: "मूल शब्द दिखाएँ",
+  },
+  comments: {
+    title: "💬 शीर्ष टिप्पणियाँ",
+    counts: (spreads, debunks, neutral) => `${spreads} फैलाते हैं · ${debunks} खंडन करते हैं · ${neutral} तटस्थ`,
+    stances: { spreads: "📢 दावा फैलाता है", debunks: "🛡️ दावे का खंडन करता है", neutral: "➖ तटस्थ" },
+  },
+}
+
+const ar: Messages = {
+  analysis: {
+    inconclusive: "تعذّر التوصل إلى حكم موثوق بشأن هذا المحتوى. لا يعني ذلك أن المحتوى آمن أو كاذب.",
+    safetyBlocked: "رفضت خدمة التحليل تقييم هذا المحتوى، لذا لا يوجد حكم. لا يعني ذلك أن المحتوى آمن.",
+    inconclusiveRecommendations: ["أعد محاولة التحليل لاحقًا", "تحقق من الادعاءات عبر موقع مستقل لتدقيق الحقائق"],
+    ensembleDisagreement: (split) => `اختلفت النماذج حول هذا الحكم (${split})، لذا خُفّضت درجة الثقة.`,
+  },
+  app: {
+    tagline: "🔍 الصق رابط خبر أو Reddit، أو نصًا أدناه، لكشف المعلومات المضللة مع مصادر تحقق حقيقية.",
+    language: "اللغة",
+    history: (count) => `السجل (${count})`,
+    bulkMode: "الوضع الجماعي",
+    singleMode: "الوضع الفردي",
+    recentAnalyses: "التحليلات الأخيرة",
+    placeholder: "📝 الصق رابط مقال أو Reddit (يُستخرج المحتوى تلقائيًا) أو نصًا أو لقطة شاشة...",
+    threadComments: "💬 افحص أيضًا أبرز تعليقات السلسلة",
+    commentsNone: "لا شيء",
+    commentsTop: (count) => `أبرز ${count}`,
+    analyze: "🔍 حلّل المحتوى",
+    analyzing: "🔍 جارٍ تحليل المحتوى...",
+    cancel: "إلغاء",
+    reset: "إعادة تعيين",
+    reanalyze: "إعادة التحليل",
+    share: "مشاركة",
+    copy: "نسخ",
+    stages: {
+      fetching: "🌐 جارٍ جلب المحتوى...",
+      extracting: "📄 جارٍ استخراج النص...",
+      classifying: "🧠 جارٍ تشغيل محرك الكشف...",
+      explaining: "✍️ جارٍ كتابة الشرح...",
+    },
+    emptyInput: "أدخل محتوى لتحليله",
+    genericError: "⚠️ حدث خطأ ما. حاول بنص آخر أو لاحقًا.",
+    cancelled: "أُلغي التحليل",
+    copiedTitle: "نُسخ إلى الحافظة",
+    copiedDescription: "نُسخت نتيجة التحليل إلى الحافظة.",
+    linkCopiedTitle: "نُسخ الرابط",
+    linkCopiedDescription: "يمكن لأي شخص لديه الرابط عرض هذا التحليل.",
+    copyText: (classification, confidence, explanation) =>
+      `التحليل: ${classification} (ثقة ${confidence}%)\nالشرح: ${explanation}`,
+    footerTitle: "🛡️ Disinformation Hunter – كشف متقدم للمحتوى",
+    footerSubtitle: "🔍 تحليل احترافي للمحتوى مع مصادر تدقيق موثوقة",
+  },
+  image: {
+    hint: "🖼️ أفلت صورة أو الصقها لقراءة نصها",
+    upload: "صورة",
+    reading: "جارٍ قراءة الصورة...",
+    remove: "إزالة الصورة",
+    review: "✏️ النص المتعرَّف عليه – صحّح أخطاء التعرف الضوئي قبل التحليل",
+    ocrConfidence: (confidence) => `ثقة التعرف الضوئي: ${confidence}%`,
+    noText: "🖼️ لم يُعثر على نص في هذه الصورة. اكتبه لتحليله.",
+    noCameraMetadata: "لا توجد بيانات كاميرا – وهذا شائع في لقطات الشاشة والصور المعاد نشرها.",
+    taken: (date) => `التُقطت ${date}`,
+    modified: (date) => `عُدّلت ${date}`,
+    software: (name) => `البرنامج: ${name}`,
+    artist: (name) => `المصوّر: ${name}`,
+  },
+  result: {
+    classifying: "جارٍ التصنيف...",
+    verdicts: {
+      Disinformation: "🚫 معلومات مضللة",
+      "Not Disinformation": "✅ آمن بعد التحقق",
+      "NSFW Content": "🔞 محتوى للبالغين",
+      Inconclusive: "❔ غير حاسم",
+    },
+    contentTypes: { Opinion: "رأي", Claim: "ادعاء", Assumption: "افتراض", Fact: "حقيقة", Mixed: "مختلط" },
+    noVerdict: "لا يوجد حكم:",
+    failures: {
+      upstream_error: "أعادت خدمة التحليل خطأ.",
+      empty_response: "أعادت خدمة التحليل إجابة فارغة.",
+      unparsable_output: "تعذّرت قراءة الإجابة حتى بعد إعادة المحاولة.",
+      schema_mismatch: "كانت الإجابة ناقصة حتى بعد إعادة المحاولة.",
+      safety_block: "رفض مرشح الأمان في خدمة التحليل هذا المحتوى.",
+    },
+    adversarialTitle: "رُصد إدخال تلاعبي",
+    adversarialNote: "عُطّلت هذه الأجزاء قبل التصنيف.",
+    findings: {
+      injection: "تعليمات موجهة إلى المحلل",
+      hidden_instruction: "نص مخفي",
+      zero_width: "أحرف غير مرئية",
+      bidi_control: "حيل اتجاه النص",
+      homoglyph: "أحرف متشابهة الشكل",
+    },
+    ensembleAgree: (count) => `تتفق النماذج الـ${count} كلها`,
+    ensembleDisagree: (agreement) => `النماذج مختلفة – نسبة الاتفاق ${agreement}%`,
+    ensembleFailed: (count) => `(${count} لم تُجب)`,
+    writtenIn: (language) => `🌐 مكتوب بـ${language}`,
+    comments: (count) => `${count} تعليقًا`,
+    crosspostedFrom: "منشور أيضًا من",
+    linkedPage: "الصفحة المرتبطة",
+    confidence: "درجة الثقة",
+    calibratedConfidence: "الثقة المعايَرة",
+    calibratedNote: (raw) => `عدد المرات التي صحّت فيها أحكام بهذا المستوى في التقييم؛ أفاد النموذج بـ${raw}%.`,
+    uncalibratedNote: "كما أفاد بها النموذج، دون معايرة بعد.",
+    detectionResults: "📋 نتائج الكشف:",
+    matchingFactChecks: "🔗 عمليات تدقيق مطابقة",
+    verificationSources: "🔗 مصادر التحقق",
+    noFactCheckHint: "💡 لم يُعثر على تدقيق مطابق؛ قارن هذا المحتوى بمصادر تدقيق الحقائق هذه",
+    recommendations: "💡 توصيات",
+    keyTerms: "المصطلحات الرئيسية المحلَّلة:",
+    completedAt: (time) => `🕐 اكتمل التحليل في ${time}`,
+    servedFromCache: " · ⚡ من الذاكرة المؤقتة",
+    prompt: (version) => ` · القالب ${version}`,
+  },
+  review: {
+    title: "مراجعة بشرية",
+    notReviewed: "لم يراجعه شخص بعد",
+    states: { pending: "قيد الانتظار", confirmed: "مؤكَّد", overturned: "مُلغى", escalated: "مُحال للتصعيد" },
+    model: (verdict) => `النموذج: ${verdict}`,
+    reviewer: (verdict) => `المراجِع: ${verdict}`,
+    reviewedAt: (date) => `روجع في ${date}`,
+    moderate: "المراجعة كمشرف",
+    apiKey: "مفتاح API بصلاحية review",
+    classification: "الحكم المصحَّح",
+    rationale: "المبرر (مطلوب للإلغاء أو التصعيد)",
+    submit: "حفظ المراجعة",
+    failed: "تعذّر حفظ المراجعة",
+  },
+  feedback: {
+    verdictPrompt: "هل هذا الحكم صحيح؟",
+    helpful: "مفيد",
+    notHelpful: "غير مفيد",
+    correctLabel: "التصنيف الصحيح (اختياري)",
+    send: "إرسال",
+    thanks: "شكرًا على ملاحظاتك",
+    failed: "تعذّر إرسال الملاحظات، حاول مرة أخرى",
+  },
+  dashboard: {
+    link: "لوحة المعلومات",
+    title: "الاتجاهات",
+    back: "تحليل جديد",
+    from: "من",
+    to: "إلى",
+    allVerdicts: "كل الأحكام",
+    total: (count) => `${count} تحليل`,
+    loading: "جارٍ التحميل…",
+    failed: "تعذّر تحميل لوحة المعلومات",
+    empty: "لا توجد تحليلات تطابق هذه المرشحات",
+    timeline: (interval) => (interval === "day" ? "الأحكام يوميًا" : "الأحكام أسبوعيًا"),
+    confidence: "توزيع الثقة",
+    keyTerms: "أبرز المصطلحات الرئيسية",
+    narratives: "أكثر عمليات التحقق تطابقًا",
+    domains: "أكثر المواقع تحليلًا",
+    subreddits: "أكثر المنتديات الفرعية تحليلًا",
+    matches: (count) => `${count}×`,
+    disinformationShare: (count, share) => `${count} · ${share}% تضليل`,
+  },
+  bulk: {
+    placeholder: "📋 منشور واحد في كل سطر، أو ارفع ملف CSV (فيه عمود content) / JSONL...",
+    upload: "رفع ملف",
+    removeFile: "إزالة الملف",
+    analyze: "🔍 تحليل الدفعة",
+    emptyInput: "أضف منشورًا واحدًا في كل سطر أو ارفع ملف CSV/JSONL",
+    failed: "فشل تحليل الدفعة",
+    progress: (completed, total) => `تم تحليل ${completed} من ${total}`,
+    failedCount: (count) => ` · فشل ${count}`,
+    columns: { content: "المحتوى", verdict: "الحكم", confidence: "الثقة", type: "النوع" },
+  },
+  permalink: {
+    notFound: "لم يتم العثور على التحليل",
+    newAnalysis: "تحليل جديد",
+  },
+  claims: {
+    title: "🧩 تفصيل الادعاءات",
+    showTranslations: "عرض الترجمات",
+    showOriginals: "عرض النص الأصلي",
+  },
+  comments: {
+    title: "💬 أبرز التعليقات",
+    counts: (spreads, debunks, neutral) => `${spreads} تنشر · ${debunks} تدحض · ${neutral} محايدة`,
+    stances: { spreads: "📢 ينشر الادعاء", debunks: "🛡️ يدحض الادعاء", neutral: "➖ محايد" },
+  },
+}
+
+export const MESSAGES: Record<Language, Messages> = { en, es, hi, ar }
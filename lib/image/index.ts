@@ -0,0 +1,40 @@
+import { AnalysisError } from "@/lib/analysis/errors"
+import { type ImageMetadata, detectImageFormat, readImageMetadata } from "./metadata"
+import { type OcrEngine, getOcrEngine } from "./ocr"
+
+export * from "./metadata"
+export * from "./ocr"
+
+export interface ImageExtraction {
+  text: string
+  confidence: number
+  metadata: ImageMetadata
+}
+
+export function getMaxImageBytes(env: NodeJS.ProcessEnv = process.env) {
+  const value = Number.parseInt(env.OCR_MAX_IMAGE_BYTES ?? "", 10)
+  return Number.isFinite(value) && value > 0 ? value : 10 * 1024 * 1024
+}
+
+// OCR plus whatever metadata the file carries; the text is returned for review, not analyzed here
+export async function extractImage(
+  bytes: Uint8Array,
+  { engine = getOcrEngine(), maxBytes = getMaxImageBytes() }: { engine?: OcrEngine; maxBytes?: number } = {},
+): Promise<ImageExtraction> {
+  if (bytes.length > maxBytes) {
+    throw new AnalysisError("invalid_request", `Image is larger than ${Math.floor(maxBytes / 1024 / 1024)} MB`)
+  }
+  if (!detectImageFormat(bytes)) {
+    throw new AnalysisError("invalid_request", "Unsupported image format; use PNG, JPEG, WebP or BMP")
+  }
+
+  let recognized
+  try {
+    recognized = await engine.recognize(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength))
+  } catch (error) {
+    console.error("OCR error:", error)
+    throw new AnalysisError("ocr_failed", "Text could not be recognized in this image")
+  }
+
+  return { ...recognized, metadata: readImageMetadata(bytes)! }
+}
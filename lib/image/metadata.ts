@@ -0,0 +1,214 @@
+export type ImageFormat = "jpeg" | "png" | "webp" | "bmp"
+
+export interface ImageMetadata {
+  format: ImageFormat
+  width?: number
+  height?: number
+  camera?: string
+  software?: string
+  // EXIF DateTimeOriginal and DateTime, as written by the device ("YYYY:MM:DD HH:MM:SS", no time zone)
+  capturedAt?: string
+  modifiedAt?: string
+  artist?: string
+  copyright?: string
+  description?: string
+  gps?: { latitude: number; longitude: number }
+  // PNG tEXt/iTXt entries, e.g. the tool that rendered a screenshot
+  text?: Record<string, string>
+}
+
+type Tags = Map<number, unknown>
+
+const IFD0_TAGS = { description: 0x010e, make: 0x010f, model: 0x0110, software: 0x0131, modifiedAt: 0x0132 }
+const EXIF_POINTER = 0x8769
+const GPS_POINTER = 0x8825
+const MAX_TEXT_LENGTH = 500
+
+// Sniffed from the leading bytes; the declared content type is not trusted
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | undefined {
+  const ascii = (start: number, length: number) => String.fromCharCode(...bytes.subarray(start, start + length))
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "jpeg"
+  if (ascii(0, 8) === "\x89PNG\r\n\x1a\n") return "png"
+  if (ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") return "webp"
+  if (ascii(0, 2) === "BM") return "bmp"
+  return undefined
+}
+
+function cleanText(value: unknown) {
+  if (typeof value !== "string") return undefined
+  const trimmed = value.replace(/\0+$/, "").trim()
+  return trimmed ? trimmed.slice(0, MAX_TEXT_LENGTH) : undefined
+}
+
+// Reads one TIFF image file directory; values that do not fit in four bytes live at an offset from the TIFF start
+function readIfd(view: DataView, tiffStart: number, offset: number, little: boolean): Tags {
+  const tags: Tags = new Map()
+  const start = tiffStart + offset
+  if (start + 2 > view.byteLength) return tags
+
+  const count = view.getUint16(start, little)
+  for (let index = 0; index < count; index++) {
+    const entry = start + 2 + index * 12
+    if (entry + 12 > view.byteLength) break
+    const tag = view.getUint16(entry, little)
+    const type = view.getUint16(entry + 2, little)
+    const components = view.getUint32(entry + 4, little)
+    const size = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1 }[type]
+    if (!size) continue
+    const dataStart = size * components > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8
+    if (dataStart + size * components > view.byteLength) continue
+
+    if (type === 2 || type === 7) {
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + dataStart, components)
+      tags.set(tag, new TextDecoder().decode(bytes))
+    } else {
+      const values = Array.from({ length: Math.min(components, 16) }, (_, item) => {
+        const at = dataStart + item * size
+        if (type === 3) return view.getUint16(at, little)
+        if (type === 4) return view.getUint32(at, little)
+        if (type === 5) return view.getUint32(at, little) / (view.getUint32(at + 4, little) || 1)
+        return view.getUint8(at)
+      })
+      tags.set(tag, values.length === 1 ? values[0] : values)
+    }
+  }
+  return tags
+}
+
+function toDegrees(value: unknown, ref: unknown) {
+  if (!Array.isArray(value) || value.length < 3) return undefined
+  const [degrees, minutes, seconds] = value as number[]
+  const decimal = degrees + minutes / 60 + seconds / 3600
+  return Math.round((ref === "S" || ref === "W" ? -decimal : decimal) * 1e6) / 1e6
+}
+
+function readExif(bytes: Uint8Array, tiffStart: number): Partial<ImageMetadata> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (tiffStart + 8 > view.byteLength) return {}
+  const order = String.fromCharCode(bytes[tiffStart], bytes[tiffStart + 1])
+  if (order !== "II" && order !== "MM") return {}
+  const little = order === "II"
+
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little)
+  const exifOffset = ifd0.get(EXIF_POINTER)
+  const gpsOffset = ifd0.get(GPS_POINTER)
+  const exif = typeof exifOffset === "number" ? readIfd(view, tiffStart, exifOffset, little) : new Map()
+  const gps = typeof gpsOffset === "number" ? readIfd(view, tiffStart, gpsOffset, little) : new Map()
+
+  const make = cleanText(ifd0.get(IFD0_TAGS.make))
+  const model = cleanText(ifd0.get(IFD0_TAGS.model))
+  const latitude = toDegrees(gps.get(2), cleanText(gps.get(1)))
+  const longitude = toDegrees(gps.get(4), cleanText(gps.get(3)))
+
+  return {
+    camera: model && make && !model.startsWith(make) ? `${make} ${model}` : model ?? make,
+    software: cleanText(ifd0.get(IFD0_TAGS.software)),
+    capturedAt: cleanText(exif.get(0x9003)),
+    modifiedAt: cleanText(ifd0.get(IFD0_TAGS.modifiedAt)),
+    artist: cleanText(ifd0.get(0x013b)),
+    copyright: cleanText(ifd0.get(0x8298)),
+    description: cleanText(ifd0.get(IFD0_TAGS.description)),
+    gps: latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined,
+  }
+}
+
+function readJpeg(bytes: Uint8Array): Partial<ImageMetadata> {
+  let metadata: Partial<ImageMetadata> = {}
+  let offset = 2
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1]
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3]
+    // Start of scan: image data follows and no further metadata segments
+    if (marker === 0xda) break
+    if (marker === 0xe1 && String.fromCharCode(...bytes.subarray(offset + 4, offset + 10)) === "Exif\0\0") {
+      metadata = { ...metadata, ...readExif(bytes, offset + 10) }
+    }
+    // SOF markers, except the DHT/JPG/DAC ones that share the range
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      metadata.height = (bytes[offset + 5] << 8) | bytes[offset + 6]
+      metadata.width = (bytes[offset + 7] << 8) | bytes[offset + 8]
+    }
+    offset += 2 + length
+  }
+  return metadata
+}
+
+function readPng(bytes: Uint8Array): Partial<ImageMetadata> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const metadata: Partial<ImageMetadata> = { width: view.getUint32(16), height: view.getUint32(20) }
+  const text: Record<string, string> = {}
+  const decoder = new TextDecoder()
+
+  let offset = 8
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+    const data = bytes.subarray(offset + 8, offset + 8 + length)
+    if (type === "tEXt" || type === "iTXt") {
+      const separator = data.indexOf(0)
+      const keyword = decoder.decode(data.subarray(0, separator))
+      // iTXt: compression flag, method, language tag and translated keyword precede the text; skip compressed ones
+      let value: string | undefined
+      if (type === "tEXt") value = decoder.decode(data.subarray(separator + 1))
+      else if (data[separator + 1] === 0) {
+        let start = separator + 3
+        for (let field = 0; field < 2; field++) start = data.indexOf(0, start) + 1
+        value = decoder.decode(data.subarray(start))
+      }
+      const cleaned = cleanText(value)
+      if (keyword && cleaned) text[keyword] = cleaned
+    }
+    if (type === "eXIf") Object.assign(metadata, readExif(bytes, offset + 8))
+    if (type === "IEND") break
+    offset += 12 + length
+  }
+
+  return Object.keys(text).length ? { ...metadata, text } : metadata
+}
+
+function readWebp(bytes: Uint8Array): Partial<ImageMetadata> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const metadata: Partial<ImageMetadata> = {}
+  let offset = 12
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4))
+    const length = view.getUint32(offset + 4, true)
+    const data = offset + 8
+    if (type === "VP8X" && data + 10 <= bytes.length) {
+      metadata.width = 1 + (bytes[data + 4] | (bytes[data + 5] << 8) | (bytes[data + 6] << 16))
+      metadata.height = 1 + (bytes[data + 7] | (bytes[data + 8] << 8) | (bytes[data + 9] << 16))
+    } else if (type === "VP8 " && data + 10 <= bytes.length && !metadata.width) {
+      metadata.width = view.getUint16(data + 6, true) & 0x3fff
+      metadata.height = view.getUint16(data + 8, true) & 0x3fff
+    } else if (type === "EXIF") {
+      // Some encoders keep the JPEG-style "Exif\0\0" prefix
+      const prefixed = String.fromCharCode(...bytes.subarray(data, data + 6)) === "Exif\0\0"
+      Object.assign(metadata, readExif(bytes, prefixed ? data + 6 : data))
+    }
+    offset = data + length + (length % 2)
+  }
+  return metadata
+}
+
+// Best effort: anything malformed is skipped rather than failing the upload
+export function readImageMetadata(bytes: Uint8Array): ImageMetadata | undefined {
+  const format = detectImageFormat(bytes)
+  if (!format) return undefined
+
+  let details: Partial<ImageMetadata> = {}
+  try {
+    if (format === "jpeg") details = readJpeg(bytes)
+    else if (format === "png") details = readPng(bytes)
+    else if (format === "webp") details = readWebp(bytes)
+    else {
+      // Top-down bitmaps store a negative height
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+      details = { width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) }
+    }
+  } catch (error) {
+    console.error("Skipping unreadable image metadata:", error)
+  }
+
+  const defined = Object.entries(details).filter(([, value]) => value !== undefined)
+  return { format, ...Object.fromEntries(defined) }
+}
@@ -0,0 +1,58 @@
+import path from "node:path"
+import { type Worker, createWorker } from "tesseract.js"
+import { getDataDirectory } from "@/lib/store"
+
+export interface OcrResult {
+  text: string
+  // Tesseract's mean word confidence, 0-100
+  confidence: number
+}
+
+export interface OcrEngine {
+  recognize(image: Buffer): Promise<OcrResult>
+}
+
+export interface TesseractConfig {
+  // Tesseract language codes joined with "+", e.g. "eng+deu"
+  languages?: string
+  // Directory or URL holding <lang>.traineddata(.gz); point it at a local copy to run fully offline
+  langPath?: string
+  cachePath?: string
+}
+
+// One long-lived worker: loading the language model dominates the cost of a recognition
+export function createTesseractEngine({ languages = "eng", langPath, cachePath }: TesseractConfig = {}): OcrEngine {
+  let worker: Promise<Worker> | undefined
+
+  return {
+    async recognize(image) {
+      worker ??= createWorker(languages.split("+"), undefined, {
+        ...(langPath ? { langPath } : {}),
+        ...(cachePath ? { cachePath } : {}),
+      }).catch((error) => {
+        // Let the next upload try again instead of caching the failure
+        worker = undefined
+        throw error
+      })
+      const { data } = await (await worker).recognize(image)
+      return { text: data.text.trim(), confidence: Math.round(data.confidence) }
+    },
+  }
+}
+
+let engine: OcrEngine | undefined
+
+// Language data must be on disk: without a local OCR_LANG_PATH tesseract.js would fetch it from a CDN on first use
+export function getOcrEngine(env: NodeJS.ProcessEnv = process.env): OcrEngine {
+  if (engine) return engine
+
+  const langPath = env.OCR_LANG_PATH?.trim()
+  if (!langPath || /^[a-z][\w+.-]*:\/\//i.test(langPath)) {
+    throw new Error("OCR_LANG_PATH must be a local directory holding <lang>.traineddata.gz files")
+  }
+  return (engine = createTesseractEngine({
+    languages: env.OCR_LANGUAGES || "eng",
+    langPath: path.resolve(langPath),
+    cachePath: path.join(getDataDirectory(env), "tesseract"),
+  }))
+}
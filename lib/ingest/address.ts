@@ -0,0 +1,61 @@
+import { isIP } from "node:net"
+
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+]
+
+function ipv4ToNumber(address: string) {
+  return address.split(".").reduce((value, octet) => value * 256 + Number(octet), 0)
+}
+
+function isBlockedIpv4(address: string) {
+  const value = ipv4ToNumber(address)
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits)
+    const start = ipv4ToNumber(base)
+    return value >= start && value < start + size
+  })
+}
+
+function isBlockedIpv6(address: string) {
+  const lower = address.toLowerCase().replace(/^\[|\]$/g, "")
+  const mapped = /^(?:0*:)*:?ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(lower)
+  if (mapped) return isBlockedIpv4(mapped[1])
+  // WHATWG URL parsing rewrites ::ffff:a.b.c.d into two hex groups
+  const mappedHex = /^(?:0*:)*:?ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(lower)
+  if (mappedHex) {
+    const high = Number.parseInt(mappedHex[1], 16)
+    const low = Number.parseInt(mappedHex[2], 16)
+    return isBlockedIpv4([high >> 8, high & 255, low >> 8, low & 255].join("."))
+  }
+
+  if (lower === "::" || lower === "::1") return true
+  const firstHextet = Number.parseInt(lower.split(":")[0] || "0", 16)
+  return (
+    (firstHextet & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (firstHextet & 0xffc0) === 0xfe80 || // link local fe80::/10
+    (firstHextet & 0xff00) === 0xff00 || // multicast ff00::/8
+    lower.startsWith("64:ff9b:") // NAT64 can reach IPv4 private space
+  )
+}
+
+// True for loopback, private, link-local, carrier-grade NAT, documentation and multicast ranges
+export function isPrivateAddress(address: string) {
+  const version = isIP(address.replace(/^\[|\]$/g, ""))
+  if (version === 4) return isBlockedIpv4(address)
+  if (version === 6) return isBlockedIpv6(address)
+  return true
+}
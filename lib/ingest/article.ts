@@ -0,0 +1,257 @@
+export interface ExtractedArticle {
+  title?: string
+  author?: string
+  publishedAt?: string
+  siteName?: string
+  canonicalUrl?: string
+  text: string
+}
+
+const SKIP_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "iframe",
+  "nav",
+  "header",
+  "footer",
+  "aside",
+  "form",
+  "button",
+  "select",
+])
+const VOID_TAGS = new Set(["br", "hr", "img", "input", "meta", "link", "source", "wbr", "col", "area", "base", "embed"])
+const BLOCK_TAGS = new Set([
+  "p",
+  "div",
+  "section",
+  "article",
+  "main",
+  "li",
+  "ul",
+  "ol",
+  "blockquote",
+  "pre",
+  "table",
+  "tr",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "figcaption",
+])
+// Page-level containers often carry theme classes like "has-share-bar"; never drop them wholesale
+const STRUCTURAL_TAGS = new Set(["html", "body", "main", "article"])
+const BOILERPLATE_PATTERN =
+  /(^|[\s_-])(comments?|share|sharing|social|promo|related|recommended|newsletter|subscribe|cookie|consent|advert|ads?|sponsor|sidebar|breadcrumbs?|menu|nav|footer|masthead|popup|modal)($|[\s_-])/i
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+}
+
+export function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const hex = code[1].toLowerCase() === "x"
+      const value = hex ? Number.parseInt(code.slice(2), 16) : Number.parseInt(code.slice(1), 10)
+      // Past U+10FFFF fromCodePoint throws; such entities are left as written
+      return value <= 0x10ffff ? String.fromCodePoint(value) : entity
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
+
+// Boolean attributes such as a bare `hidden` get an empty value
+function parseAttributes(source: string) {
+  const attributes: Record<string, string> = {}
+  for (const match of source.matchAll(/([\w:-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "")
+  }
+  return attributes
+}
+
+function collapse(text: string) {
+  return text.replace(/\s+/g, " ").trim()
+}
+
+function readMetadata(html: string) {
+  const meta: Record<string, string> = {}
+  for (const match of html.matchAll(/<meta\b([^>]*)>/gi)) {
+    const attributes = parseAttributes(match[1])
+    const key = (attributes.property ?? attributes.name ?? attributes.itemprop)?.toLowerCase()
+    if (key && attributes.content && !(key in meta)) meta[key] = collapse(attributes.content)
+  }
+
+  let canonicalUrl: string | undefined
+  for (const match of html.matchAll(/<link\b([^>]*)>/gi)) {
+    const attributes = parseAttributes(match[1])
+    if (attributes.rel?.toLowerCase().split(/\s+/).includes("canonical") && attributes.href) {
+      canonicalUrl = attributes.href
+      break
+    }
+  }
+
+  return { meta, canonicalUrl }
+}
+
+type JsonLdArticle = {
+  headline?: string
+  name?: string
+  author?: unknown
+  datePublished?: string
+  url?: string
+  publisher?: { name?: string }
+}
+
+const JSON_LD_PATTERN = /<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi
+
+function readJsonLdArticle(html: string): JsonLdArticle | undefined {
+  for (const match of html.matchAll(JSON_LD_PATTERN)) {
+    try {
+      const data = JSON.parse(match[1])
+      const nodes: unknown[] = Array.isArray(data) ? data : data["@graph"] ?? [data]
+      const article = nodes.find((node) => {
+        const type = (node as { "@type"?: string | string[] })?.["@type"]
+        return [type].flat().some((value) => typeof value === "string" && /Article|Posting|Report/.test(value))
+      })
+      if (article) return article as JsonLdArticle
+    } catch {
+      // Malformed JSON-LD is common; fall back to meta tags
+    }
+  }
+  return undefined
+}
+
+function authorName(author: unknown): string | undefined {
+  if (!author) return undefined
+  if (typeof author === "string") return author
+  if (Array.isArray(author)) {
+    const names = author.map(authorName).filter(Boolean)
+    return names.length ? names.join(", ") : undefined
+  }
+  return (author as { name?: string }).name
+}
+
+interface Block {
+  text: string
+  linkChars: number
+  inArticle: boolean
+}
+
+type OpenElement = { tag: string; skip: boolean; article: boolean; link: boolean }
+
+// Walk the markup once, dropping boilerplate subtrees and splitting text into block-level chunks.
+// Pages can nest thousands of unclosed tags, so the open elements are tallied as they are pushed and popped
+// instead of rescanning the stack for every token
+function collectBlocks(html: string): Block[] {
+  const blocks: Block[] = []
+  const stack: OpenElement[] = []
+  const openTags = new Map<string, number>()
+  const depth = { skip: 0, article: 0, link: 0 }
+  let text = ""
+  let linkChars = 0
+
+  const tally = (element: OpenElement, change: 1 | -1) => {
+    openTags.set(element.tag, (openTags.get(element.tag) ?? 0) + change)
+    if (element.skip) depth.skip += change
+    if (element.article) depth.article += change
+    if (element.link) depth.link += change
+  }
+  const flush = () => {
+    const value = collapse(text)
+    if (value) blocks.push({ text: value, linkChars, inArticle: depth.article > 0 })
+    text = ""
+    linkChars = 0
+  }
+
+  const body = html.replace(/<!--[\s\S]*?-->/g, "").replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1>/gi, "")
+  for (const token of body.matchAll(/<\/?([a-zA-Z][a-zA-Z0-9-]*)([^>]*)>|([^<]+)/g)) {
+    const [raw, rawTag, rawAttributes, rawText] = token
+    if (rawText !== undefined) {
+      if (!depth.skip) {
+        const decoded = decodeEntities(rawText)
+        text += decoded
+        if (depth.link) linkChars += collapse(decoded).length
+      }
+      continue
+    }
+
+    const tag = rawTag.toLowerCase()
+    const closing = raw.startsWith("</")
+    if (BLOCK_TAGS.has(tag) || tag === "br") flush()
+    if (VOID_TAGS.has(tag) || raw.endsWith("/>")) continue
+
+    // A closing tag also closes anything left open inside it; one with no open element is ignored
+    if (closing) {
+      if (openTags.get(tag)) {
+        let element: OpenElement
+        do {
+          element = stack.pop()!
+          tally(element, -1)
+        } while (element.tag !== tag)
+      }
+      continue
+    }
+
+    const attributes = parseAttributes(rawAttributes)
+    const marker = `${attributes.class ?? ""} ${attributes.id ?? ""} ${attributes.role ?? ""}`
+    const element = {
+      tag,
+      skip:
+        SKIP_TAGS.has(tag) ||
+        (!STRUCTURAL_TAGS.has(tag) && BOILERPLATE_PATTERN.test(marker)) ||
+        attributes.hidden !== undefined,
+      article: tag === "article" || tag === "main" || attributes.itemprop === "articleBody",
+      link: tag === "a",
+    }
+    stack.push(element)
+    tally(element, 1)
+  }
+  flush()
+  return blocks
+}
+
+function isContentBlock(block: Block) {
+  return block.text.length >= 25 && block.linkChars / block.text.length < 0.5
+}
+
+export function extractArticle(html: string): ExtractedArticle {
+  const { meta, canonicalUrl } = readMetadata(html)
+  const jsonLd = readJsonLdArticle(html)
+  const documentTitle = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1]
+  const timeTag = /<time\b[^>]*datetime\s*=\s*["']([^"']+)["']/i.exec(html)?.[1]
+
+  const blocks = collectBlocks(html).filter(isContentBlock)
+  const articleBlocks = blocks.filter((block) => block.inArticle)
+  const articleLength = articleBlocks.reduce((sum, block) => sum + block.text.length, 0)
+  const chosen = articleLength >= 200 ? articleBlocks : blocks
+
+  return {
+    title:
+      meta["og:title"] ??
+      meta["twitter:title"] ??
+      jsonLd?.headline ??
+      (documentTitle ? collapse(decodeEntities(documentTitle)) : undefined),
+    author: authorName(jsonLd?.author) ?? meta["author"] ?? meta["article:author"] ?? meta["parsely-author"],
+    publishedAt: jsonLd?.datePublished ?? meta["article:published_time"] ?? meta["date"] ?? timeTag,
+    siteName: meta["og:site_name"] ?? jsonLd?.publisher?.name,
+    canonicalUrl: canonicalUrl ?? meta["og:url"] ?? jsonLd?.url,
+    text: chosen.map((block) => block.text).join("\n\n"),
+  }
+}
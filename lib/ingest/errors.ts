@@ -0,0 +1,11 @@
+export type IngestErrorCode = "invalid_url" | "blocked_url" | "fetch_failed" | "timeout" | "too_large" | "unsupported_content"
+
+export class IngestError extends Error {
+  constructor(
+    public readonly code: IngestErrorCode,
+    message: string,
+  ) {
+    super(message)
+    this.name = "IngestError"
+  }
+}
@@ -0,0 +1,194 @@
+import { lookup } from "node:dns/promises"
+import { type LookupFunction, isIP } from "node:net"
+import { Agent, type Response, fetch } from "undici"
+import { isPrivateAddress } from "./address"
+import { IngestError } from "./errors"
+
+export interface FetchedDocument {
+  url: string
+  contentType: string
+  body: string
+}
+
+export interface FetchOptions {
+  accept?: string
+}
+
+// Anything that turns a URL into a document; tests swap in a fixture-backed implementation
+export type Fetcher = (url: string, options?: FetchOptions) => Promise<FetchedDocument>
+
+export interface SafeFetcherConfig {
+  timeoutMs?: number
+  maxBytes?: number
+  maxRedirects?: number
+  userAgent?: string
+  resolveHost?: ResolveHost
+}
+
+type ResolveHost = (hostname: string) => Promise<string[]>
+
+async function resolveWithDns(hostname: string) {
+  const addresses = await lookup(hostname, { all: true })
+  return addresses.map((entry) => entry.address)
+}
+
+function parseUrl(value: string) {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    throw new IngestError("invalid_url", "Not a valid URL")
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new IngestError("invalid_url", "Only http and https URLs are supported")
+  }
+  if (url.username || url.password) {
+    throw new IngestError("invalid_url", "URLs with credentials are not supported")
+  }
+  return url
+}
+
+// For links read out of fetched content: only http and https are kept, so a javascript: or data: URL never reaches an
+// href or the ClaimReview export
+export function webUrl(value: string | undefined, base?: string) {
+  if (!value) return undefined
+  try {
+    const url = new URL(value, base)
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function assertPublicAddresses(addresses: string[]) {
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new IngestError("blocked_url", "URLs pointing at private or local networks are not allowed")
+  }
+}
+
+async function resolvePublicAddresses(hostname: string, resolveHost: ResolveHost) {
+  let addresses: string[]
+  try {
+    addresses = await resolveHost(hostname)
+  } catch {
+    throw new IngestError("fetch_failed", `Could not resolve ${hostname}`)
+  }
+  assertPublicAddresses(addresses)
+  return addresses
+}
+
+// Used as the socket's DNS lookup: the addresses that pass the check are the ones connected to, so a second,
+// different answer for the same name (DNS rebinding) is never asked for
+export function createGuardedLookup(resolveHost: ResolveHost): LookupFunction {
+  return (hostname, options, callback) => {
+    resolvePublicAddresses(hostname, resolveHost).then(
+      (addresses) => {
+        const entries = addresses.map((address) => ({ address, family: isIP(address) }))
+        if (options.all) callback(null, entries)
+        else callback(null, entries[0].address, entries[0].family)
+      },
+      (error: IngestError) => callback(error, ""),
+    )
+  }
+}
+
+// Fetch failures wrap whatever the lookup rejected with
+function findIngestError(error: unknown): IngestError | undefined {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof IngestError) return current
+  }
+}
+
+async function readLimited(response: Response, maxBytes: number) {
+  const declared = Number(response.headers.get("content-length") ?? 0)
+  if (declared > maxBytes) {
+    throw new IngestError("too_large", `Response exceeds ${maxBytes} bytes`)
+  }
+  if (!response.body) return new Uint8Array()
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > maxBytes) {
+      await reader.cancel()
+      throw new IngestError("too_large", `Response exceeds ${maxBytes} bytes`)
+    }
+    chunks.push(value)
+  }
+
+  const bytes = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return bytes
+}
+
+function decodeBody(bytes: Uint8Array, contentType: string) {
+  const charset = /charset=([^;]+)/i.exec(contentType)?.[1]?.trim()
+  try {
+    return new TextDecoder(charset || "utf-8").decode(bytes)
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes)
+  }
+}
+
+// Every hop, including redirects, is checked against private ranges: IP literals before the request, host names
+// as they are resolved for the connection
+export function createSafeFetcher({
+  timeoutMs = 10_000,
+  maxBytes = 2 * 1024 * 1024,
+  maxRedirects = 5,
+  userAgent = "DisinformationHunter/1.0 (+content analysis)",
+  resolveHost = resolveWithDns,
+}: SafeFetcherConfig = {}): Fetcher {
+  const dispatcher = new Agent({ connect: { lookup: createGuardedLookup(resolveHost) } })
+
+  return async (value, { accept = "text/html,application/xhtml+xml" } = {}) => {
+    const signal = AbortSignal.timeout(timeoutMs)
+    let url = parseUrl(value)
+
+    try {
+      for (let redirects = 0; ; redirects++) {
+        const hostname = url.hostname.replace(/^\[|\]$/g, "")
+        if (isIP(hostname)) assertPublicAddresses([hostname])
+
+        const response = await fetch(url, {
+          headers: { Accept: accept, "User-Agent": userAgent },
+          redirect: "manual",
+          signal,
+          dispatcher,
+        })
+
+        const location = response.headers.get("location")
+        if (response.status >= 300 && response.status < 400 && location) {
+          if (redirects >= maxRedirects) {
+            throw new IngestError("fetch_failed", "Too many redirects")
+          }
+          url = parseUrl(new URL(location, url).toString())
+          continue
+        }
+
+        if (!response.ok) {
+          throw new IngestError("fetch_failed", `Source responded with ${response.status}`)
+        }
+
+        const contentType = response.headers.get("content-type") ?? ""
+        const body = decodeBody(await readLimited(response, maxBytes), contentType)
+        return { url: url.toString(), contentType, body }
+      }
+    } catch (error) {
+      const ingestError = findIngestError(error)
+      if (ingestError) throw ingestError
+      if (signal.aborted) {
+        throw new IngestError("timeout", `Source did not respond within ${timeoutMs}ms`)
+      }
+      throw new IngestError("fetch_failed", "Could not fetch the URL")
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import type { Source } from "@/lib/analysis/schema"
+import { extractArticle } from "./article"
+import { IngestError } from "./errors"
+import { type Fetcher, createSafeFetcher, webUrl } from "./fetcher"
+import { type RedditComment, fetchRedditThread, isRedditUrl, selectTopComments } from "./reddit"
+
+export { IngestError } from "./errors"
+export type { IngestErrorCode } from "./errors"
+export { createSafeFetcher } from "./fetcher"
+export type { FetchedDocument, Fetcher, SafeFetcherConfig } from "./fetcher"
+export { isRedditUrl, parseRedditListing, selectTopComments } from "./reddit"
+export type { RedditComment, RedditPost, RedditThread } from "./reddit"
+
+export const MAX_INGEST_CHARS = 20_000
+
+export interface IngestOptions {
+  fetcher?: Fetcher
+  maxChars?: number
+  // How many of a discussion's top comments to bring along for analysis
+  commentLimit?: number
+}
+
+export interface IngestedContent {
+  source: Source
+  comments: RedditComment[]
+}
+
+// Shared so its connection pool is reused across requests
+let defaultFetcher: Fetcher | undefined
+
+async function ingestReddit(url: URL, fetcher: Fetcher, commentLimit: number): Promise<IngestedContent> {
+  const { post, ...thread } = await fetchRedditThread(url, fetcher)
+
+  return {
+    source: {
+      kind: "reddit",
+      url: url.toString(),
+      canonicalUrl: post.permalink || undefined,
+      title: post.title,
+      author: `u/${post.author}`,
+      publishedAt: post.createdAt,
+      siteName: `r/${post.subreddit}`,
+      text: [post.title, post.linkUrl, post.selftext].filter(Boolean).join("\n\n"),
+      reddit: {
+        subreddit: post.subreddit,
+        score: post.score,
+        numComments: post.numComments,
+        linkUrl: post.linkUrl,
+        crosspostFrom: post.crosspostFrom && {
+          subreddit: post.crosspostFrom.subreddit,
+          title: post.crosspostFrom.title,
+          permalink: post.crosspostFrom.permalink,
+        },
+      },
+    },
+    comments: selectTopComments({ post, ...thread }, commentLimit),
+  }
+}
+
+async function ingestArticle(url: URL, fetcher: Fetcher): Promise<IngestedContent> {
+  const document = await fetcher(url.toString())
+  if (!/html|xml|text\/plain/i.test(document.contentType || "text/html")) {
+    throw new IngestError("unsupported_content", `Cannot extract text from ${document.contentType}`)
+  }
+
+  if (/text\/plain/i.test(document.contentType)) {
+    return { source: { kind: "article", url: document.url, text: document.body.trim() }, comments: [] }
+  }
+
+  const article = extractArticle(document.body)
+  return {
+    source: {
+      kind: "article",
+      url: document.url,
+      canonicalUrl: webUrl(article.canonicalUrl, document.url),
+      title: article.title,
+      author: article.author,
+      publishedAt: article.publishedAt,
+      siteName: article.siteName,
+      text: article.title && !article.text.startsWith(article.title) ? `${article.title}\n\n${article.text}` : article.text,
+    },
+    comments: [],
+  }
+}
+
+// Fetch a URL server-side and reduce it to the text worth analyzing plus its metadata
+export async function ingestUrl(
+  value: string,
+  {
+    fetcher = (defaultFetcher ??= createSafeFetcher()),
+    maxChars = MAX_INGEST_CHARS,
+    commentLimit = 0,
+  }: IngestOptions = {},
+): Promise<IngestedContent> {
+  let url: URL
+  try {
+    url = new URL(value.trim())
+  } catch {
+    throw new IngestError("invalid_url", "Not a valid URL")
+  }
+
+  const { source, comments } = isRedditUrl(url)
+    ? await ingestReddit(url, fetcher, commentLimit)
+    : await ingestArticle(url, fetcher)
+  if (!source.text.trim()) {
+    throw new IngestError("unsupported_content", "No readable text found at that URL")
+  }
+
+  return { source: { ...source, text: source.text.slice(0, maxChars) }, comments }
+}
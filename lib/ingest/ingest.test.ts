@@ -0,0 +1,181 @@
+import { readFileSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+import { decodeEntities, extractArticle } from "./article"
+import type { FetchOptions } from "./fetcher"
+import { type FetchedDocument, type Fetcher, IngestError, ingestUrl } from "./index"
+
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), "utf8")
+
+// Serves fixtures by URL and records what was asked for
+function createFixtureFetcher(documents: Record<string, Omit<FetchedDocument, "url">>) {
+  const requests: { url: string; options?: FetchOptions }[] = []
+  const fetcher: Fetcher = async (url, options) => {
+    requests.push({ url, options })
+    const document = documents[url]
+    if (!document) throw new IngestError("fetch_failed", "Source responded with 404")
+    return { url, ...document }
+  }
+  return { fetcher, requests }
+}
+
+describe("decodeEntities", () => {
+  it("decodes named, decimal and hex entities", () => {
+    expect(decodeEntities("&lt;b&gt; &amp; &#36;5 &#x1F4A7; &rsquo;")).toBe("<b> & $5 💧 ’")
+  })
+
+  it("leaves entities beyond U+10FFFF and unknown names as written", () => {
+    expect(decodeEntities("&#x110000; &#1114112; &#99999999999999999999999; &bogus;")).toBe(
+      "&#x110000; &#1114112; &#99999999999999999999999; &bogus;",
+    )
+  })
+})
+
+describe("extractArticle", () => {
+  const article = extractArticle(fixture("article.html"))
+
+  it("reads metadata from meta tags and JSON-LD", () => {
+    expect(article).toMatchObject({
+      title: "City council approves new water treatment plant",
+      author: "Jane Doe, Sam Lee",
+      publishedAt: "2024-05-02T09:30:00Z",
+      siteName: "Example News",
+      canonicalUrl: "/2024/05/water-plant",
+    })
+  })
+
+  it("keeps the article body and drops boilerplate, comments, hidden and script text", () => {
+    expect(article.text.split("\n\n")).toEqual([
+      "City council approves new water treatment plant",
+      "The city council voted 7–2 on Tuesday to fund a new water treatment plant on the east bank.",
+      "Construction is expected to begin next spring and cost $48 million, officials said 💧.",
+      "Residents asked whether the plant would raise bills; the mayor said rates “will not change”.",
+      "Malformed entities like &#x110000; and &#99999999999; are kept exactly as they were written.",
+    ])
+  })
+})
+
+describe("extractArticle with deep nesting", () => {
+  it("stays linear in the number of unclosed tags", () => {
+    // Quadratic stack scans took seconds on pages a tenth of this size
+    const started = performance.now()
+    const html = `<main>${"<div><a>x</a><p>Some paragraph text long enough to keep.".repeat(40_000)}`
+    const { text } = extractArticle(html)
+    expect(performance.now() - started).toBeLessThan(2000)
+    expect(text.split("\n\n")).toHaveLength(40_000)
+  })
+
+  it("closes elements left open inside a closing tag", () => {
+    const html = `<div class="sidebar"><span>Related stories you might like to read next</div>
+      <p>Text after the sidebar is part of the article body again.`
+    expect(extractArticle(html).text).toBe("Text after the sidebar is part of the article body again.")
+  })
+})
+
+describe("ingestUrl", () => {
+  it("extracts an article and resolves its canonical URL", async () => {
+    const { fetcher, requests } = createFixtureFetcher({
+      "https://news.example.com/story?id=1": { contentType: "text/html; charset=utf-8", body: fixture("article.html") },
+    })
+
+    const { source, comments } = await ingestUrl(" https://news.example.com/story?id=1 ", { fetcher })
+    expect(requests).toEqual([{ url: "https://news.example.com/story?id=1", options: undefined }])
+    expect(comments).toEqual([])
+    expect(source).toMatchObject({
+      kind: "article",
+      url: "https://news.example.com/story?id=1",
+      canonicalUrl: "https://news.example.com/2024/05/water-plant",
+      title: "City council approves new water treatment plant",
+      author: "Jane Doe, Sam Lee",
+    })
+    expect(source.text.startsWith("City council approves new water treatment plant\n\nThe city council")).toBe(true)
+  })
+
+  it.each(["javascript:alert(document.cookie)", "data:text/html,<script>alert(1)</script>", "http://["])(
+    "drops a canonical URL of %s",
+    async (href) => {
+      const { fetcher } = createFixtureFetcher({
+        "https://news.example.com/a": {
+          contentType: "text/html",
+          body: `<link rel="canonical" href="${href}"><p>An article body long enough to be kept as content.</p>`,
+        },
+      })
+      const { source } = await ingestUrl("https://news.example.com/a", { fetcher })
+      expect(source.canonicalUrl).toBeUndefined()
+      expect(source.url).toBe("https://news.example.com/a")
+    },
+  )
+
+  it("truncates to maxChars", async () => {
+    const { fetcher } = createFixtureFetcher({
+      "https://news.example.com/a": { contentType: "text/plain", body: "  plain text body  " },
+    })
+    const { source } = await ingestUrl("https://news.example.com/a", { fetcher, maxChars: 5 })
+    expect(source.text).toBe("plain")
+  })
+
+  it("rejects content it cannot read", async () => {
+    const { fetcher } = createFixtureFetcher({
+      "https://news.example.com/a.pdf": { contentType: "application/pdf", body: "%PDF" },
+      "https://news.example.com/empty": { contentType: "text/html", body: "<html><body></body></html>" },
+    })
+    await expect(ingestUrl("https://news.example.com/a.pdf", { fetcher })).rejects.toMatchObject({
+      code: "unsupported_content",
+    })
+    await expect(ingestUrl("https://news.example.com/empty", { fetcher })).rejects.toMatchObject({
+      code: "unsupported_content",
+    })
+    await expect(ingestUrl("not a url", { fetcher })).rejects.toMatchObject({ code: "invalid_url" })
+  })
+
+  it("reads a Reddit thread from its JSON endpoint with its top comments", async () => {
+    const thread = "https://www.reddit.com/r/worldnews/comments/abc123/scientists_confirm_the_moon"
+    const jsonUrl = `${thread}.json?sort=top&limit=100&raw_json=1`
+    const { fetcher, requests } = createFixtureFetcher({
+      [jsonUrl]: { contentType: "application/json", body: fixture("reddit-thread.json") },
+    })
+
+    const { source, comments } = await ingestUrl(
+      "https://old.reddit.com/r/worldnews/comments/abc123/scientists_confirm_the_moon/",
+      { fetcher, commentLimit: 2 },
+    )
+    expect(requests).toEqual([{ url: jsonUrl, options: { accept: "application/json" } }])
+    expect(source).toEqual({
+      kind: "reddit",
+      url: "https://old.reddit.com/r/worldnews/comments/abc123/scientists_confirm_the_moon/",
+      canonicalUrl: "https://www.reddit.com/r/worldnews/comments/abc123/scientists_confirm_the_moon/",
+      title: "Scientists confirm the moon is drifting away from Earth",
+      author: "u/newsposter",
+      publishedAt: "2024-05-02T08:53:20.000Z",
+      siteName: "r/worldnews",
+      text: "Scientists confirm the moon is drifting away from Earth\n\nhttps://science.example.org/moon-drift",
+      reddit: {
+        subreddit: "worldnews",
+        score: 1520,
+        numComments: 4,
+        linkUrl: "https://science.example.org/moon-drift",
+        crosspostFrom: {
+          subreddit: "space",
+          title: "The moon drifts 3.8 cm a year",
+          permalink: "https://www.reddit.com/r/space/comments/xyz789/the_moon_drifts/",
+        },
+      },
+    })
+    // AutoModerator and removed comments are skipped; nested replies compete on score
+    expect(comments.map((comment) => [comment.id, comment.depth, comment.score])).toEqual([
+      ["c3", 1, 450],
+      ["c2", 0, 300],
+    ])
+  })
+
+  it("rejects a Reddit response that is not a thread", async () => {
+    const { fetcher } = createFixtureFetcher({
+      "https://www.reddit.com/r/a/comments/b.json?sort=top&limit=100&raw_json=1": {
+        contentType: "text/html",
+        body: "<html>blocked</html>",
+      },
+    })
+    await expect(ingestUrl("https://reddit.com/r/a/comments/b", { fetcher })).rejects.toMatchObject({
+      code: "unsupported_content",
+    })
+  })
+})
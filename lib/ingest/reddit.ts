@@ -0,0 +1,140 @@
+import { IngestError } from "./errors"
+import { type Fetcher, webUrl } from "./fetcher"
+
+export interface RedditComment {
+  id: string
+  author: string
+  body: string
+  score: number
+  depth: number
+  createdAt?: string
+  permalink?: string
+  replies: RedditComment[]
+}
+
+export interface RedditPost {
+  id: string
+  subreddit: string
+  author: string
+  title: string
+  selftext: string
+  score: number
+  upvoteRatio?: number
+  numComments: number
+  // External link for link posts; self posts point back at the thread
+  linkUrl?: string
+  permalink: string
+  createdAt?: string
+  crosspostFrom?: {
+    subreddit: string
+    author: string
+    title: string
+    permalink: string
+  }
+}
+
+export interface RedditThread {
+  post: RedditPost
+  comments: RedditComment[]
+}
+
+type Thing = { kind?: string; data?: Record<string, unknown> }
+
+const str = (value: unknown) => (typeof value === "string" ? value : "")
+const num = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : 0)
+const isoDate = (value: unknown) => (typeof value === "number" ? new Date(value * 1000).toISOString() : undefined)
+const absolute = (permalink: string) => (permalink ? `https://www.reddit.com${permalink}` : "")
+
+function parseComment(thing: Thing, depth: number): RedditComment | undefined {
+  // "more" stubs only carry ids of comments that were not loaded
+  if (thing.kind !== "t1" || !thing.data) return undefined
+  const data = thing.data
+  // Reddit sends an empty string instead of a listing when there are no replies
+  const replies = data.replies as { data?: { children?: Thing[] } } | "" | undefined
+  const children = replies && typeof replies === "object" ? replies.data?.children ?? [] : []
+
+  return {
+    id: str(data.id),
+    author: str(data.author) || "[deleted]",
+    body: str(data.body),
+    score: num(data.score),
+    depth,
+    createdAt: isoDate(data.created_utc),
+    permalink: absolute(str(data.permalink)) || undefined,
+    replies: children.map((child) => parseComment(child, depth + 1)).filter((c): c is RedditComment => !!c),
+  }
+}
+
+// The .json endpoint returns [postListing, commentListing]
+export function parseRedditListing(listing: unknown): RedditThread {
+  if (!Array.isArray(listing)) {
+    throw new IngestError("unsupported_content", "Reddit returned an unexpected response")
+  }
+
+  const postData = (listing[0] as { data?: { children?: Thing[] } })?.data?.children?.[0]?.data
+  if (!postData || !str(postData.title)) {
+    throw new IngestError("unsupported_content", "Could not find a Reddit post at that URL")
+  }
+
+  const permalink = absolute(str(postData.permalink))
+  const crosspost = (postData.crosspost_parent_list as Record<string, unknown>[] | undefined)?.[0]
+  const linkUrl = webUrl(str(postData.url_overridden_by_dest) || str(postData.url))
+
+  const post: RedditPost = {
+    id: str(postData.id),
+    subreddit: str(postData.subreddit),
+    author: str(postData.author) || "[deleted]",
+    title: str(postData.title),
+    selftext: str(postData.selftext),
+    score: num(postData.score),
+    upvoteRatio: typeof postData.upvote_ratio === "number" ? postData.upvote_ratio : undefined,
+    numComments: num(postData.num_comments),
+    linkUrl: linkUrl && !postData.is_self && linkUrl !== permalink ? linkUrl : undefined,
+    permalink,
+    createdAt: isoDate(postData.created_utc),
+    crosspostFrom: crosspost
+      ? {
+          subreddit: str(crosspost.subreddit),
+          author: str(crosspost.author),
+          title: str(crosspost.title),
+          permalink: absolute(str(crosspost.permalink)),
+        }
+      : undefined,
+  }
+
+  const commentThings = (listing[1] as { data?: { children?: Thing[] } })?.data?.children ?? []
+  const comments = commentThings.map((thing) => parseComment(thing, 0)).filter((c): c is RedditComment => !!c)
+
+  return { post, comments }
+}
+
+function flatten(comments: RedditComment[]): RedditComment[] {
+  return comments.flatMap((comment) => [comment, ...flatten(comment.replies)])
+}
+
+// Highest-scoring comments anywhere in the tree, skipping removed ones and moderator bots
+export function selectTopComments(thread: RedditThread, limit: number): RedditComment[] {
+  return flatten(thread.comments)
+    .filter((comment) => comment.body && !["[deleted]", "[removed]"].includes(comment.body))
+    .filter((comment) => comment.author !== "AutoModerator")
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(0, limit))
+}
+
+export function isRedditUrl(url: URL) {
+  return /(^|\.)reddit\.com$/i.test(url.hostname) && /^\/r\/[^/]+\/comments\//.test(url.pathname)
+}
+
+export async function fetchRedditThread(url: URL, fetcher: Fetcher): Promise<RedditThread> {
+  const path = url.pathname.replace(/\/$/, "")
+  const document = await fetcher(`https://www.reddit.com${path}.json?sort=top&limit=100&raw_json=1`, {
+    accept: "application/json",
+  })
+
+  try {
+    return parseRedditListing(JSON.parse(document.body))
+  } catch (error) {
+    if (error instanceof IngestError) throw error
+    throw new IngestError("unsupported_content", "Reddit returned an unexpected response")
+  }
+}
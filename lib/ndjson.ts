@@ -0,0 +1,26 @@
+// Read an application/x-ndjson response body line by line
+export async function* readNdjson<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) return
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split("\n")
+      buffer = lines.pop() ?? ""
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as T
+      }
+    }
+
+    if (buffer.trim()) yield JSON.parse(buffer) as T
+  } finally {
+    reader.releaseLock()
+  }
+}
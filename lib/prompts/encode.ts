@@ -0,0 +1,49 @@
+import type { PromptComment, PromptEvidence } from "./types"
+
+const MAX_COMMENT_CHARS = 500
+
+// JSON string encoding keeps untrusted text on one line, so it can never start a line that closes its block.
+// Angle brackets are escaped as well so markup in the content cannot imitate the markers.
+function encode(value: unknown) {
+  return JSON.stringify(value).replace(/</g, "\\u003c").replace(/>/g, "\\u003e")
+}
+
+export function contentBlock(content: string) {
+  return `<<<CONTENT
+${encode(content)}
+CONTENT>>>`
+}
+
+export function commentsBlock(comments: PromptComment[]) {
+  const entries = comments.map((comment) => ({
+    id: comment.id,
+    text: comment.body.replace(/\s+/g, " ").slice(0, MAX_COMMENT_CHARS),
+  }))
+  return `<<<COMMENTS
+${encode(entries)}
+COMMENTS>>>`
+}
+
+export function evidenceBlock(evidence: PromptEvidence[]) {
+  const entries = evidence.map(({ url, claim, rating, publisher }) => ({ claim, rating, publisher, url }))
+  return `<<<FACTCHECKS
+${encode(entries)}
+FACTCHECKS>>>`
+}
+
+// Inverse of the blocks above, for tooling that needs the original text back out of a prompt
+export function readContentBlock(prompt: string): string | undefined {
+  const match = [...prompt.matchAll(/^<<<CONTENT\n(.*)\nCONTENT>>>$/gm)].at(-1)
+  return match ? JSON.parse(match[1]) : undefined
+}
+
+export function readEvidenceBlock(prompt: string): PromptEvidence[] {
+  const match = [...prompt.matchAll(/^<<<FACTCHECKS\n(.*)\nFACTCHECKS>>>$/gm)].at(-1)
+  return match ? JSON.parse(match[1]) : []
+}
+
+export function readCommentsBlock(prompt: string): PromptComment[] {
+  const match = [...prompt.matchAll(/^<<<COMMENTS\n(.*)\nCOMMENTS>>>$/gm)].at(-1)
+  if (!match) return []
+  return (JSON.parse(match[1]) as { id: string; text: string }[]).map(({ id, text }) => ({ id, body: text }))
+}
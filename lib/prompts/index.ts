@@ -0,0 +1,27 @@
+import { standardV1, standardV2, standardV3, standardV4, standardV5 } from "./templates/standard"
+import type { PromptTemplate } from "./types"
+
+export * from "./types"
+export { readCommentsBlock, readContentBlock, readEvidenceBlock } from "./encode"
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [standardV1, standardV2, standardV3, standardV4, standardV5]
+
+export const DEFAULT_PROMPT_TEMPLATE = "standard@5"
+
+// "name@version", the form recorded on results and used to pick a template
+export function promptTemplateId(template: PromptTemplate) {
+  return `${template.name}@${template.version}`
+}
+
+export function getPromptTemplate(id: string): PromptTemplate | undefined {
+  return PROMPT_TEMPLATES.find((template) => promptTemplateId(template) === id)
+}
+
+export function buildRepairPrompt(prompt: string, previousOutput: string, problem: string) {
+  return `${prompt}
+
+Your previous reply could not be used (${problem}):
+${previousOutput.slice(0, 2000)}
+
+Reply again with ONLY the JSON object described above.`
+}
@@ -0,0 +1,34 @@
+import type { Language } from "@/lib/i18n/languages"
+
+export interface PromptComment {
+  id: string
+  body: string
+}
+
+export interface PromptEvidence {
+  url: string
+  claim: string
+  rating: string
+  publisher?: string
+}
+
+export interface PromptInput {
+  content: string
+  comments: PromptComment[]
+  // Set when input hardening found and neutralized manipulation attempts
+  adversarial?: boolean
+  // Fact-checks retrieved for the content, passed to templates that ground on them
+  evidence?: PromptEvidence[]
+  // Detected language of the content; templates that support it analyze in that language
+  language?: Language
+  // Language the reader wants the explanation in; defaults to English
+  outputLanguage?: Language
+}
+
+export interface PromptTemplate {
+  name: string
+  // Any wording change gets a new version so results and cache entries stay attributable
+  version: number
+  description: string
+  build(input: PromptInput): string
+}
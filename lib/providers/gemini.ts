@@ -0,0 +1,79 @@
+import { ensureOk, parseChunk, readServerSentEvents } from "./stream"
+import { type AnalysisProvider, type GenerateRequest, ProviderError } from "./types"
+
+export interface GeminiConfig {
+  apiKey?: string
+  model?: string
+  baseUrl?: string
+}
+
+// Finish reasons Gemini uses when it withholds a candidate on policy grounds
+const BLOCKED_FINISH_REASONS = new Set(["SAFETY", "PROHIBITED_CONTENT", "BLOCKLIST", "SPII", "RECITATION"])
+
+type GeminiResponse = {
+  promptFeedback?: { blockReason?: string }
+  candidates?: { finishReason?: string; content?: { parts?: { text?: string }[] } }[]
+}
+
+function candidateText(data: GeminiResponse) {
+  const blockReason = data.promptFeedback?.blockReason
+  const finishReason = data.candidates?.[0]?.finishReason
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.has(finishReason))) {
+    throw new ProviderError("blocked", `Analysis service declined the content (${blockReason ?? finishReason})`)
+  }
+  return data.candidates?.[0]?.content?.parts?.[0]?.text
+}
+
+export function createGeminiProvider({
+  apiKey,
+  model = "gemini-1.5-flash-latest",
+  baseUrl = "https://generativelanguage.googleapis.com/v1beta",
+}: GeminiConfig): AnalysisProvider {
+  const request = (
+    method: string,
+    { prompt, temperature = 0.1, maxOutputTokens = 1200, signal }: GenerateRequest,
+    query = "",
+  ) =>
+    fetch(`${baseUrl}/models/${model}:${method}?${query}key=${apiKey}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature,
+          topK: 1,
+          topP: 0.8,
+          maxOutputTokens,
+        },
+      }),
+      signal,
+    })
+
+  return {
+    id: "gemini",
+    model,
+    async generate(generateRequest: GenerateRequest) {
+      const response = await request("generateContent", generateRequest)
+      await ensureOk(response)
+
+      const generatedText = candidateText(await response.json())
+
+      if (!generatedText) {
+        throw new ProviderError("empty", "No response from analysis service")
+      }
+
+      return generatedText
+    },
+    async *generateStream(generateRequest: GenerateRequest) {
+      const response = await request("streamGenerateContent", generateRequest, "alt=sse&")
+      await ensureOk(response)
+
+      for await (const data of readServerSentEvents(response)) {
+        const text = candidateText(parseChunk(data))
+        if (text) yield text
+      }
+    },
+  }
+}
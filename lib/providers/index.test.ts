@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { createGeminiProvider } from "./gemini"
+import { createProvider } from "./index"
+
+const env = (vars: Record<string, string>) => vars as NodeJS.ProcessEnv
+
+describe("createProvider", () => {
+  it("simulates the configured mock failure", async () => {
+    const provider = createProvider("mock", env({ MOCK_FAILURE: "http" }))
+    await expect(provider.generate({ prompt: "hello" })).rejects.toMatchObject({ failure: "http", status: 503 })
+    expect(await createProvider("mock", env({ MOCK_FAILURE: "" })).generate({ prompt: "hello" })).toContain(
+      "classification",
+    )
+  })
+
+  it("rejects an unknown mock failure instead of ignoring it", () => {
+    expect(() => createProvider("mock", env({ MOCK_FAILURE: "timeout" }))).toThrow(
+      'MOCK_FAILURE must be one of http, empty, blocked, unparsable, got "timeout"',
+    )
+  })
+
+  it("rejects an unknown provider", () => {
+    expect(() => createProvider("bard" as never)).toThrow("Unknown analysis provider: bard")
+  })
+})
+
+describe("createGeminiProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("reports a stream chunk that is not JSON as a provider error", async () => {
+    const events = 'data: {"candidates":[{"content":{"parts":[{"text":"{\\"class"}]}}]}\n\ndata: {"candid\n\n'
+    vi.stubGlobal("fetch", async () => new Response(events, { headers: { "Content-Type": "text/event-stream" } }))
+    const deltas: string[] = []
+
+    const stream = createGeminiProvider({ apiKey: "test" }).generateStream!({ prompt: "hello" })
+    await expect(
+      (async () => {
+        for await (const delta of stream) deltas.push(delta)
+      })(),
+    ).rejects.toMatchObject({ name: "ProviderError", failure: "malformed" })
+    expect(deltas).toEqual(['{"class'])
+  })
+})
@@ -0,0 +1,45 @@
+import { createGeminiProvider } from "./gemini"
+import { MOCK_FAILURES, type MockFailure, createMockProvider } from "./mock"
+import { createOllamaProvider } from "./ollama"
+import { createOpenAIProvider } from "./openai"
+import type { AnalysisProvider, ProviderId } from "./types"
+
+export * from "./types"
+export { createGeminiProvider, createMockProvider, createOllamaProvider, createOpenAIProvider }
+
+// A typo would otherwise run the mock without the failure it was meant to simulate
+function mockFailure(value: string | undefined): MockFailure | undefined {
+  if (!value) return undefined
+  if (!(MOCK_FAILURES as readonly string[]).includes(value)) {
+    throw new Error(`MOCK_FAILURE must be one of ${MOCK_FAILURES.join(", ")}, got "${value}"`)
+  }
+  return value as MockFailure
+}
+
+export function createProvider(id: ProviderId, env: NodeJS.ProcessEnv = process.env): AnalysisProvider {
+  switch (id) {
+    case "gemini":
+      return createGeminiProvider({ apiKey: env.GEMINI_API_KEY, model: env.GEMINI_MODEL })
+    case "openai":
+      return createOpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_MODEL,
+        baseUrl: env.OPENAI_BASE_URL,
+      })
+    case "ollama":
+      return createOllamaProvider({ model: env.OLLAMA_MODEL, baseUrl: env.OLLAMA_BASE_URL })
+    case "mock":
+      return createMockProvider({
+        model: env.MOCK_MODEL,
+        streamDelayMs: Number.parseInt(env.MOCK_STREAM_DELAY_MS ?? "0", 10) || 0,
+        failure: mockFailure(env.MOCK_FAILURE),
+      })
+    default:
+      throw new Error(`Unknown analysis provider: ${id}`)
+  }
+}
+
+// Selected per deployment with ANALYSIS_PROVIDER; defaults to Gemini for backwards compatibility
+export function getAnalysisProvider(env: NodeJS.ProcessEnv = process.env): AnalysisProvider {
+  return createProvider((env.ANALYSIS_PROVIDER || "gemini") as ProviderId, env)
+}
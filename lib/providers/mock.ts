@@ -0,0 +1,176 @@
+import { readCommentsBlock, readContentBlock, readEvidenceBlock } from "@/lib/prompts"
+import { type AnalysisProvider, type GenerateRequest, ProviderError } from "./types"
+
+// Failure modes the mock can simulate so error handling can be exercised without a real service
+export const MOCK_FAILURES = ["http", "empty", "blocked", "unparsable"] as const
+
+export type MockFailure = (typeof MOCK_FAILURES)[number]
+
+export interface MockConfig {
+  model?: string
+  respond?: (request: GenerateRequest) => string | Promise<string>
+  // Pause between streamed chunks so progressive rendering can be exercised locally
+  streamDelayMs?: number
+  failure?: MockFailure
+}
+
+const disinformationSignals = [
+  "hoax",
+  "cover-up",
+  "cover up",
+  "they don't want you to know",
+  "mainstream media won't",
+  "wake up",
+  "plandemic",
+  "microchip",
+  "5g",
+  "chemtrails",
+  "miracle cure",
+  // Spanish, Hindi and Arabic so non-English input can be exercised offline
+  "bulo",
+  "encubrimiento",
+  "despierta",
+  "साजिश",
+  "षड्यंत्र",
+  "مؤامرة",
+  "خدعة",
+]
+
+const nsfwSignals = ["nsfw", "explicit", "porn", "nude"]
+
+const debunkSignals = ["debunked", "fact check", "fact-check", "no evidence", "not true", "misleading", "source?"]
+
+const explanations: Record<string, Record<"disinformation" | "nsfw" | "safe", string>> = {
+  es: {
+    disinformation: "El texto usa expresiones habituales en publicaciones engañosas 🚩. No aporta pruebas creíbles.",
+    nsfw: "El texto incluye material para adultos 🔞. No es una afirmación verificable.",
+    safe: "El texto no usa el encuadre típico de la desinformación ✅. Conviene revisar la fuente original.",
+  },
+  hi: {
+    disinformation: "यह टेक्स्ट भ्रामक पोस्ट में आम शब्दों का उपयोग करता है 🚩। कोई विश्वसनीय प्रमाण नहीं दिया गया है।",
+    nsfw: "इस टेक्स्ट में वयस्क सामग्री है 🔞। यह जाँचने योग्य दावा नहीं है।",
+    safe: "यह टेक्स्ट दुष्प्रचार की आम शैली का उपयोग नहीं करता ✅। मूल स्रोत जाँचना फिर भी अच्छा है।",
+  },
+  ar: {
+    disinformation: "يستخدم النص عبارات شائعة في المنشورات المضللة 🚩. لا يقدم أي دليل موثوق.",
+    nsfw: "يتضمن النص مواد للبالغين 🔞. ليس ادعاءً يمكن التحقق منه.",
+    safe: "لا يستخدم النص أسلوب المعلومات المضللة المعتاد ✅. يبقى التحقق من المصدر الأصلي عادة جيدة.",
+  },
+}
+
+function matchSignals(text: string, signals: string[]) {
+  const lower = text.toLowerCase()
+  return signals.filter((signal) => lower.includes(signal))
+}
+
+// The mock cannot translate; it tags the original so the translated-claim view has something to show
+function mockClaims(content: string, translateTo?: string) {
+  const sentences = content.match(/[^.!?\n]+[.!?]*/g) ?? []
+  return sentences
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.split(/\s+/).length >= 4)
+    .slice(0, 10)
+    .map((sentence) => {
+      const hits = matchSignals(sentence, disinformationSignals)
+      const nsfw = matchSignals(sentence, nsfwSignals)
+      const opinion = /\b(i think|i believe|in my opinion)\b/i.test(sentence)
+      return {
+        text: sentence,
+        verdict: nsfw.length > 0 ? "NSFW Content" : hits.length > 0 ? "Disinformation" : "Not Disinformation",
+        contentType: hits.length > 0 ? "Claim" : opinion ? "Opinion" : "Fact",
+        confidence: Math.min(95, 60 + (hits.length + nsfw.length) * 10),
+        keyTerms: [...nsfw, ...hits],
+        ...(translateTo ? { translation: `[${translateTo}] ${sentence}` } : {}),
+      }
+    })
+}
+
+function mockCommentStances(prompt: string) {
+  return readCommentsBlock(prompt).map(({ id, body }) => {
+    const debunks = matchSignals(body, debunkSignals)
+    const spreads = matchSignals(body, disinformationSignals)
+    return {
+      id,
+      stance: debunks.length > 0 ? "debunks" : spreads.length > 0 ? "spreads" : "neutral",
+      reason:
+        debunks.length > 0
+          ? "Challenges the claim or asks for evidence."
+          : spreads.length > 0
+            ? "Repeats the claim's talking points."
+            : "Does not take a side on the claim.",
+    }
+  })
+}
+
+// Deterministic keyword heuristic so the route can run offline and in CI
+export function mockRespond({ prompt }: GenerateRequest): string {
+  // A prompt without a content block is treated as content in full
+  const content = readContentBlock(prompt) ?? prompt
+  const disinformationHits = matchSignals(content, disinformationSignals)
+  const nsfwHits = matchSignals(content, nsfwSignals)
+  const evidence = readEvidenceBlock(prompt)
+  const outputLanguage = /output language code: (\w+)/.exec(prompt)?.[1] ?? "en"
+  const translateTo = prompt.includes('"translation"') ? outputLanguage : undefined
+  const localized = explanations[outputLanguage]
+
+  const classification =
+    nsfwHits.length > 0 ? "NSFW Content" : disinformationHits.length > 0 ? "Disinformation" : "Not Disinformation"
+  const keyTerms = nsfwHits.length > 0 ? nsfwHits : disinformationHits
+  const verdict = classification === "Disinformation" ? "disinformation" : nsfwHits.length > 0 ? "nsfw" : "safe"
+
+  return JSON.stringify({
+    classification,
+    contentType: disinformationHits.length > 0 ? "Claim" : "Mixed",
+    confidence: Math.min(95, 60 + keyTerms.length * 10),
+    explanation: localized
+      ? localized[verdict]
+      : classification === "Disinformation"
+        ? `The text relies on phrases commonly used in misleading posts 🚩. Terms like ${keyTerms.join(", ")} are typical of unverified narratives. No credible evidence is offered to back the central claim.`
+        : classification === "NSFW Content"
+          ? "The text includes adult material 🔞. It should be treated as fictional. It is not a factual claim that can be checked."
+          : "The text does not use common misinformation framing ✅. Its statements are ordinary and low risk. Checking the original source is still a good habit.",
+    keyTerms,
+    verificationSources: evidence.length
+      ? evidence.map((factCheck) => factCheck.url)
+      : ["Snopes.com", "FactCheck.org", "Reuters Fact Check"],
+    recommendations: ["Cross-check with multiple sources", "Verify publication dates"],
+    claims: mockClaims(content, translateTo),
+    comments: mockCommentStances(prompt),
+  })
+}
+
+export function createMockProvider({
+  model = "mock-heuristic",
+  respond = mockRespond,
+  streamDelayMs = 0,
+  failure,
+}: MockConfig = {}): AnalysisProvider {
+  const reply = async (request: GenerateRequest) => {
+    switch (failure) {
+      case "http":
+        throw new ProviderError("http", "Analysis service error: 503", 503)
+      case "empty":
+        throw new ProviderError("empty", "No response from analysis service")
+      case "blocked":
+        throw new ProviderError("blocked", "Analysis service declined the content (SAFETY)")
+      case "unparsable":
+        return "I'm sorry, I can't help with that."
+      default:
+        return respond(request)
+    }
+  }
+
+  return {
+    id: "mock",
+    model,
+    generate: reply,
+    async *generateStream(request: GenerateRequest) {
+      const text = await reply(request)
+      for (let index = 0; index < text.length; index += 32) {
+        if (request.signal?.aborted) return
+        if (streamDelayMs > 0) await new Promise((resolve) => setTimeout(resolve, streamDelayMs))
+        yield text.slice(index, index + 32)
+      }
+    },
+  }
+}
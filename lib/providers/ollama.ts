@@ -0,0 +1,60 @@
+import { ensureOk, parseChunk, readLines } from "./stream"
+import { type AnalysisProvider, type GenerateRequest, ProviderError } from "./types"
+
+export interface OllamaConfig {
+  model?: string
+  baseUrl?: string
+}
+
+export function createOllamaProvider({
+  model = "llama3.1",
+  baseUrl = "http://localhost:11434",
+}: OllamaConfig): AnalysisProvider {
+  const request = (stream: boolean, { prompt, temperature = 0.1, maxOutputTokens = 1200, signal }: GenerateRequest) =>
+    fetch(`${baseUrl.replace(/\/$/, "")}/api/generate`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        prompt,
+        stream,
+        format: "json",
+        options: {
+          temperature,
+          num_predict: maxOutputTokens,
+        },
+      }),
+      signal,
+    })
+
+  return {
+    id: "ollama",
+    model,
+    async generate(generateRequest: GenerateRequest) {
+      const response = await request(false, generateRequest)
+      await ensureOk(response)
+
+      const data = await response.json()
+      const generatedText = data.response
+
+      if (!generatedText) {
+        throw new ProviderError("empty", "No response from analysis service")
+      }
+
+      return generatedText as string
+    },
+    async *generateStream(generateRequest: GenerateRequest) {
+      const response = await request(true, generateRequest)
+      await ensureOk(response)
+
+      // Ollama streams one JSON object per line rather than server-sent events
+      for await (const line of readLines(response)) {
+        if (!line.trim()) continue
+        const text = parseChunk(line).response
+        if (text) yield text as string
+      }
+    },
+  }
+}
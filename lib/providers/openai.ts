@@ -0,0 +1,73 @@
+import { ensureOk, parseChunk, readServerSentEvents } from "./stream"
+import { type AnalysisProvider, type GenerateRequest, ProviderError } from "./types"
+
+export interface OpenAIConfig {
+  apiKey?: string
+  model?: string
+  baseUrl?: string
+}
+
+type OpenAIChoice = {
+  finish_reason?: string | null
+  message?: { content?: string | null; refusal?: string | null }
+  delta?: { content?: string | null; refusal?: string | null }
+}
+
+function choiceText(choice: OpenAIChoice | undefined) {
+  const part = choice?.message ?? choice?.delta
+  if (choice?.finish_reason === "content_filter" || part?.refusal) {
+    throw new ProviderError("blocked", "Analysis service declined the content")
+  }
+  return part?.content
+}
+
+// Works with any endpoint that speaks the OpenAI chat completions API
+export function createOpenAIProvider({
+  apiKey,
+  model = "gpt-4o-mini",
+  baseUrl = "https://api.openai.com/v1",
+}: OpenAIConfig): AnalysisProvider {
+  const request = (stream: boolean, { prompt, temperature = 0.1, maxOutputTokens = 1200, signal }: GenerateRequest) =>
+    fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: prompt }],
+        temperature,
+        max_tokens: maxOutputTokens,
+        stream,
+      }),
+      signal,
+    })
+
+  return {
+    id: "openai",
+    model,
+    async generate(generateRequest: GenerateRequest) {
+      const response = await request(false, generateRequest)
+      await ensureOk(response)
+
+      const data = await response.json()
+      const generatedText = choiceText(data.choices?.[0])
+
+      if (!generatedText) {
+        throw new ProviderError("empty", "No response from analysis service")
+      }
+
+      return generatedText
+    },
+    async *generateStream(generateRequest: GenerateRequest) {
+      const response = await request(true, generateRequest)
+      await ensureOk(response)
+
+      for await (const data of readServerSentEvents(response)) {
+        const text = choiceText(parseChunk(data).choices?.[0])
+        if (text) yield text
+      }
+    },
+  }
+}
@@ -0,0 +1,54 @@
+import { ProviderError } from "./types"
+
+// Split a streamed response body into lines, buffering partial lines between chunks
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new ProviderError("empty", "No response from analysis service")
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split(/\r?\n/)
+      buffer = lines.pop() ?? ""
+      for (const line of lines) yield line
+    }
+    if (buffer) yield buffer
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+// Payloads of `data:` lines in a server-sent events stream
+export async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  for await (const line of readLines(response)) {
+    if (line.startsWith("data:")) {
+      const data = line.slice("data:".length).trim()
+      if (data && data !== "[DONE]") yield data
+    }
+  }
+}
+
+// One streamed chunk; a proxy or a cut connection can leave one that is not JSON
+export function parseChunk(data: string) {
+  try {
+    return JSON.parse(data)
+  } catch {
+    throw new ProviderError("malformed", "Analysis service sent an unreadable stream chunk")
+  }
+}
+
+export async function ensureOk(response: Response) {
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error(`API error: ${response.status} - ${errorText}`)
+    throw new ProviderError("http", `Analysis service error: ${response.status}`, response.status)
+  }
+}
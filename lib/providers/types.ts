@@ -0,0 +1,36 @@
+export type ProviderId = "gemini" | "openai" | "ollama" | "mock"
+
+export interface GenerateRequest {
+  prompt: string
+  temperature?: number
+  maxOutputTokens?: number
+  signal?: AbortSignal
+}
+
+export interface AnalysisProvider {
+  id: ProviderId
+  model: string
+  generate(request: GenerateRequest): Promise<string>
+  // Yields text deltas as the model produces them; providers without streaming omit it
+  generateStream?(request: GenerateRequest): AsyncIterable<string>
+}
+
+// http: the service answered with an error status; empty: no candidate text; blocked: refused by a safety filter;
+// malformed: a streamed chunk that is not JSON
+export type ProviderFailure = "http" | "empty" | "blocked" | "malformed"
+
+export class ProviderError extends Error {
+  constructor(
+    public readonly failure: ProviderFailure,
+    message: string,
+    public readonly status?: number,
+  ) {
+    super(message)
+    this.name = "ProviderError"
+  }
+
+  // Rate limits and server-side errors are worth another try; bad requests and refusals are not
+  get retryable() {
+    return this.failure === "empty" || (this.failure === "http" && (this.status === 429 || (this.status ?? 0) >= 500))
+  }
+}
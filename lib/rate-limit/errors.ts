@@ -0,0 +1,12 @@
+import { AnalysisError } from "@/lib/analysis/errors"
+
+// Carries Retry-After and the quota headers so routes can send them with the 429
+export class RateLimitError extends AnalysisError {
+  constructor(
+    message: string,
+    public readonly headers: Record<string, string>,
+  ) {
+    super("rate_limited", message)
+    this.name = "RateLimitError"
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest"
+import {
+  checkClientIpConfig,
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  enforceRateLimit,
+  getClientIp,
+  readLimitedBody,
+} from "./index"
+
+const request = (headers: Record<string, string>) => new Request("http://localhost/api/analyze", { headers })
+const env = (vars: Record<string, string>) => vars as NodeJS.ProcessEnv
+
+describe("getClientIp", () => {
+  const forwarded = { "x-forwarded-for": "6.6.6.6, 203.0.113.7, 10.0.0.2", "x-real-ip": "198.51.100.1" }
+
+  it("ignores forwarding headers unless a proxy or header is configured", () => {
+    expect(getClientIp(request(forwarded), env({}))).toBe("unknown")
+  })
+
+  it("takes the entry added by the outermost trusted proxy", () => {
+    expect(getClientIp(request(forwarded), env({ TRUSTED_PROXY_COUNT: "1" }))).toBe("10.0.0.2")
+    expect(getClientIp(request(forwarded), env({ TRUSTED_PROXY_COUNT: "2" }))).toBe("203.0.113.7")
+    // Fewer hops than proxies means the request did not come through them
+    expect(getClientIp(request(forwarded), env({ TRUSTED_PROXY_COUNT: "4" }))).toBe("unknown")
+  })
+
+  it("prefers the platform's own header", () => {
+    const platform = env({ CLIENT_IP_HEADER: "x-real-ip", TRUSTED_PROXY_COUNT: "1" })
+    expect(getClientIp(request(forwarded), platform)).toBe("198.51.100.1")
+    expect(getClientIp(request({ "x-forwarded-for": "6.6.6.6, 10.0.0.2" }), platform)).toBe("10.0.0.2")
+  })
+})
+
+describe("checkClientIpConfig", () => {
+  it("refuses to start in production when anonymous callers would share one bucket", () => {
+    const message = /CLIENT_IP_HEADER or TRUSTED_PROXY_COUNT/
+    expect(() => checkClientIpConfig(env({ NODE_ENV: "production" }))).toThrow(message)
+    expect(() => checkClientIpConfig(env({ NODE_ENV: "production", TRUSTED_PROXY_COUNT: "0" }))).toThrow()
+  })
+
+  it("accepts either setting, no limiting at all, or a development server", () => {
+    const settings: Record<string, string>[] = [
+      { NODE_ENV: "production", CLIENT_IP_HEADER: "x-real-ip" },
+      { NODE_ENV: "production", TRUSTED_PROXY_COUNT: "1" },
+      { NODE_ENV: "production", RATE_LIMIT_STORE: "none" },
+      { NODE_ENV: "development" },
+    ]
+    for (const vars of settings) {
+      expect(() => checkClientIpConfig(env(vars))).not.toThrow()
+    }
+  })
+})
+
+describe("createRateLimiter", () => {
+  const client = { kind: "ip", id: "203.0.113.7" } as const
+  const limiter = (dailyQuota: number) =>
+    createRateLimiter({
+      store: createMemoryRateLimitStore({ now: () => 0 }),
+      rules: {
+        ip: { bucket: { capacity: 3, refillPerMinute: 1 }, dailyQuota },
+        key: { bucket: { capacity: 3, refillPerMinute: 1 }, dailyQuota },
+      },
+      now: () => 0,
+    })
+
+  it("checks the quota before taking a burst token", async () => {
+    const rateLimiter = limiter(1)
+    expect(await rateLimiter.consume(client)).toMatchObject({ allowed: true, bucket: { remaining: 2 } })
+
+    const refused = await rateLimiter.consume(client)
+    expect(refused).toMatchObject({ allowed: false, bucket: { remaining: 2 }, quota: { remaining: 0 } })
+    expect(await rateLimiter.consume(client, 0)).toMatchObject({ allowed: true, bucket: { remaining: 1 } })
+  })
+
+  it("hands the quota back when the bucket is empty", async () => {
+    const rateLimiter = limiter(10)
+    for (let request = 0; request < 3; request++) await rateLimiter.consume(client)
+
+    const refused = await rateLimiter.consume(client, 2)
+    expect(refused).toMatchObject({ allowed: false, bucket: { remaining: 0 }, quota: { remaining: 7 } })
+    await expect(enforceRateLimit(request({}), { analyses: 2, client, rateLimiter })).rejects.toThrow(/Too many/)
+  })
+})
+
+describe("readLimitedBody", () => {
+  // A chunked upload: no Content-Length to check up front
+  function chunked(chunks: string[]) {
+    const encoder = new TextEncoder()
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+        controller.close()
+      },
+    })
+    return new Request("http://localhost/api/analyze", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body,
+      duplex: "half",
+    } as RequestInit)
+  }
+
+  it("returns the body for parsing", async () => {
+    const body = await readLimitedBody(chunked(['{"content":', '"hello"}']), 64)
+    expect(await body.json()).toEqual({ content: "hello" })
+  })
+
+  it("rejects a chunked body once it passes the limit", async () => {
+    await expect(readLimitedBody(chunked(["x".repeat(40), "x".repeat(40)]), 64)).rejects.toMatchObject({
+      code: "content_too_large",
+    })
+  })
+
+  it("rejects a declared length over the limit without reading", async () => {
+    const declared = new Request("http://localhost/api/analyze", {
+      method: "POST",
+      headers: { "content-length": "2048" },
+      body: "{}",
+    })
+    await expect(readLimitedBody(declared, 1024)).rejects.toMatchObject({ code: "content_too_large" })
+    expect(declared.bodyUsed).toBe(false)
+  })
+
+  it("keeps the content type so multipart bodies still parse", async () => {
+    const form = new FormData()
+    form.set("file", new Blob(["url\nhttps://example.com"], { type: "text/csv" }), "items.csv")
+    const body = await readLimitedBody(new Request("http://localhost/", { method: "POST", body: form }), 4096)
+    const file = (await body.formData()).get("file")
+    expect(file).toBeInstanceOf(File)
+    expect(await (file as File).text()).toBe("url\nhttps://example.com")
+  })
+})
@@ -0,0 +1,158 @@
+import { AnalysisError } from "@/lib/analysis/errors"
+import { authenticateApiKey, readApiKey } from "@/lib/api-keys"
+import { RateLimitError } from "./errors"
+import { type RateLimiter, createRateLimiter } from "./limiter"
+import { createMemoryRateLimitStore } from "./memory"
+import type { RateLimitClient, RateLimitConfig, RateLimitDecision, RateLimitRule, RateLimitStore } from "./types"
+
+export * from "./types"
+export { RateLimitError, createMemoryRateLimitStore, createRateLimiter }
+export type { RateLimiter }
+
+// Generous for any content under the length limit, even with every character JSON-escaped
+export const MAX_ANALYSIS_BODY_BYTES = 1024 * 1024
+export const MAX_BATCH_BODY_BYTES = 25 * 1024 * 1024
+
+let limiter: RateLimiter | null | undefined
+
+function envNumber(value: string | undefined, fallback: number, { allowZero = false } = {}) {
+  const parsed = Number.parseFloat(value ?? "")
+  return Number.isFinite(parsed) && (parsed > 0 || (allowZero && parsed === 0)) ? parsed : fallback
+}
+
+function readRule(env: NodeJS.ProcessEnv, prefix: string, defaults: RateLimitRule): RateLimitRule {
+  return {
+    bucket: {
+      capacity: envNumber(env[`${prefix}_BURST`], defaults.bucket.capacity),
+      refillPerMinute: envNumber(env[`${prefix}_PER_MINUTE`], defaults.bucket.refillPerMinute),
+    },
+    dailyQuota: Math.floor(envNumber(env[`${prefix}_DAILY`], defaults.dailyQuota, { allowZero: true })),
+  }
+}
+
+export function getRateLimitConfig(env: NodeJS.ProcessEnv = process.env): RateLimitConfig {
+  return {
+    ip: readRule(env, "RATE_LIMIT_IP", { bucket: { capacity: 10, refillPerMinute: 5 }, dailyQuota: 100 }),
+    key: readRule(env, "RATE_LIMIT_KEY", { bucket: { capacity: 30, refillPerMinute: 30 }, dailyQuota: 2000 }),
+  }
+}
+
+// RATE_LIMIT_STORE=none turns limiting off, e.g. behind a gateway that already does it
+export function createRateLimitStore(env: NodeJS.ProcessEnv = process.env): RateLimitStore | null {
+  switch (env.RATE_LIMIT_STORE || "memory") {
+    case "memory":
+      return createMemoryRateLimitStore()
+    case "none":
+      return null
+    default:
+      throw new Error(`Unknown rate limit store: ${env.RATE_LIMIT_STORE}`)
+  }
+}
+
+// Without CLIENT_IP_HEADER or TRUSTED_PROXY_COUNT every anonymous caller shares one bucket that any of them can
+// drain. That is fine on a developer's machine; in production the server refuses to start
+export function checkClientIpConfig(env: NodeJS.ProcessEnv = process.env) {
+  if (env.NODE_ENV !== "production" || env.RATE_LIMIT_STORE === "none") return
+  if (env.CLIENT_IP_HEADER?.trim() || Math.floor(envNumber(env.TRUSTED_PROXY_COUNT, 0)) > 0) return
+  throw new Error("Set CLIENT_IP_HEADER or TRUSTED_PROXY_COUNT so anonymous callers are limited by IP address")
+}
+
+export function getRateLimiter(): RateLimiter | null {
+  if (limiter === undefined) {
+    checkClientIpConfig()
+    const store = createRateLimitStore()
+    limiter = store && createRateLimiter({ store, rules: getRateLimitConfig() })
+  }
+  return limiter
+}
+
+// Clients can send any X-Forwarded-For they like, so only the entry added by the outermost of TRUSTED_PROXY_COUNT
+// proxies is believed, or a header the platform sets itself (CLIENT_IP_HEADER, e.g. x-real-ip behind nginx).
+// Without either every caller shares a bucket, which checkClientIpConfig only allows outside production
+export function getClientIp(request: Request, env: NodeJS.ProcessEnv = process.env) {
+  const header = env.CLIENT_IP_HEADER?.trim()
+  const platform = header ? request.headers.get(header)?.trim() : undefined
+  if (platform) return platform
+
+  const proxies = Math.floor(envNumber(env.TRUSTED_PROXY_COUNT, 0))
+  const hops = request.headers.get("x-forwarded-for")?.split(",").map((hop) => hop.trim()) ?? []
+  return (proxies > 0 && hops.length >= proxies && hops[hops.length - proxies]) || "unknown"
+}
+
+// Callers sending an API key get the key's limits; anyone else is limited by IP
+export async function getRateLimitClient(request: Request): Promise<RateLimitClient> {
+  if (!readApiKey(request)) return { kind: "ip", id: getClientIp(request) }
+  const apiKey = await authenticateApiKey(request)
+  return { kind: "key", id: apiKey.id }
+}
+
+export function rateLimitHeaders({ bucket, quota, retryAfterSeconds }: RateLimitDecision): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(bucket.limit),
+    "X-RateLimit-Remaining": String(bucket.remaining),
+    "X-RateLimit-Reset": String(bucket.resetSeconds),
+    ...(quota && {
+      "X-Quota-Limit": String(quota.limit),
+      "X-Quota-Remaining": String(quota.remaining),
+      "X-Quota-Reset": String(quota.resetSeconds),
+    }),
+    ...(retryAfterSeconds !== undefined && { "Retry-After": String(retryAfterSeconds) }),
+  }
+}
+
+// Charges the request to its client and returns the headers to send back; throws a RateLimitError when over
+export async function enforceRateLimit(
+  request: Request,
+  {
+    analyses = 1,
+    client,
+    rateLimiter = getRateLimiter(),
+  }: { analyses?: number; client?: RateLimitClient; rateLimiter?: RateLimiter | null } = {},
+): Promise<Record<string, string>> {
+  client ??= await getRateLimitClient(request)
+  if (!rateLimiter) return {}
+
+  const decision = await rateLimiter.consume(client, analyses)
+  const headers = rateLimitHeaders(decision)
+  if (decision.allowed) return headers
+
+  if (decision.quota && decision.quota.remaining < analyses) {
+    throw new RateLimitError(
+      analyses > decision.quota.limit
+        ? `This request needs ${analyses} analyses, more than the daily quota of ${decision.quota.limit}`
+        : `Daily quota reached: ${decision.quota.remaining} of ${decision.quota.limit} analyses left today`,
+      headers,
+    )
+  }
+  throw new RateLimitError(`Too many requests, try again in ${decision.retryAfterSeconds} seconds`, headers)
+}
+
+function bodyTooLarge(maxBytes: number) {
+  return new AnalysisError("content_too_large", `Request body is larger than ${Math.floor(maxBytes / 1024)} KB`)
+}
+
+// Reads the body into memory, refusing it once it passes maxBytes. A declared Content-Length is rejected up front;
+// chunked bodies have none, so bytes are counted as they arrive too. Parse the result with json(), text() or
+// formData() as you would the request
+export async function readLimitedBody(request: Request, maxBytes: number): Promise<Response> {
+  if (Number(request.headers.get("content-length") ?? 0) > maxBytes) throw bodyTooLarge(maxBytes)
+
+  const chunks: Uint8Array[] = []
+  if (request.body) {
+    const reader = request.body.getReader()
+    let total = 0
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      total += value.byteLength
+      if (total > maxBytes) {
+        await reader.cancel()
+        throw bodyTooLarge(maxBytes)
+      }
+      chunks.push(value)
+    }
+  }
+
+  const contentType = request.headers.get("content-type")
+  return new Response(new Blob(chunks), { headers: contentType ? { "Content-Type": contentType } : undefined })
+}
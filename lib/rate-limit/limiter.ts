@@ -0,0 +1,84 @@
+import type {
+  RateLimitClient,
+  RateLimitConfig,
+  RateLimitDecision,
+  RateLimitEntry,
+  RateLimitStore,
+  RateLimitWindow,
+  TokenBucketRule,
+} from "./types"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface RateLimiter {
+  // Takes one request from the client's bucket and `analyses` from its daily quota
+  consume(client: RateLimitClient, analyses?: number): Promise<RateLimitDecision>
+}
+
+export interface RateLimiterConfig {
+  store: RateLimitStore
+  rules: RateLimitConfig
+  now?: () => number
+}
+
+function secondsUntilTokens(tokens: number, target: number, { refillPerMinute }: TokenBucketRule) {
+  return Math.max(0, Math.ceil(((target - tokens) * 60) / refillPerMinute))
+}
+
+export function createRateLimiter({ store, rules, now = Date.now }: RateLimiterConfig): RateLimiter {
+  return {
+    async consume(client, analyses = 1) {
+      const rule = rules[client.kind]
+      const prefix = `${client.kind}:${client.id}`
+      const time = now()
+
+      // Quotas reset at midnight UTC and are checked first, so a client over its quota keeps its burst tokens
+      const dayStart = Math.floor(time / DAY_MS) * DAY_MS
+      const msToReset = dayStart + DAY_MS - time
+      let quotaTaken = false
+      const takeQuota = (change: number) =>
+        store.update(
+          `${prefix}:quota`,
+          (entry) => {
+            const remaining = entry && entry.updatedAt === dayStart ? entry.tokens : rule.dailyQuota
+            quotaTaken = remaining >= change
+            return { tokens: quotaTaken ? remaining - change : remaining, updatedAt: dayStart }
+          },
+          msToReset,
+        )
+      const quotaWindow = ({ tokens }: RateLimitEntry): RateLimitWindow => ({
+        limit: rule.dailyQuota,
+        remaining: tokens,
+        resetSeconds: Math.ceil(msToReset / 1000),
+      })
+      let quota = rule.dailyQuota ? quotaWindow(await takeQuota(analyses)) : undefined
+
+      // The bucket refills continuously, so a burst is followed by a steady trickle rather than a hard wait
+      const { capacity, refillPerMinute } = rule.bucket
+      let allowed = false
+      const bucketEntry = await store.update(
+        `${prefix}:bucket`,
+        (entry) => {
+          const refilled = entry ? entry.tokens + ((time - entry.updatedAt) * refillPerMinute) / 60_000 : capacity
+          const tokens = Math.min(capacity, refilled)
+          allowed = tokens >= 1 && (!quota || quotaTaken)
+          return { tokens: allowed ? tokens - 1 : tokens, updatedAt: time }
+        },
+        secondsUntilTokens(0, capacity, rule.bucket) * 1000,
+      )
+      const bucket: RateLimitWindow = {
+        limit: capacity,
+        remaining: Math.floor(bucketEntry.tokens),
+        resetSeconds: secondsUntilTokens(bucketEntry.tokens, capacity, rule.bucket),
+      }
+      if (quota && !quotaTaken) return { allowed, bucket, quota, retryAfterSeconds: quota.resetSeconds }
+      if (!allowed) {
+        // A refused request does not count against the quota
+        if (quota) quota = quotaWindow(await takeQuota(-analyses))
+        const retryAfterSeconds = Math.max(1, secondsUntilTokens(bucketEntry.tokens, 1, rule.bucket))
+        return { allowed, bucket, quota, retryAfterSeconds }
+      }
+      return { allowed, bucket, quota }
+    },
+  }
+}
@@ -0,0 +1,27 @@
+import type { RateLimitEntry, RateLimitStore } from "./types"
+
+export interface MemoryRateLimitStoreConfig {
+  maxEntries?: number
+  now?: () => number
+}
+
+// Updates run synchronously, so concurrent requests in this process cannot interleave
+export function createMemoryRateLimitStore({
+  maxEntries = 10_000,
+  now = Date.now,
+}: MemoryRateLimitStoreConfig = {}): RateLimitStore {
+  const entries = new Map<string, { entry: RateLimitEntry; expiresAt: number }>()
+
+  return {
+    async update(key, change, ttlMs) {
+      const current = entries.get(key)
+      const entry = change(current && current.expiresAt > now() ? current.entry : undefined)
+      entries.delete(key)
+      entries.set(key, { entry, expiresAt: now() + ttlMs })
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!)
+      }
+      return entry
+    },
+  }
+}
@@ -0,0 +1,52 @@
+// Tokens left and when they were last counted; a daily quota stores its window start in updatedAt
+export interface RateLimitEntry {
+  tokens: number
+  updatedAt: number
+}
+
+export interface RateLimitStore {
+  // Read, change and write one entry without another request slipping in between
+  update(
+    key: string,
+    change: (entry: RateLimitEntry | undefined) => RateLimitEntry,
+    ttlMs: number,
+  ): Promise<RateLimitEntry>
+}
+
+export interface TokenBucketRule {
+  // Requests that can be made in a burst
+  capacity: number
+  refillPerMinute: number
+}
+
+export interface RateLimitRule {
+  bucket: TokenBucketRule
+  // Analyses per UTC day; 0 means unlimited
+  dailyQuota: number
+}
+
+export interface RateLimitConfig {
+  ip: RateLimitRule
+  key: RateLimitRule
+}
+
+// Anonymous callers are limited by IP address, API key holders by key
+export interface RateLimitClient {
+  kind: "ip" | "key"
+  id: string
+}
+
+export interface RateLimitWindow {
+  limit: number
+  remaining: number
+  // Seconds until the bucket is full again, or until the quota resets
+  resetSeconds: number
+}
+
+export interface RateLimitDecision {
+  allowed: boolean
+  bucket: RateLimitWindow
+  quota?: RateLimitWindow
+  // Set when the request was refused
+  retryAfterSeconds?: number
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest"
+import { createBm25Index, tokenize } from "./bm25"
+import { type FactCheck, createFactCheckRetriever } from "./index"
+
+describe("tokenize", () => {
+  it("drops stopwords and one-letter tokens and folds plurals", () => {
+    expect(tokenize("The vaccines are NOT a cause of autism, says a 2019 study")).toEqual([
+      "vaccine",
+      "not",
+      "cause",
+      "autism",
+      "say",
+      "2019",
+      "study",
+    ])
+    expect(tokenize("glass bus")).toEqual(["glass", "bus"])
+  })
+})
+
+describe("createBm25Index", () => {
+  const documents = [
+    "vaccines cause autism in children",
+    "vaccines are tested in trials before approval",
+    "5g towers spread the virus",
+    "the election was stolen with fake ballots",
+  ]
+
+  it("ranks documents by the query terms they share, rarer terms counting more", () => {
+    const index = createBm25Index(documents)
+    expect(index.search("do vaccines cause autism", 10).map((hit) => [hit.index, hit.matchedTerms])).toEqual([
+      [0, 3],
+      [1, 1],
+    ])
+    // "vaccine" is in two documents, "towers" in one, so the rarer term wins on its own
+    const [rare, common] = [index.search("towers", 1)[0], index.search("vaccines", 1)[0]]
+    expect(rare.score).toBeGreaterThan(common.score)
+  })
+
+  it("prefers the shorter of two documents with the same matches", () => {
+    const index = createBm25Index([
+      "miracle cure for cancer found in a common kitchen spice sold in every supermarket",
+      "miracle cure for cancer",
+    ])
+    expect(index.search("miracle cure", 2).map((hit) => hit.index)).toEqual([1, 0])
+  })
+
+  it("gives repeated terms diminishing returns", () => {
+    // Same length, so only the term frequency differs
+    const index = createBm25Index([
+      "moon hoax alpha beta gamma",
+      "moon moon hoax alpha beta",
+      "moon moon moon moon hoax",
+      "mars rover",
+    ])
+    const scores = new Map(index.search("moon", 3).map((hit) => [hit.index, hit.score]))
+    const [once, twice, four] = [scores.get(0)!, scores.get(1)!, scores.get(2)!]
+    expect(once).toBeLessThan(twice)
+    expect(four - twice).toBeLessThan(twice - once)
+  })
+
+  it("breaks ties by document order and honors the limit", () => {
+    const index = createBm25Index(["flat earth", "flat earth", "flat earth"])
+    expect(index.search("flat earth", 2).map((hit) => hit.index)).toEqual([0, 1])
+    expect(index.search("unrelated", 5)).toEqual([])
+  })
+})
+
+describe("createFactCheckRetriever", () => {
+  const factCheck = (id: string, claim: string, rating = "False"): FactCheck => ({
+    id,
+    url: `https://factcheck.example/${id}`,
+    claim,
+    rating,
+    excerpt: "",
+  })
+  const corpus = [
+    factCheck("a", "5G towers spread the coronavirus"),
+    factCheck("b", "Drinking bleach cures the coronavirus"),
+    factCheck("c", "The moon landing was filmed in a studio"),
+  ]
+
+  it("returns the closest fact-checks that share at least two query terms", () => {
+    const retriever = createFactCheckRetriever(corpus)
+    expect(retriever.search("Do 5G towers spread coronavirus?").map((match) => match.factCheck.id)).toEqual(["a"])
+    expect(retriever.search("coronavirus news today")).toEqual([])
+  })
+
+  it("lets a one-word query match on that word", () => {
+    expect(createFactCheckRetriever(corpus).search("moon").map((match) => match.factCheck.id)).toEqual(["c"])
+  })
+
+  it("indexes each id once and versions the corpus by its ids and ratings", () => {
+    const retriever = createFactCheckRetriever([...corpus, corpus[0]])
+    expect(retriever.size).toBe(3)
+    expect(retriever.version).toBe(createFactCheckRetriever([...corpus].reverse()).version)
+    expect(retriever.version).not.toBe(createFactCheckRetriever([...corpus, { ...corpus[0], rating: "True" }]).version)
+  })
+})
@@ -0,0 +1,64 @@
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be been but by for from has have he her his i if in into is it its of on or our she so " +
+    "than that the their them there these they this those to was we were what when which who will with you your"
+  ).split(" "),
+)
+
+export function tokenize(text: string): string[] {
+  return (text.normalize("NFKC").toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) ?? [])
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+    .map((token) => (token.length > 3 && token.endsWith("s") && !token.endsWith("ss") ? token.slice(0, -1) : token))
+}
+
+export interface Bm25Hit {
+  index: number
+  score: number
+  // Distinct query terms found in the document
+  matchedTerms: number
+}
+
+export interface Bm25Index {
+  search(query: string, limit: number): Bm25Hit[]
+}
+
+// Okapi BM25 over an in-memory inverted index
+export function createBm25Index(documents: string[], { k1 = 1.2, b = 0.75 } = {}): Bm25Index {
+  const lengths: number[] = []
+  const postings = new Map<string, Map<number, number>>()
+
+  documents.forEach((document, index) => {
+    const tokens = tokenize(document)
+    lengths.push(tokens.length)
+    for (const token of tokens) {
+      const posting = postings.get(token) ?? new Map<number, number>()
+      posting.set(index, (posting.get(index) ?? 0) + 1)
+      postings.set(token, posting)
+    }
+  })
+
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / Math.max(1, lengths.length)
+  const idf = (term: string) => {
+    const frequency = postings.get(term)?.size ?? 0
+    return Math.log(1 + (documents.length - frequency + 0.5) / (frequency + 0.5))
+  }
+
+  return {
+    search(query, limit) {
+      const scores = new Map<number, Bm25Hit>()
+      for (const term of new Set(tokenize(query))) {
+        const posting = postings.get(term)
+        if (!posting) continue
+        const weight = idf(term)
+        for (const [index, frequency] of posting) {
+          const norm = frequency + k1 * (1 - b + (b * lengths[index]) / averageLength)
+          const hit = scores.get(index) ?? { index, score: 0, matchedTerms: 0 }
+          hit.score += (weight * frequency * (k1 + 1)) / norm
+          hit.matchedTerms++
+          scores.set(index, hit)
+        }
+      }
+      return [...scores.values()].sort((a, b) => b.score - a.score || a.index - b.index).slice(0, limit)
+    },
+  }
+}
@@ -0,0 +1,60 @@
+import type { FactCheck } from "./types"
+
+type Node = Record<string, unknown>
+
+const str = (value: unknown) => (typeof value === "string" ? value.trim() : "")
+
+function name(value: unknown): string | undefined {
+  if (typeof value === "string") return value.trim() || undefined
+  if (Array.isArray(value)) return name(value[0])
+  if (value && typeof value === "object") return str((value as Node).name) || undefined
+  return undefined
+}
+
+function isClaimReview(node: Node) {
+  return [node["@type"]].flat().some((type) => type === "ClaimReview")
+}
+
+// ClaimReview nodes can sit at the top level, in arrays, in @graph or inside DataFeed dumps
+function collectNodes(value: unknown, found: Node[] = []): Node[] {
+  if (Array.isArray(value)) {
+    for (const item of value) collectNodes(item, found)
+  } else if (value && typeof value === "object") {
+    const node = value as Node
+    if (isClaimReview(node)) found.push(node)
+    for (const key of ["@graph", "dataFeedElement", "item"]) {
+      if (key in node) collectNodes(node[key], found)
+    }
+  }
+  return found
+}
+
+function rating(node: Node) {
+  const reviewRating = (node.reviewRating ?? {}) as Node
+  const alternateName = str(reviewRating.alternateName) || str(reviewRating.name)
+  if (alternateName) return alternateName
+  const value = reviewRating.ratingValue
+  const best = reviewRating.bestRating
+  return value !== undefined ? `${value}${best !== undefined ? `/${best}` : ""}` : "Unrated"
+}
+
+export function parseClaimReviews(json: unknown): FactCheck[] {
+  return collectNodes(json).flatMap((node) => {
+    const url = str(node.url)
+    const claim = str(node.claimReviewed)
+    if (!/^https?:\/\//i.test(url) || !claim) return []
+
+    const excerpt = str(node.reviewBody) || str(node.description) || str(node.headline) || claim
+    return [
+      {
+        id: url,
+        url,
+        claim,
+        rating: rating(node),
+        publisher: name(node.author) ?? name(node.publisher),
+        reviewedAt: str(node.datePublished) || undefined,
+        excerpt: excerpt.length > 300 ? `${excerpt.slice(0, 297)}...` : excerpt,
+      },
+    ]
+  })
+}
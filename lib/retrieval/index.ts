@@ -0,0 +1,107 @@
+import { createHash } from "node:crypto"
+import { readFile, readdir } from "node:fs/promises"
+import path from "node:path"
+import { createBm25Index, tokenize } from "./bm25"
+import { parseClaimReviews } from "./claimreview"
+import type { Citation } from "@/lib/analysis/schema"
+import type { FactCheck, FactCheckMatch, FactCheckRetriever } from "./types"
+
+export * from "./types"
+export { parseClaimReviews }
+
+// A match must share at least this many distinct terms with the query; single-word overlaps are noise
+const MIN_MATCHED_TERMS = 2
+
+export function createFactCheckRetriever(factChecks: FactCheck[]): FactCheckRetriever {
+  const unique = [...new Map(factChecks.map((factCheck) => [factCheck.id, factCheck])).values()]
+  const index = createBm25Index(unique.map((factCheck) => `${factCheck.claim} ${factCheck.claim} ${factCheck.excerpt}`))
+  const version = createHash("sha256")
+    .update(unique.map((factCheck) => `${factCheck.id}|${factCheck.rating}`).sort().join("\n"))
+    .digest("hex")
+    .slice(0, 12)
+
+  return {
+    version,
+    size: unique.length,
+    search(query, limit = 3) {
+      const queryTerms = new Set(tokenize(query)).size
+      return index
+        .search(query, limit)
+        .filter((hit) => hit.matchedTerms >= Math.min(MIN_MATCHED_TERMS, queryTerms))
+        .map((hit) => ({ factCheck: unique[hit.index], score: Math.round(hit.score * 100) / 100 }))
+    },
+  }
+}
+
+async function readCorpusFile(filePath: string): Promise<FactCheck[]> {
+  const text = await readFile(filePath, "utf8")
+  try {
+    if (filePath.endsWith(".jsonl")) {
+      return text
+        .split(/\r?\n/)
+        .filter((line) => line.trim())
+        .flatMap((line) => parseClaimReviews(JSON.parse(line)))
+    }
+    return parseClaimReviews(JSON.parse(text))
+  } catch (error) {
+    console.error(`Skipping unreadable fact-check file ${filePath}:`, error)
+    return []
+  }
+}
+
+// Every .json, .jsonld and .jsonl file in the directory, searched recursively
+export async function loadFactCheckCorpus(directory: string): Promise<FactCheck[]> {
+  let entries
+  try {
+    entries = await readdir(directory, { withFileTypes: true, recursive: true })
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+    throw error
+  }
+
+  const files = entries
+    .filter((entry) => entry.isFile() && /\.(json|jsonld|jsonl)$/i.test(entry.name))
+    .map((entry) => path.join(entry.parentPath, entry.name))
+    .sort()
+  return (await Promise.all(files.map(readCorpusFile))).flat()
+}
+
+let retriever: Promise<FactCheckRetriever | null> | undefined
+
+// Null when no corpus is configured, in which case analysis runs without grounding
+export function getFactCheckRetriever(env: NodeJS.ProcessEnv = process.env): Promise<FactCheckRetriever | null> {
+  return (retriever ??= loadFactCheckCorpus(env.FACTCHECK_CORPUS_DIR || path.join(process.cwd(), "data", "factchecks"))
+    .then((factChecks) => (factChecks.length ? createFactCheckRetriever(factChecks) : null))
+    .catch((error) => {
+      console.error("Failed to load fact-check corpus:", error)
+      return null
+    }))
+}
+
+const MAX_GROUNDING = 5
+
+export function toCitation({ factCheck, score }: FactCheckMatch): Citation {
+  const { url, claim, rating, publisher, reviewedAt, excerpt } = factCheck
+  return { url, claim, rating, publisher, reviewedAt, excerpt, score }
+}
+
+// Fact-checks worth showing the model before it has split the content into claims
+export function retrieveForText(retriever: FactCheckRetriever, text: string, limit = MAX_GROUNDING): Citation[] {
+  const sentences = (text.match(/[^.!?\n]+[.!?]*/g) ?? []).filter(
+    (sentence) => sentence.trim().split(/\s+/).length >= 4,
+  )
+  const matches = [
+    ...retriever.search(text, limit),
+    ...sentences.slice(0, 20).flatMap((sentence) => retriever.search(sentence, 2)),
+  ]
+  return mergeCitations(matches.map(toCitation), limit)
+}
+
+export function mergeCitations(citations: Citation[], limit = MAX_GROUNDING): Citation[] {
+  const best = new Map<string, Citation>()
+  for (const citation of citations) {
+    const current = best.get(citation.url)
+    if (!current || citation.score > current.score) best.set(citation.url, citation)
+  }
+  return [...best.values()].sort((a, b) => b.score - a.score).slice(0, limit)
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest"
+import { ratingTone } from "./rating"
+
+describe("ratingTone", () => {
+  it.each([
+    ["False", "false"],
+    ["Pants on Fire!", "false"],
+    ["Incorrect", "false"],
+    ["Not true", "false"],
+    ["NOT ACCURATE", "false"],
+    ["Inaccurate", "false"],
+    ["Mostly false", "false"],
+    ["Partly accurate", "mixed"],
+    ["Half true", "mixed"],
+    ["Mostly true", "mixed"],
+    ["Not entirely correct", "mixed"],
+    ["Missing context", "mixed"],
+    ["True", "true"],
+    ["Correct attribution", "true"],
+    ["Accurate", "true"],
+    ["Satire", undefined],
+  ])("reads %j as %s", (rating, tone) => {
+    expect(ratingTone(rating)).toBe(tone)
+  })
+})
@@ -0,0 +1,19 @@
+export type RatingTone = "false" | "mixed" | "true"
+
+// Fact-checkers use free-form ratings; sort the common ones and leave the rest alone. False and mixed are checked
+// first so "Not true" or "Partly accurate" are never read as true
+export function ratingTone(rating: string): RatingTone | undefined {
+  if (
+    /\b(false|fake|pants on fire|incorrect|inaccurate|untrue|fabricated|misleading|scam|wrong)\b/i.test(rating) ||
+    /\bnot (true|correct|accurate|real)\b/i.test(rating)
+  ) {
+    return "false"
+  }
+  if (
+    /\b(mixture|mixed|half|partly|partially|mostly|unproven|missing context|exaggerated)\b/i.test(rating) ||
+    /\bnot (entirely|quite|completely|wholly|fully) (true|correct|accurate)\b/i.test(rating)
+  ) {
+    return "mixed"
+  }
+  if (/\b(true|correct|accurate)\b/i.test(rating)) return "true"
+}
@@ -0,0 +1,22 @@
+export interface FactCheck {
+  id: string
+  url: string
+  // The claim the fact-checker reviewed, in their words
+  claim: string
+  rating: string
+  publisher?: string
+  reviewedAt?: string
+  excerpt: string
+}
+
+export interface FactCheckMatch {
+  factCheck: FactCheck
+  score: number
+}
+
+export interface FactCheckRetriever {
+  // Changes whenever the indexed corpus changes, so cached results can be told apart
+  version: string
+  size: number
+  search(query: string, limit?: number): FactCheckMatch[]
+}
@@ -0,0 +1,134 @@
+import path from "node:path"
+import { z } from "zod"
+import { AnalysisError } from "@/lib/analysis/errors"
+import { CLASSIFICATIONS } from "@/lib/analysis/schema"
+import {
+  type AppendLog,
+  type StoredAnalysis,
+  createFileAppendLog,
+  createMemoryAppendLog,
+  getAnalysisStore,
+  getDataDirectory,
+} from "@/lib/store"
+import { createAnalysisId } from "@/lib/store/id"
+import {
+  type PublicReview,
+  REVIEW_STATES,
+  type Review,
+  type ReviewAuditEntry,
+  type ReviewState,
+  type ReviewStore,
+  type Reviewer,
+} from "./types"
+
+export * from "./types"
+
+export const reviewRequestSchema = z
+  .object({
+    state: z.enum(REVIEW_STATES),
+    classification: z.enum(CLASSIFICATIONS).optional().describe("The corrected verdict; required to overturn"),
+    rationale: z.string().trim().max(2000).optional().describe("Why; required to overturn or escalate"),
+  })
+  .superRefine((body, context) => {
+    if (body.state === "overturned" && !body.classification) {
+      context.addIssue({ code: "custom", path: ["classification"], message: "Required to overturn" })
+    }
+    if (body.state !== "overturned" && body.classification) {
+      context.addIssue({ code: "custom", path: ["classification"], message: "Only allowed when overturning" })
+    }
+    if ((body.state === "overturned" || body.state === "escalated") && !body.rationale) {
+      context.addIssue({ code: "custom", path: ["rationale"], message: `Required when ${body.state}` })
+    }
+  })
+
+export type ReviewRequest = z.infer<typeof reviewRequestSchema>
+
+function createReviewStore(log: AppendLog<ReviewAuditEntry>): ReviewStore {
+  return {
+    append: (entry) => log.append({ id: createAnalysisId(), at: new Date().toISOString(), ...entry }),
+    list: (options) => log.list(options),
+  }
+}
+
+export function createMemoryReviewStore(): ReviewStore {
+  return createReviewStore(createMemoryAppendLog())
+}
+
+export function createFileReviewStore(directory: string): ReviewStore {
+  return createReviewStore(createFileAppendLog(path.join(directory, "review-audit.jsonl")))
+}
+
+let store: ReviewStore | undefined
+
+export function getReviewStore(env: NodeJS.ProcessEnv = process.env): ReviewStore {
+  return (store ??=
+    env.ANALYSIS_STORE === "memory" ? createMemoryReviewStore() : createFileReviewStore(getDataDirectory(env)))
+}
+
+function toReview(analysisId: string, latest: ReviewAuditEntry | undefined): Review {
+  if (!latest) return { analysisId, state: "pending" }
+  return {
+    analysisId,
+    ...latest.to,
+    rationale: latest.rationale,
+    reviewer: latest.reviewer,
+    updatedAt: latest.at,
+  }
+}
+
+export async function getReview(analysisId: string, reviewStore = getReviewStore()) {
+  const history = await reviewStore.list({ analysisId })
+  return { review: toReview(analysisId, history.at(-1)), history }
+}
+
+// The verdict an analysis stands at: the reviewer's when they overturned the model's
+export function reviewedClassification(analysis: StoredAnalysis, review: Pick<Review, "state" | "classification">) {
+  return (review.state === "overturned" && review.classification) || analysis.result.classification
+}
+
+// What the public result views show; who reviewed stays in the audit log
+export function toPublicReview({ reviewer: _reviewer, ...review }: Review): PublicReview {
+  return review
+}
+
+let queue: Promise<unknown> = Promise.resolve()
+
+// Changes are serialized so each entry's `from` is the verdict it actually replaced
+export function submitReview(
+  analysis: StoredAnalysis,
+  { state, classification, rationale }: ReviewRequest,
+  reviewer: Reviewer,
+  reviewStore = getReviewStore(),
+): Promise<Review> {
+  if (classification && classification === analysis.result.classification) {
+    throw new AnalysisError("invalid_request", `The model already classified this as ${classification}; confirm it`)
+  }
+
+  const run = queue.then(async () => {
+    const { review } = await getReview(analysis.id, reviewStore)
+    const entry = await reviewStore.append({
+      analysisId: analysis.id,
+      reviewer,
+      from: { state: review.state, classification: review.classification },
+      to: { state, classification },
+      rationale: rationale || undefined,
+    })
+    return toReview(analysis.id, entry)
+  })
+  queue = run.catch(() => undefined)
+  return run
+}
+
+// Newest analyses first, each with its current review; without a state every analysis is listed
+export async function listReviewQueue(
+  { state, limit = 50 }: { state?: ReviewState; limit?: number } = {},
+  reviewStore = getReviewStore(),
+) {
+  const [analyses, entries] = await Promise.all([getAnalysisStore().list(), reviewStore.list()])
+  const latest = new Map(entries.map((entry) => [entry.analysisId, entry]))
+
+  return analyses
+    .map((analysis) => ({ analysis, review: toReview(analysis.id, latest.get(analysis.id)) }))
+    .filter(({ review }) => !state || review.state === state)
+    .slice(0, limit)
+}
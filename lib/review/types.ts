@@ -0,0 +1,45 @@
+import type { Classification } from "@/lib/analysis/schema"
+
+// Every analysis starts pending; a reviewer may move it to any other state, including back to pending
+export const REVIEW_STATES = ["pending", "confirmed", "overturned", "escalated"] as const
+
+export type ReviewState = (typeof REVIEW_STATES)[number]
+
+// The API key the change was made with
+export interface Reviewer {
+  keyId: string
+  name: string
+}
+
+export interface ReviewVerdict {
+  state: ReviewState
+  // The reviewer's classification; only set when the model's was overturned
+  classification?: Classification
+}
+
+// One change to an analysis' review. Entries are only ever appended, so the log is the full history
+export interface ReviewAuditEntry {
+  id: string
+  analysisId: string
+  at: string
+  reviewer: Reviewer
+  from: ReviewVerdict
+  to: ReviewVerdict
+  rationale?: string
+}
+
+// The current human verdict, i.e. the latest audit entry
+export interface Review extends ReviewVerdict {
+  analysisId: string
+  rationale?: string
+  reviewer?: Reviewer
+  updatedAt?: string
+}
+
+export type PublicReview = Omit<Review, "reviewer">
+
+export interface ReviewStore {
+  append(entry: Omit<ReviewAuditEntry, "id" | "at">): Promise<ReviewAuditEntry>
+  // Oldest first; every analysis when analysisId is omitted
+  list(options?: { analysisId?: string }): Promise<ReviewAuditEntry[]>
+}
@@ -0,0 +1,66 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { z } from "zod"
+import { DEFAULT_PROMPT_TEMPLATE, getPromptTemplate } from "@/lib/prompts"
+import { getDataDirectory } from "@/lib/store"
+
+export const settingsSchema = z.object({
+  promptTemplate: z.string().refine((id) => !!getPromptTemplate(id), { message: "Unknown prompt template" }),
+})
+
+export type Settings = z.infer<typeof settingsSchema>
+
+export interface SettingsStore {
+  get(): Promise<Settings>
+  update(patch: Partial<Settings>): Promise<Settings>
+}
+
+export function defaultSettings(env: NodeJS.ProcessEnv = process.env): Settings {
+  return { promptTemplate: env.PROMPT_TEMPLATE || DEFAULT_PROMPT_TEMPLATE }
+}
+
+export function createMemorySettings(initial: Settings = defaultSettings()): SettingsStore {
+  let settings = initial
+  return {
+    async get() {
+      return settings
+    },
+    async update(patch) {
+      settings = settingsSchema.parse({ ...settings, ...patch })
+      return settings
+    },
+  }
+}
+
+// Saved values override the environment defaults, so admins can switch without a redeploy
+export function createFileSettings(filePath: string, defaults: Settings = defaultSettings()): SettingsStore {
+  async function read(): Promise<Settings> {
+    try {
+      const parsed = settingsSchema.partial().safeParse(JSON.parse(await readFile(filePath, "utf8")))
+      return { ...defaults, ...(parsed.success ? parsed.data : {}) }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return defaults
+      throw error
+    }
+  }
+
+  return {
+    get: read,
+    async update(patch) {
+      const settings = settingsSchema.parse({ ...(await read()), ...patch })
+      await mkdir(path.dirname(filePath), { recursive: true })
+      await writeFile(`${filePath}.tmp`, JSON.stringify(settings, null, 2))
+      await rename(`${filePath}.tmp`, filePath)
+      return settings
+    },
+  }
+}
+
+let store: SettingsStore | undefined
+
+export function getSettingsStore(env: NodeJS.ProcessEnv = process.env): SettingsStore {
+  return (store ??=
+    env.ANALYSIS_STORE === "memory"
+      ? createMemorySettings()
+      : createFileSettings(path.join(getDataDirectory(env), "settings.json")))
+}
@@ -0,0 +1,44 @@
+import { appendFile, mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterEach, describe, expect, it } from "vitest"
+import { createFileAppendLog, createMemoryAppendLog } from "./append-log"
+
+interface Entry {
+  analysisId: string
+  note: string
+}
+
+describe("createMemoryAppendLog", () => {
+  it("hands out copies, so listed entries cannot be rewritten", async () => {
+    const log = createMemoryAppendLog<Entry>()
+    await log.append({ analysisId: "a", note: "first" })
+    const [listed] = await log.list()
+    listed.note = "changed"
+
+    expect(await log.list()).toEqual([{ analysisId: "a", note: "first" }])
+  })
+})
+
+describe("createFileAppendLog", () => {
+  let directory: string
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it("lists entries oldest first, by analysis, skipping a line cut short mid-write", async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "append-log-"))
+    const filePath = path.join(directory, "nested", "log.jsonl")
+    const log = createFileAppendLog<Entry>(filePath)
+
+    expect(await log.list()).toEqual([])
+    await log.append({ analysisId: "a", note: "first" })
+    await log.append({ analysisId: "b", note: "other" })
+    await log.append({ analysisId: "a", note: "second" })
+    await appendFile(filePath, '{"analysisId":"a","no')
+
+    expect((await log.list({ analysisId: "a" })).map((entry) => entry.note)).toEqual(["first", "second"])
+    expect(await log.list()).toHaveLength(3)
+  })
+})
@@ -0,0 +1,58 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises"
+import path from "node:path"
+
+// Entries keyed to an analysis that are only ever appended, e.g. the review audit log and user feedback
+export interface AppendLog<T extends { analysisId: string }> {
+  append(entry: T): Promise<T>
+  // Oldest first; every analysis when analysisId is omitted
+  list(options?: { analysisId?: string }): Promise<T[]>
+}
+
+// Entries are frozen and handed out as copies, so nothing can rewrite history
+export function createMemoryAppendLog<T extends { analysisId: string }>(): AppendLog<T> {
+  const entries: T[] = []
+
+  return {
+    async append(entry) {
+      entries.push(Object.freeze({ ...entry }))
+      return { ...entry }
+    },
+    async list({ analysisId } = {}) {
+      return entries.filter((entry) => !analysisId || entry.analysisId === analysisId).map((entry) => ({ ...entry }))
+    },
+  }
+}
+
+// One JSON line per entry; lines are never rewritten
+export function createFileAppendLog<T extends { analysisId: string }>(filePath: string): AppendLog<T> {
+  let ready: Promise<unknown> | undefined
+  const ensureDir = () => (ready ??= mkdir(path.dirname(filePath), { recursive: true }))
+
+  return {
+    async append(entry) {
+      await ensureDir()
+      await appendFile(filePath, `${JSON.stringify(entry)}\n`)
+      return entry
+    },
+    async list({ analysisId } = {}) {
+      let text: string
+      try {
+        text = await readFile(filePath, "utf8")
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+        throw error
+      }
+
+      const entries: T[] = []
+      for (const line of text.split("\n")) {
+        if (!line.trim()) continue
+        try {
+          entries.push(JSON.parse(line))
+        } catch {
+          // A line cut short by a crash mid-write
+        }
+      }
+      return entries.filter((entry) => !analysisId || entry.analysisId === analysisId)
+    },
+  }
+}
@@ -0,0 +1,53 @@
+import { mkdir, readFile, readdir, rename, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { applyListOptions } from "./filter"
+import { createAnalysisId, isAnalysisId } from "./id"
+import type { AnalysisStore, StoredAnalysis } from "./types"
+
+export interface FileStoreConfig {
+  directory: string
+}
+
+// One JSON document per analysis, written atomically via rename
+export function createFileStore({ directory }: FileStoreConfig): AnalysisStore {
+  const analysesDir = path.join(directory, "analyses")
+  const filePath = (id: string) => path.join(analysesDir, `${id}.json`)
+  let ready: Promise<unknown> | undefined
+  const ensureDir = () => (ready ??= mkdir(analysesDir, { recursive: true }))
+
+  async function read(id: string): Promise<StoredAnalysis | undefined> {
+    try {
+      return JSON.parse(await readFile(filePath(id), "utf8"))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined
+      throw error
+    }
+  }
+
+  return {
+    async save(analysis) {
+      await ensureDir()
+      const stored = { ...analysis, id: createAnalysisId(), createdAt: new Date().toISOString() }
+      const temporary = `${filePath(stored.id)}.tmp`
+      await writeFile(temporary, JSON.stringify(stored))
+      await rename(temporary, filePath(stored.id))
+      return stored
+    },
+    async get(id) {
+      // Ids become file names, so never let anything else reach the filesystem
+      if (!isAnalysisId(id)) return undefined
+      return read(id)
+    },
+    async list(options) {
+      await ensureDir()
+      const ids = (await readdir(analysesDir))
+        .filter((name) => name.endsWith(".json"))
+        .map((name) => name.slice(0, -".json".length))
+      const analyses = await Promise.all(ids.map(read))
+      return applyListOptions(
+        analyses.filter((analysis): analysis is StoredAnalysis => !!analysis),
+        options,
+      )
+    },
+  }
+}
@@ -0,0 +1,35 @@
+import { AnalysisError } from "@/lib/analysis/errors"
+import { CLASSIFICATIONS, type Classification } from "@/lib/analysis/schema"
+import type { ListAnalysesOptions, StoredAnalysis } from "./types"
+
+export function matchesFilter(analysis: StoredAnalysis, { from, to, classification }: ListAnalysesOptions) {
+  if (from && analysis.createdAt < from) return false
+  if (to && analysis.createdAt > to) return false
+  if (classification && analysis.result.classification !== classification) return false
+  return true
+}
+
+export function applyListOptions(analyses: StoredAnalysis[], options: ListAnalysesOptions = {}) {
+  const matching = analyses
+    .filter((analysis) => matchesFilter(analysis, options))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  return options.limit === undefined ? matching : matching.slice(0, options.limit)
+}
+
+// Reads ?from=, ?to= and ?classification=. Dates may be ISO timestamps or plain days; a plain `to` day is included
+export function parseListFilters(searchParams: URLSearchParams): Omit<ListAnalysesOptions, "limit"> {
+  const date = (name: "from" | "to") => {
+    const value = searchParams.get(name)
+    if (!value) return undefined
+    const time = Date.parse(value)
+    if (Number.isNaN(time)) throw new AnalysisError("invalid_request", `${name} must be a date`)
+    const endOfDay = name === "to" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    return new Date(endOfDay ? time + 24 * 60 * 60 * 1000 - 1 : time).toISOString()
+  }
+
+  const classification = searchParams.get("classification") || undefined
+  if (classification && !(CLASSIFICATIONS as readonly string[]).includes(classification)) {
+    throw new AnalysisError("invalid_request", `classification must be one of ${CLASSIFICATIONS.join(", ")}`)
+  }
+  return { from: date("from"), to: date("to"), classification: classification as Classification | undefined }
+}
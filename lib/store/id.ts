@@ -0,0 +1,10 @@
+import { randomBytes } from "node:crypto"
+
+// 12 URL-safe characters; short enough for links, long enough that ids cannot be guessed
+export function createAnalysisId() {
+  return randomBytes(9).toString("base64url")
+}
+
+export function isAnalysisId(value: string) {
+  return /^[A-Za-z0-9_-]{12}$/.test(value)
+}
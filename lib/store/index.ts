@@ -0,0 +1,44 @@
+import path from "node:path"
+import type { AnalysisResult } from "@/lib/analysis/schema"
+import { createFileStore } from "./file"
+import { createMemoryStore } from "./memory"
+import type { AnalysisStore, StoredAnalysis } from "./types"
+
+export * from "./types"
+export { createFileStore, createMemoryStore }
+export { type AppendLog, createFileAppendLog, createMemoryAppendLog } from "./append-log"
+export { parseListFilters } from "./filter"
+export { isAnalysisId } from "./id"
+
+let store: AnalysisStore | undefined
+
+export function getDataDirectory(env: NodeJS.ProcessEnv = process.env) {
+  return env.ANALYSIS_STORE_DIR || path.join(process.cwd(), ".data")
+}
+
+export function createAnalysisStore(env: NodeJS.ProcessEnv = process.env): AnalysisStore {
+  switch (env.ANALYSIS_STORE || "file") {
+    case "file":
+      return createFileStore({ directory: getDataDirectory(env) })
+    case "memory":
+      return createMemoryStore()
+    default:
+      throw new Error(`Unknown analysis store: ${env.ANALYSIS_STORE}`)
+  }
+}
+
+// Shared across requests so the in-memory store survives between them
+export function getAnalysisStore(): AnalysisStore {
+  return (store ??= createAnalysisStore())
+}
+
+// Persistence is best effort: a failing store must not cost the user their analysis
+export async function saveAnalysis(input: StoredAnalysis["input"], result: AnalysisResult): Promise<AnalysisResult> {
+  try {
+    const { id } = await getAnalysisStore().save({ input, result })
+    return { ...result, id }
+  } catch (error) {
+    console.error("Failed to store analysis:", error)
+    return result
+  }
+}
@@ -0,0 +1,21 @@
+import { applyListOptions } from "./filter"
+import { createAnalysisId } from "./id"
+import type { AnalysisStore, StoredAnalysis } from "./types"
+
+export function createMemoryStore(): AnalysisStore {
+  const analyses = new Map<string, StoredAnalysis>()
+
+  return {
+    async save(analysis) {
+      const stored = { ...analysis, id: createAnalysisId(), createdAt: new Date().toISOString() }
+      analyses.set(stored.id, stored)
+      return stored
+    },
+    async get(id) {
+      return analyses.get(id)
+    },
+    async list(options) {
+      return applyListOptions([...analyses.values()], options)
+    },
+  }
+}
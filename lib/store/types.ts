@@ -0,0 +1,26 @@
+import type { AnalysisResult, Classification } from "@/lib/analysis/schema"
+
+export interface StoredAnalysis {
+  id: string
+  createdAt: string
+  // What the user submitted; URLs are kept so permalinks can link back to the source
+  input: {
+    content?: string
+    url?: string
+  }
+  result: AnalysisResult
+}
+
+export interface ListAnalysesOptions {
+  limit?: number
+  from?: string
+  to?: string
+  classification?: Classification
+}
+
+export interface AnalysisStore {
+  save(analysis: Omit<StoredAnalysis, "id" | "createdAt">): Promise<StoredAnalysis>
+  get(id: string): Promise<StoredAnalysis | undefined>
+  // Newest first
+  list(options?: ListAnalysesOptions): Promise<StoredAnalysis[]>
+}
@@ -0,0 +1,99 @@
+import { SIGNATURE_HEADER, signWebhook } from "./sign"
+import type { WebhookAttempt, WebhookDelivery, WebhookPayload, WebhookStore, WebhookSubscription } from "./types"
+
+export interface DeliveryConfig {
+  maxAttempts: number
+  // First retry delay; each later one is four times longer
+  baseDelayMs: number
+  timeoutMs: number
+  fetch?: typeof fetch
+  sleep?: (ms: number) => Promise<void>
+}
+
+export function getDeliveryConfig(env: NodeJS.ProcessEnv = process.env): DeliveryConfig {
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = Number.parseInt(value ?? "", 10)
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+  }
+  return {
+    maxAttempts: number(env.WEBHOOK_MAX_ATTEMPTS, 5),
+    baseDelayMs: number(env.WEBHOOK_RETRY_DELAY_MS, 2000),
+    timeoutMs: number(env.WEBHOOK_TIMEOUT_MS, 10_000),
+  }
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+// Timeouts, rate limiting and server errors may pass; other client errors will not change on a retry
+function isRetryable(statusCode: number | undefined) {
+  return statusCode === undefined || statusCode === 408 || statusCode === 429 || statusCode >= 500
+}
+
+function retryDelay(attempt: number, baseDelayMs: number, retryAfter: string | null) {
+  const backoff = baseDelayMs * 4 ** (attempt - 1)
+  // ±20% jitter so a receiver coming back up is not hit by every queued delivery at once
+  const jittered = backoff * (0.8 + Math.random() * 0.4)
+  const requested = Number(retryAfter) * 1000
+  return Math.round(Number.isFinite(requested) && requested > jittered ? requested : jittered)
+}
+
+// Delivers one payload, retrying with exponential backoff; every attempt is written to the delivery log
+export async function deliverWebhook(
+  subscription: WebhookSubscription,
+  payload: WebhookPayload,
+  store: WebhookStore,
+  { maxAttempts, baseDelayMs, timeoutMs, fetch: send = fetch, sleep = defaultSleep }: DeliveryConfig,
+): Promise<WebhookDelivery> {
+  const body = JSON.stringify(payload)
+  const delivery: WebhookDelivery = {
+    id: payload.id,
+    subscriptionId: subscription.id,
+    type: payload.type,
+    analysisId: payload.data.analysis.id,
+    status: "pending",
+    attempts: [],
+    createdAt: payload.createdAt,
+  }
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const started = Date.now()
+    const record: WebhookAttempt = { at: new Date(started).toISOString(), durationMs: 0 }
+    let retryAfter: string | null = null
+    try {
+      const response = await send(subscription.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "DisinformationHunter-Webhooks/1.0",
+          "X-Webhook-Id": delivery.id,
+          "X-Webhook-Event": payload.type,
+          [SIGNATURE_HEADER]: signWebhook(subscription.secret, body),
+        },
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(timeoutMs),
+      })
+      await response.body?.cancel()
+      record.statusCode = response.status
+      retryAfter = response.headers.get("retry-after")
+    } catch (error) {
+      record.error = error instanceof Error ? error.message : String(error)
+    }
+    record.durationMs = Date.now() - started
+    delivery.attempts.push(record)
+
+    const ok = record.statusCode !== undefined && record.statusCode >= 200 && record.statusCode < 300
+    if (ok || !isRetryable(record.statusCode) || attempt === maxAttempts) {
+      delivery.status = ok ? "delivered" : "failed"
+      delivery.nextAttemptAt = undefined
+      await store.saveDelivery(delivery)
+      return delivery
+    }
+
+    const delay = retryDelay(attempt, baseDelayMs, retryAfter)
+    delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString()
+    await store.saveDelivery(delivery)
+    await sleep(delay)
+  }
+  return delivery
+}
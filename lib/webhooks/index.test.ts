@@ -0,0 +1,178 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import type { AnalysisResult } from "@/lib/analysis/schema"
+import type { DeliveryConfig } from "./deliver"
+import {
+  type WebhookDelivery,
+  type WebhookPayload,
+  type WebhookSubscription,
+  createFileWebhookStore,
+  createMemoryWebhookStore,
+  deliverWebhook,
+  matchesFilters,
+  verifyWebhookSignature,
+} from "./index"
+
+const result = { classification: "Disinformation", contentType: "Claim", confidence: 80 } as AnalysisResult
+
+const subscription: WebhookSubscription = {
+  id: "sub1",
+  url: "https://receiver.example/hook",
+  secret: "whsec_test",
+  filters: {},
+  active: true,
+  createdAt: "2024-01-01T00:00:00.000Z",
+}
+
+const payload: WebhookPayload = {
+  id: "evt1",
+  type: "analysis.completed",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  data: { analysis: { ...result, id: "a1" }, input: { content: "5G towers spread the virus" } },
+}
+
+const delivery = (id: string): WebhookDelivery => ({
+  id,
+  subscriptionId: "sub1",
+  type: "analysis.completed",
+  status: "delivered",
+  attempts: [],
+  createdAt: "2024-01-01T00:00:00.000Z",
+})
+
+describe("matchesFilters", () => {
+  it("matches everything without filters", () => {
+    expect(matchesFilters({}, result)).toBe(true)
+  })
+
+  it("needs every filter that is set to match", () => {
+    expect(matchesFilters({ classifications: ["Disinformation", "Inconclusive"] }, result)).toBe(true)
+    expect(matchesFilters({ classifications: ["Not Disinformation"] }, result)).toBe(false)
+    expect(matchesFilters({ minConfidence: 80 }, result)).toBe(true)
+    expect(matchesFilters({ minConfidence: 81 }, result)).toBe(false)
+    expect(matchesFilters({ contentTypes: ["Claim"], minConfidence: 50 }, result)).toBe(true)
+    expect(matchesFilters({ contentTypes: ["Opinion"], minConfidence: 50 }, result)).toBe(false)
+  })
+})
+
+describe("deliverWebhook", () => {
+  const replies = (...responses: (Response | Error)[]) => {
+    const send = vi.fn(async () => {
+      const next = responses.shift()!
+      if (next instanceof Error) throw next
+      return next
+    })
+    return send as unknown as typeof fetch & typeof send
+  }
+  const delivered = (send: typeof fetch, overrides: Partial<DeliveryConfig> = {}) => {
+    const delays: number[] = []
+    const config: DeliveryConfig = {
+      maxAttempts: 4,
+      baseDelayMs: 1000,
+      timeoutMs: 1000,
+      fetch: send,
+      sleep: async (ms: number) => {
+        delays.push(ms)
+      },
+      ...overrides,
+    }
+    return { delays, run: () => deliverWebhook(subscription, payload, createMemoryWebhookStore(), config) }
+  }
+
+  beforeEach(() => {
+    // No jitter: the middle of the ±20% range
+    vi.spyOn(Math, "random").mockReturnValue(0.5)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("retries server errors and timeouts with delays that grow four times each attempt", async () => {
+    const send = replies(new Response("", { status: 503 }), new Error("timeout"), new Response("", { status: 500 }))
+    const { delays, run } = delivered(send, { maxAttempts: 3 })
+
+    const outcome = await run()
+    expect(outcome.status).toBe("failed")
+    expect(outcome.attempts.map((attempt) => attempt.statusCode ?? attempt.error)).toEqual([503, "timeout", 500])
+    expect(delays).toEqual([1000, 4000])
+  })
+
+  it("waits for Retry-After when it asks for longer than the backoff", async () => {
+    const send = replies(
+      new Response("", { status: 429, headers: { "Retry-After": "30" } }),
+      new Response("", { status: 429, headers: { "Retry-After": "1" } }),
+      new Response(null, { status: 204 }),
+    )
+    const { delays, run } = delivered(send)
+
+    expect((await run()).status).toBe("delivered")
+    expect(delays).toEqual([30_000, 4000])
+  })
+
+  it("gives up at once on other client errors", async () => {
+    const send = replies(new Response("", { status: 410 }))
+    const { delays, run } = delivered(send)
+
+    expect(await run()).toMatchObject({ status: "failed", attempts: [{ statusCode: 410 }] })
+    expect(delays).toEqual([])
+  })
+
+  it("signs the body with the subscription's secret", async () => {
+    const send = replies(new Response("", { status: 200 }))
+    await delivered(send).run()
+
+    const [url, init] = send.mock.calls[0] as unknown as [string, RequestInit]
+    const headers = init.headers as Record<string, string>
+    expect(url).toBe(subscription.url)
+    expect(headers["X-Webhook-Id"]).toBe("evt1")
+    expect(verifyWebhookSignature(subscription.secret, headers["X-Webhook-Signature"], init.body as string)).toBe(true)
+  })
+})
+
+describe("createFileWebhookStore", () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "webhooks-"))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it("queues concurrent writes so none of them is lost", async () => {
+    const store = createFileWebhookStore(directory)
+    await Promise.all(Array.from({ length: 20 }, (_, index) => store.saveDelivery(delivery(`d${index}`))))
+
+    const logged = await store.listDeliveries({ limit: 100 })
+    expect(logged).toHaveLength(20)
+    // Newest first
+    expect(logged[0].id).toBe("d19")
+    expect(JSON.parse(await readFile(path.join(directory, "webhook-deliveries.json"), "utf8"))).toHaveLength(20)
+  })
+
+  it("replaces a delivery saved again under its id", async () => {
+    const store = createFileWebhookStore(directory)
+    await store.saveDelivery({ ...delivery("d1"), status: "pending" })
+    await store.saveDelivery(delivery("d2"))
+    await store.saveDelivery(delivery("d1"))
+
+    expect((await store.listDeliveries()).map((entry) => [entry.id, entry.status])).toEqual([
+      ["d1", "delivered"],
+      ["d2", "delivered"],
+    ])
+  })
+
+  it("saves, lists and deletes subscriptions", async () => {
+    const store = createFileWebhookStore(directory)
+    await Promise.all([store.saveSubscription(subscription), store.saveSubscription({ ...subscription, id: "sub2" })])
+
+    expect((await store.listSubscriptions()).map((entry) => entry.id)).toEqual(["sub1", "sub2"])
+    expect(await store.deleteSubscription("sub1")).toBe(true)
+    expect(await store.deleteSubscription("sub1")).toBe(false)
+    expect(await store.getSubscription("sub2")).toEqual({ ...subscription, id: "sub2" })
+  })
+})
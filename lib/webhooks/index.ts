@@ -0,0 +1,222 @@
+import { randomBytes } from "node:crypto"
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { z } from "zod"
+import { type AnalysisResult, CLASSIFICATIONS, CONTENT_TYPES } from "@/lib/analysis/schema"
+import { type StoredAnalysis, getDataDirectory } from "@/lib/store"
+import { createAnalysisId } from "@/lib/store/id"
+import { type DeliveryConfig, deliverWebhook, getDeliveryConfig } from "./deliver"
+import type {
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookFilters,
+  WebhookPayload,
+  WebhookStore,
+  WebhookSubscription,
+} from "./types"
+
+export * from "./types"
+export { SIGNATURE_HEADER, signWebhook, verifyWebhookSignature } from "./sign"
+export { deliverWebhook, getDeliveryConfig }
+
+const MAX_LOGGED_DELIVERIES = 1000
+
+const filtersSchema = z.object({
+  classifications: z.array(z.enum(CLASSIFICATIONS)).min(1).optional(),
+  minConfidence: z.number().min(0).max(100).optional(),
+  contentTypes: z.array(z.enum(CONTENT_TYPES)).min(1).optional(),
+})
+
+export const createSubscriptionSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .refine((url) => /^https?:\/\//.test(url), { message: "Must be an http or https URL" }),
+  description: z.string().max(200).optional(),
+  // Generated when omitted
+  secret: z.string().min(16).optional(),
+  filters: filtersSchema.default({}),
+  active: z.boolean().default(true),
+})
+
+export const updateSubscriptionSchema = createSubscriptionSchema.omit({ secret: true }).partial()
+
+// Deliveries are updated after every attempt; copies keep callers from mutating what the store holds
+export function createMemoryWebhookStore(): WebhookStore {
+  const subscriptions = new Map<string, WebhookSubscription>()
+  let deliveries: WebhookDelivery[] = []
+
+  return {
+    async listSubscriptions() {
+      return [...subscriptions.values()]
+    },
+    async getSubscription(id) {
+      return subscriptions.get(id)
+    },
+    async saveSubscription(subscription) {
+      subscriptions.set(subscription.id, subscription)
+    },
+    async deleteSubscription(id) {
+      return subscriptions.delete(id)
+    },
+    async saveDelivery(delivery) {
+      deliveries = [structuredClone(delivery), ...deliveries.filter((entry) => entry.id !== delivery.id)]
+      deliveries = deliveries.slice(0, MAX_LOGGED_DELIVERIES)
+    },
+    async listDeliveries({ subscriptionId, limit = 50 } = {}) {
+      return deliveries
+        .filter((delivery) => !subscriptionId || delivery.subscriptionId === subscriptionId)
+        .slice(0, limit)
+    },
+  }
+}
+
+// Subscriptions and the delivery log are two JSON documents; writes are queued so concurrent deliveries do not
+// overwrite each other's log entries
+export function createFileWebhookStore(directory: string): WebhookStore {
+  const subscriptionsPath = path.join(directory, "webhooks.json")
+  const deliveriesPath = path.join(directory, "webhook-deliveries.json")
+  let queue: Promise<unknown> = Promise.resolve()
+
+  async function read<T>(filePath: string): Promise<T[]> {
+    try {
+      const parsed = JSON.parse(await readFile(filePath, "utf8"))
+      return Array.isArray(parsed) ? parsed : []
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+      throw error
+    }
+  }
+
+  function update<T, R>(filePath: string, change: (entries: T[]) => { entries: T[]; result: R }): Promise<R> {
+    const run = queue.then(async () => {
+      const { entries, result } = change(await read<T>(filePath))
+      await mkdir(directory, { recursive: true })
+      await writeFile(`${filePath}.tmp`, JSON.stringify(entries, null, 2))
+      await rename(`${filePath}.tmp`, filePath)
+      return result
+    })
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  return {
+    listSubscriptions: () => read<WebhookSubscription>(subscriptionsPath),
+    async getSubscription(id) {
+      return (await read<WebhookSubscription>(subscriptionsPath)).find((subscription) => subscription.id === id)
+    },
+    saveSubscription: (subscription) =>
+      update<WebhookSubscription, void>(subscriptionsPath, (entries) => ({
+        entries: [...entries.filter((entry) => entry.id !== subscription.id), subscription],
+        result: undefined,
+      })),
+    deleteSubscription: (id) =>
+      update<WebhookSubscription, boolean>(subscriptionsPath, (entries) => ({
+        entries: entries.filter((entry) => entry.id !== id),
+        result: entries.some((entry) => entry.id === id),
+      })),
+    saveDelivery: (delivery) =>
+      update<WebhookDelivery, void>(deliveriesPath, (entries) => ({
+        entries: [delivery, ...entries.filter((entry) => entry.id !== delivery.id)].slice(0, MAX_LOGGED_DELIVERIES),
+        result: undefined,
+      })),
+    async listDeliveries({ subscriptionId, limit = 50 } = {}) {
+      return (await read<WebhookDelivery>(deliveriesPath))
+        .filter((delivery) => !subscriptionId || delivery.subscriptionId === subscriptionId)
+        .slice(0, limit)
+    },
+  }
+}
+
+let store: WebhookStore | undefined
+
+export function getWebhookStore(env: NodeJS.ProcessEnv = process.env): WebhookStore {
+  return (store ??=
+    env.ANALYSIS_STORE === "memory" ? createMemoryWebhookStore() : createFileWebhookStore(getDataDirectory(env)))
+}
+
+export function createSubscription(input: z.output<typeof createSubscriptionSchema>): WebhookSubscription {
+  return {
+    id: createAnalysisId(),
+    url: input.url,
+    description: input.description,
+    secret: input.secret ?? `whsec_${randomBytes(24).toString("base64url")}`,
+    filters: input.filters,
+    active: input.active,
+    createdAt: new Date().toISOString(),
+  }
+}
+
+// Listings never show the signing secret; it is returned once, when the subscription is created
+export function withoutSecret({ secret: _secret, ...subscription }: WebhookSubscription) {
+  return subscription
+}
+
+export function matchesFilters(filters: WebhookFilters, result: AnalysisResult) {
+  return (
+    (!filters.classifications || filters.classifications.includes(result.classification)) &&
+    (filters.minConfidence === undefined || result.confidence >= filters.minConfidence) &&
+    (!filters.contentTypes || filters.contentTypes.includes(result.contentType))
+  )
+}
+
+function createPayload(type: WebhookEvent, { input, result }: Pick<StoredAnalysis, "input" | "result">) {
+  const baseUrl = process.env.PUBLIC_BASE_URL?.replace(/\/$/, "")
+  const payload: WebhookPayload = {
+    id: createAnalysisId(),
+    type,
+    createdAt: new Date().toISOString(),
+    data: {
+      analysis: result,
+      input,
+      permalink: baseUrl && result.id ? `${baseUrl}/analysis/${result.id}` : undefined,
+    },
+  }
+  return payload
+}
+
+// Starts delivery to every active subscription whose filters match and returns at once; delivery and its retries
+// run in the background and are lost if the server stops before they finish. Cached results were already sent
+// when first analyzed
+export function dispatchWebhooks(
+  analysis: Pick<StoredAnalysis, "input" | "result">,
+  { webhookStore = getWebhookStore(), config = getDeliveryConfig() } = {},
+) {
+  if (analysis.result.cached) return
+  const run = async () => {
+    const subscriptions = (await webhookStore.listSubscriptions()).filter(
+      (subscription) => subscription.active && matchesFilters(subscription.filters, analysis.result),
+    )
+    await Promise.all(
+      subscriptions.map((subscription) =>
+        deliverWebhook(subscription, createPayload("analysis.completed", analysis), webhookStore, config),
+      ),
+    )
+  }
+  run().catch((error) => console.error("Webhook dispatch failed:", error))
+}
+
+const SAMPLE_ANALYSIS: AnalysisResult = {
+  classification: "Disinformation",
+  contentType: "Claim",
+  confidence: 90,
+  explanation: "This is a test delivery from Disinformation Hunter; no content was analyzed.",
+  keyTerms: [],
+  verificationSources: [],
+  recommendations: [],
+  claims: [],
+  comments: [],
+  timestamp: new Date(0).toISOString(),
+}
+
+// Sends a sample payload once, without retries, so admins can check a receiver and its signature handling
+export function sendTestWebhook(
+  subscription: WebhookSubscription,
+  {
+    webhookStore = getWebhookStore(),
+    config = getDeliveryConfig(),
+  }: { webhookStore?: WebhookStore; config?: DeliveryConfig } = {},
+) {
+  const payload = createPayload("webhook.test", { input: { content: "" }, result: SAMPLE_ANALYSIS })
+  return deliverWebhook(subscription, payload, webhookStore, { ...config, maxAttempts: 1 })
+}
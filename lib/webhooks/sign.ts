@@ -0,0 +1,29 @@
+import { createHmac, timingSafeEqual } from "node:crypto"
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature"
+
+function hmac(secret: string, timestamp: number, body: string) {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+}
+
+// "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>"; signing the timestamp lets receivers reject replays
+export function signWebhook(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`
+}
+
+// For receivers: checks the signature against the raw request body and that it is recent
+export function verifyWebhookSignature(
+  secret: string,
+  header: string | null,
+  body: string,
+  { toleranceSeconds = 300, now = Date.now }: { toleranceSeconds?: number; now?: () => number } = {},
+) {
+  const parts = Object.fromEntries((header ?? "").split(",").map((part) => part.trim().split("=", 2)))
+  const timestamp = Number(parts.t)
+  if (!Number.isInteger(timestamp) || !parts.v1) return false
+  if (Math.abs(now() / 1000 - timestamp) > toleranceSeconds) return false
+
+  const expected = Buffer.from(hmac(secret, timestamp, body))
+  const provided = Buffer.from(parts.v1)
+  return expected.length === provided.length && timingSafeEqual(expected, provided)
+}
@@ -0,0 +1,67 @@
+import type { AnalysisResult, Classification, ContentType } from "@/lib/analysis/schema"
+import type { StoredAnalysis } from "@/lib/store"
+
+export const WEBHOOK_EVENTS = ["analysis.completed", "webhook.test"] as const
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number]
+
+// Every filter that is set must match; an empty filter list matches everything
+export interface WebhookFilters {
+  classifications?: Classification[]
+  // Inclusive, on the confidence shown to users (calibrated when a calibration applies)
+  minConfidence?: number
+  contentTypes?: ContentType[]
+}
+
+export interface WebhookSubscription {
+  id: string
+  url: string
+  description?: string
+  // Shared with the receiver to check X-Webhook-Signature
+  secret: string
+  filters: WebhookFilters
+  active: boolean
+  createdAt: string
+}
+
+export interface WebhookPayload {
+  // Same as the delivery id, so receivers can drop duplicates caused by retries
+  id: string
+  type: WebhookEvent
+  createdAt: string
+  data: {
+    analysis: AnalysisResult
+    input: StoredAnalysis["input"]
+    permalink?: string
+  }
+}
+
+export interface WebhookAttempt {
+  at: string
+  durationMs: number
+  statusCode?: number
+  error?: string
+}
+
+export interface WebhookDelivery {
+  id: string
+  subscriptionId: string
+  type: WebhookEvent
+  analysisId?: string
+  status: "pending" | "delivered" | "failed"
+  attempts: WebhookAttempt[]
+  createdAt: string
+  // When the next retry is due while the delivery is pending
+  nextAttemptAt?: string
+}
+
+export interface WebhookStore {
+  listSubscriptions(): Promise<WebhookSubscription[]>
+  getSubscription(id: string): Promise<WebhookSubscription | undefined>
+  saveSubscription(subscription: WebhookSubscription): Promise<void>
+  deleteSubscription(id: string): Promise<boolean>
+  // Inserts or replaces by id; the log keeps only the most recent deliveries
+  saveDelivery(delivery: WebhookDelivery): Promise<void>
+  // Newest first
+  listDeliveries(options?: { subscriptionId?: string; limit?: number }): Promise<WebhookDelivery[]>
+}
@@ -6,6 +6,8 @@ const nextConfig = {
   typescript: {
     ignoreBuildErrors: true,
   },
+  // Spawns worker threads from files inside the package, which bundling would break
+  serverExternalPackages: ["tesseract.js"],
   images: {
     unoptimized: true,
   },
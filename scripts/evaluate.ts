@@ -0,0 +1,40 @@
+// Runs the evaluation harness from the command line, with the same provider settings as the app.
+//
+//   pnpm eval [dataset.jsonl] [--calibrate temperature|isotonic] [--save]
+//
+// The dataset defaults to EVAL_DATASET or data/eval/labeled.jsonl. Prints the report as JSON;
+// --save makes the fitted calibration the one applied to live results.
+import { parseArgs } from "node:util"
+import { CALIBRATION_METHODS, type CalibrationMethod } from "@/lib/analysis/schema"
+import { getCalibrationStore } from "@/lib/calibration"
+import { getDatasetPath, loadLabeledDataset, runEvaluation } from "@/lib/eval"
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      calibrate: { type: "string" },
+      save: { type: "boolean", default: false },
+    },
+  })
+
+  const calibrate = values.calibrate as CalibrationMethod | undefined
+  if (calibrate && !CALIBRATION_METHODS.includes(calibrate)) {
+    throw new Error(`--calibrate must be one of ${CALIBRATION_METHODS.join(", ")}`)
+  }
+  if (values.save && !calibrate) throw new Error("--save needs --calibrate")
+
+  const dataset = await loadLabeledDataset(positionals[0] ?? getDatasetPath())
+  if (values.save && dataset.some((example) => example.response)) {
+    throw new Error("Only calibrations fitted on live model replies can be saved")
+  }
+  const report = await runEvaluation(dataset, { calibrate })
+  if (values.save && report.calibration) await getCalibrationStore().set(report.calibration.fitted)
+
+  console.log(JSON.stringify({ ...report, saved: values.save && !!report.calibration }, null, 2))
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,39 @@
+// Local receiver for trying out webhooks: logs each delivery and whether its signature verifies.
+//
+//   WEBHOOK_SECRET=whsec_... PORT=4000 pnpm webhook:receiver
+//
+// RESPOND_STATUS=500 makes it answer every delivery with that status, to watch the retries.
+import { createHmac, timingSafeEqual } from "node:crypto"
+import { createServer } from "node:http"
+
+const port = Number(process.env.PORT || 4000)
+const secret = process.env.WEBHOOK_SECRET
+const respondStatus = Number(process.env.RESPOND_STATUS || 200)
+
+function verify(header, body) {
+  const parts = Object.fromEntries((header ?? "").split(",").map((part) => part.trim().split("=", 2)))
+  const expected = createHmac("sha256", secret).update(`${parts.t}.${body}`).digest("hex")
+  if (!parts.v1 || parts.v1.length !== expected.length) return false
+  return Math.abs(Date.now() / 1000 - Number(parts.t)) <= 300 && timingSafeEqual(Buffer.from(parts.v1), Buffer.from(expected))
+}
+
+createServer((request, response) => {
+  const chunks = []
+  request.on("data", (chunk) => chunks.push(chunk))
+  request.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8")
+    const signature = request.headers["x-webhook-signature"]
+    const verified = secret ? (verify(signature, body) ? "valid" : "INVALID") : "unchecked (no WEBHOOK_SECRET)"
+
+    let summary = ""
+    try {
+      const { type, data } = JSON.parse(body)
+      summary = `${type}: ${data.analysis.classification} (${data.analysis.confidence}%)`
+    } catch {
+      summary = `${body.length} bytes, not JSON`
+    }
+    console.log(`${new Date().toISOString()} ${request.headers["x-webhook-id"]} ${summary}, signature ${verified}`)
+
+    response.writeHead(respondStatus).end()
+  })
+}).listen(port, () => console.log(`Webhook receiver listening on http://localhost:${port}`))